@@ -0,0 +1,287 @@
+/**
+ * Project Config
+ *
+ * Loads nanobanana.config.json (or .ts/.js) from the project so teams can set
+ * shared defaults once instead of passing them to every tool:
+ * - Output directories, globally and per tool
+ * - Default aspect ratios, video resolution and per-tool styles
+ * - Brand name and colors woven into banner, preview and diagram prompts
+ * - Model choices (see ../providers/models.ts)
+ * - Platform targets for app assets
+ * - A naming template for saved files
+ * - The workspace root outputs must stay inside, and the overwrite policy
+ *
+ * Tool arguments always win, then environment variables, then this file,
+ * then built-in defaults. The file is looked up from the project directory
+ * upwards to the repository root; NANOBANANA_CONFIG points at a file directly.
+ */
+
+import { readFileSync, statSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { parseModelConfig, type ModelConfig } from '../providers/models.js';
+import { createLogger } from '../utils/logger.js';
+
+/** Config file names, in lookup order */
+export const CONFIG_FILENAMES = ['nanobanana.config.json', 'nanobanana.config.ts', 'nanobanana.config.js'];
+
+const hexColor = z.string().regex(/^#(?:[0-9a-fA-F]{3}){1,2}$/, 'Expected a hex color such as #1E88E5');
+
+export const projectConfigSchema = z
+  .object({
+    /** Default output directory, relative to the config file */
+    outputDir: z.string().min(1).optional(),
+    /** Output directory per tool name, relative to the config file */
+    outputDirs: z.record(z.string().min(1)).optional(),
+    /** Directory outputs must stay inside, relative to the config file (default: the project) */
+    workspaceRoot: z.string().min(1).optional(),
+    /** Allow writes to output directories outside the workspace root */
+    allowExternalOutputDirs: z.boolean().optional(),
+    /** What to do when an output file already exists (see ../utils/path-safety.ts) */
+    overwrite: z.enum(['never', 'version', 'replace']).optional(),
+    defaults: z
+      .object({
+        aspectRatio: z.enum(['1:1', '3:4', '4:3', '9:16', '16:9']).optional(),
+        videoAspectRatio: z.enum(['16:9', '9:16']).optional(),
+        videoResolution: z.enum(['720p', '1080p']).optional(),
+        /** Default style per tool name (e.g. generate_readme_banner: "tech") */
+        styles: z.record(z.string().min(1)).optional(),
+      })
+      .strict()
+      .optional(),
+    brand: z
+      .object({
+        name: z.string().min(1).optional(),
+        colors: z.array(hexColor).optional(),
+      })
+      .strict()
+      .optional(),
+    models: z
+      .unknown()
+      .optional()
+      .transform((value, ctx): ModelConfig | undefined => {
+        if (value === undefined) return undefined;
+        try {
+          return parseModelConfig(value);
+        } catch (error) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+          return z.NEVER;
+        }
+      }),
+    /** Platforms app-asset tools target when none are given */
+    platforms: z.array(z.enum(['ios', 'android'])).min(1).optional(),
+    naming: z
+      .object({
+        /** Filename template; placeholders: {name}, {date}, {timestamp} */
+        template: z
+          .string()
+          .regex(/^(?:[\w.-]|\{(?:name|date|timestamp)\})+$/, 'Use letters, digits, ".", "_", "-" and {name}, {date}, {timestamp}')
+          .refine((template) => template.includes('{name}'), 'Template must include {name}'),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type ProjectConfig = z.infer<typeof projectConfigSchema>;
+
+export interface LoadedProjectConfig {
+  config: ProjectConfig;
+  /** File the config came from (undefined when none was found) */
+  path?: string;
+}
+
+/** Config loaded by the plugin at startup */
+let activeConfig: LoadedProjectConfig | undefined;
+/** Error from loading the config at startup; surfaced on every tool call */
+let activeError: Error | undefined;
+/** Project directory the plugin was started for */
+let activeDirectory: string | undefined;
+
+/**
+ * Find the config file for a project
+ *
+ * @param startDir Directory to search from (usually the project directory)
+ * @returns Config path, or undefined when there is none
+ */
+export function findConfigFile(startDir: string = process.cwd()): string | undefined {
+  if (process.env.NANOBANANA_CONFIG) {
+    const path = resolve(process.env.NANOBANANA_CONFIG);
+    return statSync(path, { throwIfNoEntry: false })?.isFile() ? path : undefined;
+  }
+
+  let dir = resolve(startDir);
+  for (;;) {
+    for (const filename of CONFIG_FILENAMES) {
+      const candidate = join(dir, filename);
+      if (statSync(candidate, { throwIfNoEntry: false })?.isFile()) {
+        return candidate;
+      }
+    }
+    // Stop at the repository root or the filesystem root
+    const parent = dirname(dir);
+    if (statSync(join(dir, '.git'), { throwIfNoEntry: false }) || parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Validate a raw config object and resolve its paths
+ *
+ * @param raw Parsed config
+ * @param path File it came from (for errors and relative paths)
+ * @returns Validated config
+ */
+export function parseProjectConfig(raw: unknown, path: string): ProjectConfig {
+  const result = projectConfigSchema.safeParse(raw);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid config file ${path}: ${issues}`);
+  }
+
+  const config = result.data;
+  const baseDir = dirname(path);
+  if (config.outputDir) {
+    config.outputDir = resolve(baseDir, config.outputDir);
+  }
+  if (config.workspaceRoot) {
+    config.workspaceRoot = resolve(baseDir, config.workspaceRoot);
+  }
+  if (config.outputDirs) {
+    config.outputDirs = Object.fromEntries(
+      Object.entries(config.outputDirs).map(([tool, dir]) => [tool, resolve(baseDir, dir)])
+    );
+  }
+  return config;
+}
+
+function readJsonConfig(path: string): unknown {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Failed to read config file ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Load the project config, including .ts/.js files
+ *
+ * @param startDir Directory to search from
+ * @returns Config and the file it came from
+ */
+export async function loadProjectConfig(startDir: string = process.cwd()): Promise<LoadedProjectConfig> {
+  const path = findConfigFile(startDir);
+  if (!path) {
+    return { config: {} };
+  }
+
+  let raw: unknown;
+  if (path.endsWith('.json')) {
+    raw = readJsonConfig(path);
+  } else {
+    try {
+      const module = (await import(pathToFileURL(path).href)) as { default?: unknown };
+      raw = module.default ?? module;
+    } catch (error) {
+      throw new Error(`Failed to load config file ${path}: ${(error as Error).message}`);
+    }
+  }
+
+  return { config: parseProjectConfig(raw, path), path };
+}
+
+/**
+ * Load a JSON project config synchronously (used when the plugin hasn't loaded one)
+ *
+ * @param startDir Directory to search from
+ * @returns Config and the file it came from
+ */
+export function loadProjectConfigSync(startDir: string = process.cwd()): LoadedProjectConfig {
+  const path = findConfigFile(startDir);
+  if (!path || !path.endsWith('.json')) {
+    return { config: {} };
+  }
+  return { config: parseProjectConfig(readJsonConfig(path), path), path };
+}
+
+/**
+ * Load the project config for the plugin
+ *
+ * A broken config doesn't stop the plugin from loading; the error is reported
+ * by every tool call instead so it shows up where the user is looking.
+ *
+ * @param startDir Project directory
+ */
+export async function initProjectConfig(startDir: string): Promise<void> {
+  activeDirectory = startDir;
+  try {
+    activeConfig = await loadProjectConfig(startDir);
+    activeError = undefined;
+  } catch (error) {
+    activeConfig = undefined;
+    activeError = error as Error;
+    createLogger('config').error('Could not load project config', { error: activeError });
+  }
+}
+
+/**
+ * Forget the config loaded by initProjectConfig()
+ */
+export function resetProjectConfig(): void {
+  activeConfig = undefined;
+  activeError = undefined;
+  activeDirectory = undefined;
+}
+
+/**
+ * Get the project directory
+ *
+ * @returns Directory the plugin was started for, or the working directory
+ */
+export function getProjectDir(): string {
+  return activeDirectory ?? process.cwd();
+}
+
+/**
+ * Get the active project config
+ *
+ * @returns Config loaded at startup, or the JSON config found from the working directory
+ * @throws Error when the config file is invalid
+ */
+export function getProjectConfig(): ProjectConfig {
+  if (activeError) {
+    throw activeError;
+  }
+  return (activeConfig ?? loadProjectConfigSync()).config;
+}
+
+/**
+ * Get the configured default style for a tool
+ *
+ * @param tool Tool name
+ * @returns Style, or undefined when none is configured
+ */
+export function getDefaultStyle(tool: string): string | undefined {
+  return getProjectConfig().defaults?.styles?.[tool];
+}
+
+/**
+ * Describe the brand for image prompts
+ *
+ * @returns Prompt sentence, or an empty string when no brand is configured
+ */
+export function getBrandPrompt(): string {
+  const { brand } = getProjectConfig();
+  if (!brand?.name && !brand?.colors?.length) {
+    return '';
+  }
+  return (
+    (brand.name ? ` Brand: ${brand.name}.` : '') +
+    (brand.colors?.length ? ` Use the brand colors ${brand.colors.join(', ')}.` : '')
+  );
+}
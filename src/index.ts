@@ -15,14 +15,29 @@
 // See: https://github.com/anomalyco/opencode/issues/[ISSUE_NUMBER]
 //
 // Original exports (for programmatic API usage - currently disabled):
+// export * from './config/project-config.js';
 // export * from './providers/gemini.js';
+// export * from './providers/registry.js';
+// export * from './providers/models.js';
+// export * from './providers/types.js';
+// export * from './providers/usage.js';
+// export * from './providers/cache.js';
 // export * from './utils/file-handler.js';
+// export * from './utils/provenance.js';
+// export * from './utils/manifest.js';
+// export * from './utils/asset-history.js';
+// export * from './utils/path-safety.js';
 // export * from './utils/image-processing.js';
 // export * from './utils/ffmpeg.js';
+// export * from './utils/temp-workspace.js';
+// export * from './utils/logger.js';
 // export * from './tools/video/generate-video.js';
 // export * from './tools/video/image-to-video.js';
 // export * from './tools/video/storyboard-video.js';
 // export * from './tools/video/extend-video.js';
+// export * from './tools/video/resume-video.js';
+// export * from './tools/usage/usage-report.js';
+// export * from './tools/index.js';
 
 // Only export plugin for OpenCode
 export { default } from './plugin.js';
@@ -0,0 +1,334 @@
+/**
+ * Result Cache
+ *
+ * Opt-in, content-addressed on-disk cache in front of the image and analysis
+ * calls of any provider. Entries are keyed by a SHA-256 of the method, model,
+ * prompt, options and input image bytes, so an identical request is served from
+ * disk instead of paying again. Video calls are never cached.
+ *
+ * Enable with NANOBANANA_CACHE=1. Limits:
+ * - NANOBANANA_CACHE_TTL_SECONDS: entry lifetime (default: 7 days)
+ * - NANOBANANA_CACHE_MAX_MB: total size before least recently used entries are evicted (default: 500)
+ *
+ * Location: $NANOBANANA_STATE_DIR/cache
+ */
+
+import { createHash } from 'crypto';
+import { readFile, readdir, stat, unlink, utimes } from 'fs/promises';
+import { join } from 'path';
+import { getStateDir } from './operation-journal.js';
+import { createLogger } from '../utils/logger.js';
+import { writeFileAtomic } from '../utils/write-queue.js';
+import type {
+  VisualProvider,
+  ProviderCapability,
+  VideoGenerationOptions,
+  ImageGenerationOptions,
+  ImageEditOptions,
+  AnalysisOptions,
+  ImageGenerationResult,
+  ImageAnimationOptions,
+  VideoExtensionOptions,
+  VideoOperationOptions,
+  ReferenceImage,
+  VideoGenerationResult,
+} from './types.js';
+
+export interface CacheOptions {
+  /** Cache directory (default: $NANOBANANA_STATE_DIR/cache) */
+  dir?: string;
+  /** Entry lifetime in milliseconds */
+  ttlMs?: number;
+  /** Maximum total size in bytes */
+  maxBytes?: number;
+}
+
+/** Stored form of a cached result */
+type CacheEntry =
+  | { type: 'images'; createdAt: number; images: string[]; mimeType?: string }
+  | { type: 'text'; createdAt: number; text: string };
+
+const DEFAULT_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024;
+
+/**
+ * Whether the result cache is enabled
+ *
+ * @returns true when NANOBANANA_CACHE is 1/true/on
+ */
+export function isCacheEnabled(): boolean {
+  return /^(1|true|on|yes)$/i.test(process.env.NANOBANANA_CACHE || '');
+}
+
+/**
+ * Resolve cache settings from options and environment
+ *
+ * @param options Explicit overrides
+ * @returns Complete cache settings
+ */
+export function resolveCacheOptions(options: CacheOptions = {}): Required<CacheOptions> {
+  const ttlSeconds = parseFloat(process.env.NANOBANANA_CACHE_TTL_SECONDS || '');
+  const maxMb = parseFloat(process.env.NANOBANANA_CACHE_MAX_MB || '');
+
+  return {
+    dir: options.dir ?? join(getStateDir(), 'cache'),
+    ttlMs: options.ttlMs ?? (ttlSeconds >= 0 ? ttlSeconds * 1000 : DEFAULT_TTL_MS),
+    maxBytes: options.maxBytes ?? (maxMb > 0 ? maxMb * 1024 * 1024 : DEFAULT_MAX_BYTES),
+  };
+}
+
+function hashBuffer(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Build a cache key
+ *
+ * @param parts Method, model, prompt, options and input hashes
+ * @returns Hex SHA-256 key
+ */
+export function createCacheKey(parts: Record<string, unknown>): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Drop the options that don't affect the result
+ */
+function cacheableOptions(options: { retry?: unknown; noCache?: boolean }): Record<string, unknown> {
+  const { retry: _retry, noCache: _noCache, ...rest } = options;
+  return rest;
+}
+
+/**
+ * Provider decorator that serves repeated image/analysis requests from disk
+ */
+export class CachedProvider implements VisualProvider {
+  readonly name: string;
+  private readonly settings: Required<CacheOptions>;
+
+  constructor(
+    private readonly inner: VisualProvider,
+    options: CacheOptions = {}
+  ) {
+    this.name = inner.name;
+    this.settings = resolveCacheOptions(options);
+  }
+
+  modelFor(capability: ProviderCapability): string {
+    return this.inner.modelFor(capability);
+  }
+
+  async generateImage(prompt: string, options: ImageGenerationOptions = {}): Promise<Buffer[]> {
+    const key = this.key('generateImage', 'image', { prompt, options: cacheableOptions(options) });
+    const { images } = await this.cachedImages(key, options.noCache, async () => ({
+      images: await this.inner.generateImage(prompt, options),
+    }));
+    return images;
+  }
+
+  async generateImageSingle(
+    prompt: string,
+    options: ImageGenerationOptions = {}
+  ): Promise<ImageGenerationResult> {
+    const startTime = Date.now();
+    const key = this.key('generateImageSingle', 'image', { prompt, options: cacheableOptions(options) });
+    let generationTime: number | undefined;
+
+    const { images, mimeType } = await this.cachedImages(key, options.noCache, async () => {
+      const result = await this.inner.generateImageSingle(prompt, options);
+      generationTime = result.generationTime;
+      return { images: [result.buffer], mimeType: result.mimeType };
+    });
+
+    return {
+      buffer: images[0]!,
+      mimeType: mimeType || 'image/png',
+      generationTime: generationTime ?? Date.now() - startTime,
+    };
+  }
+
+  async editImage(imageBuffer: Buffer, prompt: string, options: ImageEditOptions = {}): Promise<Buffer> {
+    const key = this.key('editImage', 'image', {
+      prompt,
+      image: hashBuffer(imageBuffer),
+      options: { ...cacheableOptions(options), ...(options.mask && { mask: hashBuffer(options.mask) }) },
+    });
+    const { images } = await this.cachedImages(key, options.noCache, async () => ({
+      images: [await this.inner.editImage(imageBuffer, prompt, options)],
+    }));
+    return images[0]!;
+  }
+
+  async analyzeImage(imageBuffer: Buffer, question?: string, options: AnalysisOptions = {}): Promise<string> {
+    const key = this.key('analyzeImage', 'vision', {
+      question: question ?? null,
+      images: [hashBuffer(imageBuffer)],
+      options: cacheableOptions(options),
+    });
+    return this.cachedText(key, options.noCache, () =>
+      this.inner.analyzeImage(imageBuffer, question, options)
+    );
+  }
+
+  async analyzeMultipleImages(
+    imageBuffers: Buffer[],
+    question?: string,
+    options: AnalysisOptions = {}
+  ): Promise<string> {
+    const key = this.key('analyzeMultipleImages', 'vision', {
+      question: question ?? null,
+      images: imageBuffers.map(hashBuffer),
+      options: cacheableOptions(options),
+    });
+    return this.cachedText(key, options.noCache, () =>
+      this.inner.analyzeMultipleImages(imageBuffers, question, options)
+    );
+  }
+
+  generateVideo(prompt: string, options?: VideoGenerationOptions): Promise<VideoGenerationResult> {
+    return this.inner.generateVideo(prompt, options);
+  }
+
+  animateImage(
+    imageBuffer: Buffer,
+    prompt: string,
+    options?: ImageAnimationOptions
+  ): Promise<VideoGenerationResult> {
+    return this.inner.animateImage(imageBuffer, prompt, options);
+  }
+
+  extendVideo(
+    videoBuffer: Buffer,
+    prompt: string,
+    options?: VideoExtensionOptions
+  ): Promise<VideoGenerationResult> {
+    return this.inner.extendVideo(videoBuffer, prompt, options);
+  }
+
+  generateVideoWithReferences(
+    prompt: string,
+    referenceImages: ReferenceImage[],
+    options?: VideoGenerationOptions
+  ): Promise<VideoGenerationResult> {
+    return this.inner.generateVideoWithReferences(prompt, referenceImages, options);
+  }
+
+  resumeVideoOperation(operationName: string, options?: VideoOperationOptions): Promise<VideoGenerationResult> {
+    return this.inner.resumeVideoOperation(operationName, options);
+  }
+
+  private key(method: string, capability: ProviderCapability, parts: Record<string, unknown>): string {
+    return createCacheKey({
+      provider: this.inner.name,
+      model: this.inner.modelFor(capability),
+      method,
+      ...parts,
+    });
+  }
+
+  private async cachedImages(
+    key: string,
+    noCache: boolean | undefined,
+    produce: () => Promise<{ images: Buffer[]; mimeType?: string }>
+  ): Promise<{ images: Buffer[]; mimeType?: string }> {
+    const hit = noCache ? undefined : await this.read(key);
+    if (hit?.type === 'images') {
+      return { images: hit.images.map((data) => Buffer.from(data, 'base64')), mimeType: hit.mimeType };
+    }
+
+    const result = await produce();
+    await this.write(key, {
+      type: 'images',
+      createdAt: Date.now(),
+      images: result.images.map((image) => image.toString('base64')),
+      ...(result.mimeType && { mimeType: result.mimeType }),
+    });
+    return result;
+  }
+
+  private async cachedText(
+    key: string,
+    noCache: boolean | undefined,
+    produce: () => Promise<string>
+  ): Promise<string> {
+    const hit = noCache ? undefined : await this.read(key);
+    if (hit?.type === 'text') {
+      return hit.text;
+    }
+
+    const text = await produce();
+    await this.write(key, { type: 'text', createdAt: Date.now(), text });
+    return text;
+  }
+
+  private entryPath(key: string): string {
+    return join(this.settings.dir, `${key}.json`);
+  }
+
+  /**
+   * Read an entry, treating expired or unreadable entries as misses
+   */
+  private async read(key: string): Promise<CacheEntry | undefined> {
+    const path = this.entryPath(key);
+    try {
+      const entry = JSON.parse(await readFile(path, 'utf-8')) as CacheEntry;
+      if (Date.now() - entry.createdAt > this.settings.ttlMs) {
+        await unlink(path).catch(() => {});
+        return undefined;
+      }
+      // Touch the file so eviction is least-recently-used rather than oldest-first
+      const now = new Date();
+      await utimes(path, now, now).catch(() => {});
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Write an entry and evict old ones; cache failures never fail the call
+   */
+  private async write(key: string, entry: CacheEntry): Promise<void> {
+    const path = this.entryPath(key);
+    try {
+      await writeFileAtomic(path, JSON.stringify(entry));
+      await this.evict();
+    } catch (error) {
+      createLogger('cache').warn('Could not write result cache entry', { path, error });
+    }
+  }
+
+  /**
+   * Remove expired entries, then least recently used ones until under the size limit
+   */
+  private async evict(): Promise<void> {
+    const files = (await readdir(this.settings.dir)).filter((file) => file.endsWith('.json'));
+    const entries = await Promise.all(
+      files.map(async (file) => {
+        const path = join(this.settings.dir, file);
+        const info = await stat(path).catch(() => undefined);
+        return info ? { path, size: info.size, usedAt: info.mtimeMs } : undefined;
+      })
+    );
+
+    const now = Date.now();
+    let total = 0;
+    const live: Array<{ path: string; size: number; usedAt: number }> = [];
+    for (const entry of entries) {
+      if (!entry) continue;
+      if (now - entry.usedAt > this.settings.ttlMs) {
+        await unlink(entry.path).catch(() => {});
+      } else {
+        live.push(entry);
+        total += entry.size;
+      }
+    }
+
+    live.sort((a, b) => a.usedAt - b.usedAt);
+    for (const entry of live) {
+      if (total <= this.settings.maxBytes) break;
+      await unlink(entry.path).catch(() => {});
+      total -= entry.size;
+    }
+  }
+}
@@ -0,0 +1,331 @@
+/**
+ * Provider Errors
+ *
+ * Error classes for failures reported by image/video backends, plus helpers
+ * that classify raw SDK/HTTP errors into them:
+ * - RateLimitError (429, retryable)
+ * - QuotaExceededError (429 with exhausted daily/billing quota, not retryable)
+ * - SafetyBlockError (prompt or output blocked by safety filters)
+ * - InvalidRequestError (4xx, not retryable)
+ * - ServiceUnavailableError (5xx and network failures, retryable)
+ * - OperationTimeoutError (long-running operation exceeded its wait limit)
+ * - OperationAbortedError (caller cancelled the request)
+ * - BudgetExceededError (configured spending cap reached)
+ */
+
+export type ProviderErrorCode =
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'SAFETY_BLOCKED'
+  | 'INVALID_REQUEST'
+  | 'SERVICE_UNAVAILABLE'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'BUDGET_EXCEEDED'
+  | 'UNKNOWN';
+
+export interface ProviderErrorOptions {
+  status?: number;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export class ProviderError extends Error {
+  readonly code: ProviderErrorCode;
+  readonly retryable: boolean;
+  readonly status?: number;
+  /** Server-requested delay before retrying, if any */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    code: ProviderErrorCode,
+    retryable: boolean,
+    options: ProviderErrorOptions = {}
+  ) {
+    super(message, { cause: options.cause });
+    this.name = 'ProviderError';
+    this.code = code;
+    this.retryable = retryable;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, 'RATE_LIMITED', true, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class QuotaExceededError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, 'QUOTA_EXCEEDED', false, options);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class SafetyBlockError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, 'SAFETY_BLOCKED', false, options);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class InvalidRequestError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, 'INVALID_REQUEST', false, options);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+export class ServiceUnavailableError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, 'SERVICE_UNAVAILABLE', true, options);
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+export class OperationTimeoutError extends ProviderError {
+  /** Name of the still-running operation, usable to resume it later */
+  readonly operationName: string;
+
+  constructor(operationName: string, waitedMs: number, options: ProviderErrorOptions = {}) {
+    super(
+      `Operation ${operationName} did not complete within ${Math.round(waitedMs / 1000)}s. ` +
+        `It is still running on the server and can be resumed with operation name "${operationName}".`,
+      'TIMEOUT',
+      false,
+      options
+    );
+    this.name = 'OperationTimeoutError';
+    this.operationName = operationName;
+  }
+}
+
+export class OperationAbortedError extends ProviderError {
+  /** Name of the operation that was being awaited, if one had been submitted */
+  readonly operationName?: string;
+
+  constructor(operationName?: string, options: ProviderErrorOptions = {}) {
+    super(
+      operationName
+        ? `Cancelled while waiting for operation ${operationName}. It may still complete on the server.`
+        : 'Request was cancelled',
+      'ABORTED',
+      false,
+      options
+    );
+    this.name = 'OperationAbortedError';
+    this.operationName = operationName;
+  }
+}
+
+export class BudgetExceededError extends ProviderError {
+  constructor(message: string, options: ProviderErrorOptions = {}) {
+    super(message, 'BUDGET_EXCEEDED', false, options);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/** Node and undici error codes for a request that never reached the server or lost its connection */
+const NETWORK_ERROR_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+];
+/** Network error codes for a connection that was never made, so the server never saw the request */
+const CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'UND_ERR_CONNECT_TIMEOUT'];
+/** Google RPC status names the SDK embeds in error messages */
+const RPC_STATUS_PATTERN =
+  /\b(?:RESOURCE_EXHAUSTED|UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|INVALID_ARGUMENT|FAILED_PRECONDITION|NOT_FOUND|PERMISSION_DENIED)\b/;
+const QUOTA_PATTERN = /per ?day|daily|billing|limit: 0\b/i;
+
+/**
+ * Parse a Retry-After header value (seconds or HTTP date)
+ *
+ * @param value Header value
+ * @returns Delay in milliseconds, or undefined if unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Extract the RetryInfo delay ("retryDelay": "34s") embedded in Gemini error messages
+ */
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/"?retryDelay"?\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]!) * 1000) : undefined;
+}
+
+/**
+ * Extract an HTTP status from an SDK error
+ */
+function getStatus(error: unknown): number | undefined {
+  if (error && typeof error === 'object') {
+    const status = (error as { status?: unknown }).status;
+    if (typeof status === 'number') {
+      return status;
+    }
+    const code = (error as { code?: unknown }).code;
+    if (typeof code === 'number') {
+      return code;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check an error, and the error that caused it, for one of the given error codes
+ */
+function hasErrorCode(error: unknown, codes: string[]): boolean {
+  const cause = (error as { cause?: unknown } | undefined)?.cause;
+  for (const candidate of [error, cause]) {
+    const code = (candidate as { code?: unknown } | undefined)?.code;
+    if (typeof code === 'string' && codes.includes(code)) {
+      return true;
+    }
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new RegExp(`\\b(?:${codes.join('|')})\\b`).test(message);
+}
+
+/**
+ * Check for a failed or dropped connection
+ */
+function isNetworkError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return hasErrorCode(error, NETWORK_ERROR_CODES) || /socket hang up|fetch failed/.test(message);
+}
+
+/**
+ * Build a classified error from an HTTP status
+ */
+function fromStatus(
+  status: number,
+  message: string,
+  options: ProviderErrorOptions
+): ProviderError {
+  if (status === 429) {
+    return QUOTA_PATTERN.test(message)
+      ? new QuotaExceededError(`Quota exceeded: ${message}`, options)
+      : new RateLimitError(`Rate limited: ${message}`, options);
+  }
+  if (status >= 500) {
+    return new ServiceUnavailableError(`Service unavailable (${status}): ${message}`, options);
+  }
+  if (status >= 400) {
+    return new InvalidRequestError(`Invalid request (${status}): ${message}`, options);
+  }
+  return new ProviderError(message, 'UNKNOWN', false, options);
+}
+
+/**
+ * Tell whether an error came from a provider request rather than local work
+ *
+ * Provider failures carry an HTTP status, a Google RPC status or a network
+ * error code. File system, image processing and programming errors don't, and
+ * must not be classified as provider errors or retried.
+ *
+ * @param error Raw error
+ * @returns True for provider/SDK and network failures
+ */
+export function isProviderFailure(error: unknown): boolean {
+  if (error instanceof ProviderError || (error instanceof Error && error.name === 'AbortError')) {
+    return true;
+  }
+  if (getStatus(error) !== undefined) {
+    return true;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return RPC_STATUS_PATTERN.test(message) || isNetworkError(error);
+}
+
+/**
+ * Tell whether a failed request was turned away before the server accepted it
+ *
+ * Rate limiting and connections that were never made are safe to resend. A
+ * 5xx, timeout or dropped connection may come after the server accepted the
+ * request, so resending a billed job could run it twice.
+ *
+ * @param error Classified error
+ * @returns True when the request certainly wasn't accepted
+ */
+export function isRequestRejected(error: ProviderError): boolean {
+  return error instanceof RateLimitError || hasErrorCode(error.cause, CONNECT_ERROR_CODES);
+}
+
+/**
+ * Classify an arbitrary error thrown by a provider call
+ *
+ * @param error Raw error (SDK ApiError, fetch failure, ...)
+ * @returns ProviderError subclass
+ */
+export function classifyError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) {
+    return error;
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return new OperationAbortedError(undefined, { cause: error });
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getStatus(error);
+  const options: ProviderErrorOptions = {
+    status,
+    retryAfterMs: parseRetryDelay(message),
+    cause: error,
+  };
+
+  if (status !== undefined) {
+    return fromStatus(status, message, options);
+  }
+  if (/RESOURCE_EXHAUSTED/.test(message)) {
+    return fromStatus(429, message, options);
+  }
+  if (/\b(?:UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED)\b/.test(message) || isNetworkError(error)) {
+    return new ServiceUnavailableError(message, options);
+  }
+  if (/INVALID_ARGUMENT|FAILED_PRECONDITION|NOT_FOUND|PERMISSION_DENIED/.test(message)) {
+    return new InvalidRequestError(message, options);
+  }
+
+  return new ProviderError(message, 'UNKNOWN', false, options);
+}
+
+/**
+ * Classify a failed HTTP response (e.g. a video download)
+ *
+ * @param response Non-OK fetch response
+ * @param context Description of the request for the error message
+ */
+export function classifyHttpResponse(response: Response, context: string): ProviderError {
+  return fromStatus(response.status, `${context}: ${response.statusText}`, {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  });
+}
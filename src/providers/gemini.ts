@@ -1,60 +1,111 @@
-import { GoogleGenAI } from '@google/genai';
-
-export interface VideoGenerationOptions {
-  aspectRatio?: '16:9' | '9:16';
-  resolution?: '720p' | '1080p';
-  duration?: 4 | 6 | 8;
-  numberOfVideos?: number;
-  negativePrompt?: string;
+import { GoogleGenAI, GenerateVideosOperation, type GenerateContentParameters, type GenerateContentResponse, type GenerateVideosParameters } from '@google/genai';
+import {
+  SafetyBlockError,
+  InvalidRequestError,
+  OperationTimeoutError,
+  OperationAbortedError,
+  classifyError,
+  classifyHttpResponse,
+  isRequestRejected,
+} from './errors.js';
+import { withRetry, delay, type RetryOptions } from './retry.js';
+import {
+  getJournalPath,
+  recordPendingOperation,
+  removePendingOperation,
+  listPendingOperations,
+  type PendingOperation,
+} from './operation-journal.js';
+import { assertWithinBudget, recordUsage } from './usage.js';
+import { GEMINI_DEFAULT_MODELS } from './models.js';
+import { createLogger } from '../utils/logger.js';
+import type {
+  VisualProvider,
+  ProviderCapability,
+  ModelSelection,
+  VideoGenerationOptions,
+  ImageGenerationOptions,
+  ImageEditOptions,
+  AnalysisOptions,
+  ImageGenerationResult,
+  ImageAnimationOptions,
+  VideoExtensionOptions,
+  VideoOperationOptions,
+  ReferenceImage,
+  VideoGenerationResult,
+} from './types.js';
+
+export type {
+  VideoGenerationOptions,
+  ImageGenerationOptions,
+  ImageEditOptions,
+  AnalysisOptions,
+  ImageGenerationResult,
+  ImageAnimationOptions,
+  VideoExtensionOptions,
+  VideoOperationOptions,
+  ReferenceImage,
+  VideoGenerationResult,
+} from './types.js';
+
+/**
+ * Subset of the @google/genai client used by GeminiProvider
+ */
+export interface GeminiClient {
+  models: Pick<GoogleGenAI['models'], 'generateContent' | 'generateVideos'>;
+  operations: Pick<GoogleGenAI['operations'], 'getVideosOperation'>;
 }
 
-export interface ImageGenerationOptions {
-  aspectRatio?: '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
-  count?: number;
+export interface GeminiProviderOptions {
+  /** Client to use instead of constructing a GoogleGenAI instance (e.g. a cassette) */
+  client?: GeminiClient;
+  /** fetch implementation used to download generated videos */
+  fetch?: typeof fetch;
+  /** Delay between video operation polls in milliseconds (default: 10000) */
+  pollIntervalMs?: number;
+  /** Default maximum wait for a video operation in milliseconds (default: NANOBANANA_VIDEO_TIMEOUT_MS or 600000) */
+  maxWaitMs?: number;
+  /** Where to journal pending video operations; null disables the journal (default: getJournalPath()) */
+  journalPath?: string | null;
+  /** Models to use instead of GEMINI_DEFAULT_MODELS (see resolveModels() in ./models.ts) */
+  models?: Partial<ModelSelection>;
 }
 
-export interface ImageEditOptions {
-  mask?: Buffer;
-}
-
-export interface ImageGenerationResult {
-  buffer: Buffer;
-  mimeType: string;
-  generationTime: number;
-}
+type VideoOperation = Awaited<ReturnType<GeminiClient['models']['generateVideos']>>;
 
-export interface ImageAnimationOptions {
-  aspectRatio?: '16:9' | '9:16';
-  resolution?: '720p' | '1080p';
-  duration?: 4 | 6 | 8;
-}
-
-export interface VideoExtensionOptions {
-  aspectRatio?: '16:9' | '9:16';
-  resolution?: '720p' | '1080p';
-}
+/** Veo jobs usually finish within a few minutes; give up waiting after ten */
+const DEFAULT_VIDEO_TIMEOUT_MS = 10 * 60 * 1000;
 
-export interface ReferenceImage {
-  buffer: Buffer;
-  description: string;
-}
+/** Veo extends a clip by a fixed amount regardless of durationSeconds */
+const EXTENSION_SECONDS = 7;
 
-export interface VideoGenerationResult {
-  buffer: Buffer;
-  url?: string;
-  generationTime: number;
+/** What a video operation is billed as once it produces output */
+interface VideoBilling {
+  model: string;
+  operation: string;
+  videoSeconds: number;
 }
 
-export class GeminiProvider {
-  private ai: GoogleGenAI;
+/** Finish reasons that mean the candidate was withheld by safety filters */
+const SAFETY_FINISH_REASONS = new Set([
+  'SAFETY',
+  'IMAGE_SAFETY',
+  'PROHIBITED_CONTENT',
+  'BLOCKLIST',
+  'SPII',
+]);
+
+export class GeminiProvider implements VisualProvider {
+  readonly name = 'gemini';
+  private ai: GeminiClient;
   private apiKey: string;
-  private readonly VEO_MODEL = 'veo-3.0-generate-001';
-  private readonly VEO_PREVIEW_MODEL = 'veo-3.1-generate-preview';
-  private readonly NANO_BANANA_MODEL = 'gemini-2.5-flash-image';
-  private readonly VISION_MODEL = 'gemini-2.0-flash';
-  private readonly POLL_INTERVAL_MS = 10000;
+  private fetchImpl: typeof fetch;
+  private readonly models: ModelSelection;
+  private readonly POLL_INTERVAL_MS: number;
+  private readonly MAX_WAIT_MS: number;
+  private readonly journalPath: string | null;
 
-  constructor(apiKey?: string) {
+  constructor(apiKey?: string, options: GeminiProviderOptions = {}) {
     this.apiKey = apiKey || process.env.GEMINI_API_KEY || '';
 
     if (!this.apiKey) {
@@ -64,14 +115,24 @@ export class GeminiProvider {
       );
     }
 
-    this.ai = new GoogleGenAI({ apiKey: this.apiKey });
+    this.ai = options.client ?? new GoogleGenAI({ apiKey: this.apiKey });
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+    this.POLL_INTERVAL_MS = options.pollIntervalMs ?? 10000;
+    this.MAX_WAIT_MS =
+      options.maxWaitMs ?? (parseInt(process.env.NANOBANANA_VIDEO_TIMEOUT_MS || '', 10) || DEFAULT_VIDEO_TIMEOUT_MS);
+    this.journalPath = options.journalPath === undefined ? getJournalPath() : options.journalPath;
+    this.models = { ...GEMINI_DEFAULT_MODELS, ...options.models };
+  }
+
+  modelFor(capability: ProviderCapability): string {
+    return this.models[capability];
   }
 
   async generateImage(
     prompt: string,
     options: ImageGenerationOptions = {}
   ): Promise<Buffer[]> {
-    const { count = 1 } = options;
+    const { count = 1, retry } = options;
 
     if (count < 1 || count > 8) {
       throw new Error('Count must be between 1 and 8');
@@ -80,13 +141,13 @@ export class GeminiProvider {
     const buffers: Buffer[] = [];
 
     for (let i = 0; i < count; i++) {
-      const response = await this.ai.models.generateContent({
-        model: this.NANO_BANANA_MODEL,
+      const response = await this.generate({
+        model: this.models.image,
         contents: prompt,
         config: {
           responseModalities: ['image', 'text'],
         },
-      });
+      }, 'generateImage', retry);
 
       if (response.candidates?.[0]?.content?.parts) {
         for (const part of response.candidates[0].content.parts) {
@@ -107,17 +168,17 @@ export class GeminiProvider {
 
   async generateImageSingle(
     prompt: string,
-    _options: ImageGenerationOptions = {}
+    options: ImageGenerationOptions = {}
   ): Promise<ImageGenerationResult> {
     const startTime = Date.now();
 
-    const response = await this.ai.models.generateContent({
-      model: this.NANO_BANANA_MODEL,
+    const response = await this.generate({
+      model: this.models.image,
       contents: prompt,
       config: {
         responseModalities: ['image', 'text'],
       },
-    });
+    }, 'generateImageSingle', options.retry);
 
     if (!response.candidates?.[0]?.content?.parts) {
       throw new Error('No image was generated');
@@ -141,13 +202,13 @@ export class GeminiProvider {
   async editImage(
     imageBuffer: Buffer,
     prompt: string,
-    _options: ImageEditOptions = {}
+    options: ImageEditOptions = {}
   ): Promise<Buffer> {
     const base64Image = imageBuffer.toString('base64');
     const mimeType = this.detectImageMimeType(imageBuffer);
 
-    const result = await this.ai.models.generateContent({
-      model: this.NANO_BANANA_MODEL,
+    const result = await this.generate({
+      model: this.models.image,
       contents: [
         {
           parts: [
@@ -166,7 +227,7 @@ export class GeminiProvider {
       config: {
         responseModalities: ['image', 'text'],
       },
-    });
+    }, 'editImage', options.retry);
 
     if (result.candidates?.[0]?.content?.parts) {
       for (const part of result.candidates[0].content.parts) {
@@ -181,13 +242,14 @@ export class GeminiProvider {
 
   async analyzeImage(
     imageBuffer: Buffer,
-    question: string = 'Describe this image in detail'
+    question: string = 'Describe this image in detail',
+    options: AnalysisOptions = {}
   ): Promise<string> {
     const base64Image = imageBuffer.toString('base64');
     const mimeType = this.detectImageMimeType(imageBuffer);
 
-    const result = await this.ai.models.generateContent({
-      model: this.VISION_MODEL,
+    const result = await this.generate({
+      model: this.models.vision,
       contents: [
         {
           parts: [
@@ -203,7 +265,7 @@ export class GeminiProvider {
           ]
         }
       ]
-    });
+    }, 'analyzeImage', options.retry);
 
     if (result?.candidates?.[0]?.content?.parts) {
       const texts: string[] = [];
@@ -222,7 +284,8 @@ export class GeminiProvider {
 
   async analyzeMultipleImages(
     imageBuffers: Buffer[],
-    question: string = 'Compare and describe these images in detail'
+    question: string = 'Compare and describe these images in detail',
+    options: AnalysisOptions = {}
   ): Promise<string> {
     const parts: Array<{ inlineData: { data: string; mimeType: string } } | { text: string }> = [];
 
@@ -239,10 +302,10 @@ export class GeminiProvider {
 
     parts.push({ text: question });
 
-    const result = await this.ai.models.generateContent({
-      model: this.VISION_MODEL,
+    const result = await this.generate({
+      model: this.models.vision,
       contents: [{ parts }]
-    });
+    }, 'analyzeMultipleImages', options.retry);
 
     if (result?.candidates?.[0]?.content?.parts) {
       const texts: string[] = [];
@@ -263,8 +326,6 @@ export class GeminiProvider {
     prompt: string,
     options: VideoGenerationOptions = {}
   ): Promise<VideoGenerationResult> {
-    const startTime = Date.now();
-
     const {
       aspectRatio = '16:9',
       resolution = '720p',
@@ -273,8 +334,8 @@ export class GeminiProvider {
       negativePrompt,
     } = options;
 
-    let operation = await this.ai.models.generateVideos({
-      model: this.VEO_MODEL,
+    return this.runVideoOperation({
+      model: this.models.video,
       prompt,
       config: {
         numberOfVideos,
@@ -283,25 +344,7 @@ export class GeminiProvider {
         durationSeconds: duration,
         ...(negativePrompt && { negativePrompt }),
       },
-    });
-
-    operation = await this.pollOperation(operation);
-
-    if (!operation.response?.generatedVideos?.[0]) {
-      throw new Error('No video was generated');
-    }
-
-    const video = operation.response.generatedVideos[0];
-    const videoUrl = video.video?.uri;
-
-    if (!videoUrl) {
-      throw new Error('Video URL not available');
-    }
-
-    const buffer = await this.downloadVideo(videoUrl);
-    const generationTime = Date.now() - startTime;
-
-    return { buffer, url: videoUrl, generationTime };
+    }, 'generateVideo', 'No video was generated', options);
   }
 
   async animateImage(
@@ -309,8 +352,6 @@ export class GeminiProvider {
     prompt: string,
     options: ImageAnimationOptions = {}
   ): Promise<VideoGenerationResult> {
-    const startTime = Date.now();
-
     const {
       aspectRatio = '16:9',
       resolution = '720p',
@@ -320,8 +361,8 @@ export class GeminiProvider {
     const imageBase64 = imageBuffer.toString('base64');
     const mimeType = this.detectImageMimeType(imageBuffer);
 
-    let operation = await this.ai.models.generateVideos({
-      model: this.VEO_MODEL,
+    return this.runVideoOperation({
+      model: this.models.video,
       prompt,
       image: {
         imageBytes: imageBase64,
@@ -333,25 +374,7 @@ export class GeminiProvider {
         resolution,
         durationSeconds: duration,
       },
-    });
-
-    operation = await this.pollOperation(operation);
-
-    if (!operation.response?.generatedVideos?.[0]) {
-      throw new Error('No video was generated from image');
-    }
-
-    const video = operation.response.generatedVideos[0];
-    const videoUrl = video.video?.uri;
-
-    if (!videoUrl) {
-      throw new Error('Video URL not available');
-    }
-
-    const buffer = await this.downloadVideo(videoUrl);
-    const generationTime = Date.now() - startTime;
-
-    return { buffer, url: videoUrl, generationTime };
+    }, 'animateImage', 'No video was generated from image', options);
   }
 
   async extendVideo(
@@ -359,8 +382,6 @@ export class GeminiProvider {
     prompt: string,
     options: VideoExtensionOptions = {}
   ): Promise<VideoGenerationResult> {
-    const startTime = Date.now();
-
     const {
       aspectRatio = '16:9',
       resolution = '720p',
@@ -368,8 +389,8 @@ export class GeminiProvider {
 
     const videoBase64 = videoBuffer.toString('base64');
 
-    let operation = await this.ai.models.generateVideos({
-      model: this.VEO_MODEL,
+    return this.runVideoOperation({
+      model: this.models.video,
       prompt,
       video: {
         videoBytes: videoBase64,
@@ -380,25 +401,7 @@ export class GeminiProvider {
         aspectRatio,
         resolution,
       },
-    });
-
-    operation = await this.pollOperation(operation);
-
-    if (!operation.response?.generatedVideos?.[0]) {
-      throw new Error('Video extension failed');
-    }
-
-    const video = operation.response.generatedVideos[0];
-    const videoUrl = video.video?.uri;
-
-    if (!videoUrl) {
-      throw new Error('Video URL not available');
-    }
-
-    const buffer = await this.downloadVideo(videoUrl);
-    const generationTime = Date.now() - startTime;
-
-    return { buffer, url: videoUrl, generationTime };
+    }, 'extendVideo', 'Video extension failed', options);
   }
 
   async generateVideoWithReferences(
@@ -410,8 +413,6 @@ export class GeminiProvider {
       throw new Error('Reference images must be between 1 and 3');
     }
 
-    const startTime = Date.now();
-
     const {
       aspectRatio = '16:9',
       resolution = '720p',
@@ -426,8 +427,8 @@ export class GeminiProvider {
       },
     }));
 
-    let operation = await this.ai.models.generateVideos({
-      model: this.VEO_PREVIEW_MODEL,
+    return this.runVideoOperation({
+      model: this.models.referenceVideo,
       prompt,
       config: {
         numberOfVideos,
@@ -436,51 +437,258 @@ export class GeminiProvider {
         durationSeconds: duration,
         referenceImages: references,
       },
+    }, 'generateVideoWithReferences', 'No video was generated with references', options);
+  }
+
+  async resumeVideoOperation(
+    operationName: string,
+    options: VideoOperationOptions = {}
+  ): Promise<VideoGenerationResult> {
+    if (!operationName.includes('/operations/')) {
+      throw new InvalidRequestError(
+        `Invalid operation name "${operationName}". Expected e.g. models/${this.models.video}/operations/<id>`
+      );
+    }
+
+    const startTime = Date.now();
+    const { signal } = options;
+    const handle = new GenerateVideosOperation();
+    handle.name = operationName;
+
+    const operation = await withRetry(
+      () =>
+        this.ai.operations.getVideosOperation({
+          operation: handle,
+          ...(signal && { config: { abortSignal: signal } }),
+        }),
+      { ...options.retry, signal }
+    );
+
+    // The journal remembers what was ordered; fall back to the model in the operation name
+    const journaled = this.journalPath
+      ? (await listPendingOperations(this.journalPath).catch(() => [])).find((op) => op.name === operationName)
+      : undefined;
+    const billing: VideoBilling = {
+      model: journaled?.model ?? operationName.match(/models\/([^/]+)\//)?.[1] ?? this.models.video,
+      operation: journaled?.kind ?? 'generateVideo',
+      videoSeconds: journaled?.videoSeconds ?? 8,
+    };
+
+    return this.completeVideoOperation(
+      operation,
+      billing,
+      `Operation ${operationName} finished without a video`,
+      options,
+      startTime
+    );
+  }
+
+  /**
+   * Call generateContent with retries and surface safety blocks as SafetyBlockError
+   */
+  private async generate(
+    params: GenerateContentParameters,
+    operation: string,
+    retry?: RetryOptions
+  ): Promise<GenerateContentResponse> {
+    await assertWithinBudget();
+
+    const response = await withRetry(() => this.ai.models.generateContent(params), retry);
+
+    // Blocked prompts still bill their input tokens, so record before the safety checks
+    const parts = response.candidates?.[0]?.content?.parts ?? [];
+    await recordUsage({
+      provider: this.name,
+      model: params.model,
+      operation,
+      images: parts.filter((part) => part.inlineData?.data).length,
+      inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+      outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
     });
 
-    operation = await this.pollOperation(operation);
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+      throw new SafetyBlockError(
+        `Prompt blocked by safety filters: ${response.promptFeedback?.blockReasonMessage || blockReason}`
+      );
+    }
 
-    if (!operation.response?.generatedVideos?.[0]) {
-      console.error('Operation response:', JSON.stringify(operation, null, 2));
-      throw new Error('No video was generated with references');
+    const candidate = response.candidates?.[0];
+    if (candidate?.finishReason && SAFETY_FINISH_REASONS.has(candidate.finishReason) && !candidate.content?.parts?.length) {
+      throw new SafetyBlockError(`Response blocked by safety filters: ${candidate.finishReason}`);
     }
 
-    const video = operation.response.generatedVideos[0];
-    const videoUrl = video.video?.uri;
+    return response;
+  }
 
-    if (!videoUrl) {
-      throw new Error('Video URL not available');
+  /**
+   * Submit a Veo operation, journal it, then wait for and download the first video
+   */
+  private async runVideoOperation(
+    params: GenerateVideosParameters,
+    kind: PendingOperation['kind'],
+    emptyMessage: string,
+    options: VideoOperationOptions
+  ): Promise<VideoGenerationResult> {
+    const startTime = Date.now();
+    const { signal } = options;
+    const billing: VideoBilling = {
+      model: params.model,
+      operation: kind,
+      videoSeconds: params.config?.durationSeconds ?? EXTENSION_SECONDS,
+    };
+
+    await assertWithinBudget();
+
+    // Resending after the server accepted the job would start (and bill) a second render
+    const operation = await withRetry(
+      () => this.ai.models.generateVideos({ ...params, config: { ...params.config, abortSignal: signal } }),
+      { ...options.retry, signal, retryIf: isRequestRejected }
+    );
+
+    // Best effort: journaling must never delay or fail the render itself
+    if (operation.name && this.journalPath) {
+      void recordPendingOperation(
+        {
+          name: operation.name,
+          provider: this.name,
+          model: params.model,
+          kind,
+          prompt: params.prompt ?? '',
+          videoSeconds: billing.videoSeconds,
+          submittedAt: new Date().toISOString(),
+        },
+        this.journalPath
+      ).catch((error) =>
+        createLogger(this.name).warn('Could not journal operation', { operation: operation.name, error })
+      );
     }
 
-    const buffer = await this.downloadVideo(videoUrl);
-    const generationTime = Date.now() - startTime;
+    return this.completeVideoOperation(operation, billing, emptyMessage, options, startTime);
+  }
+
+  /**
+   * Poll an operation to completion and download the first video.
+   * Timeouts and cancellation keep the journal entry so the job can be resumed;
+   * any other outcome removes it.
+   */
+  private async completeVideoOperation(
+    pendingOperation: VideoOperation,
+    billing: VideoBilling,
+    emptyMessage: string,
+    options: VideoOperationOptions,
+    startTime: number
+  ): Promise<VideoGenerationResult> {
+    const { signal, maxWaitMs = this.MAX_WAIT_MS } = options;
+    const retry: RetryOptions = { ...options.retry, signal };
+    const name = pendingOperation.name;
+
+    try {
+      const operation = await this.pollOperation(pendingOperation, { retry, signal, maxWaitMs });
+
+      if (operation.error) {
+        throw classifyError(
+          new Error(`Video operation ${operation.name ?? ''} failed: ${String(operation.error.message ?? JSON.stringify(operation.error))}`)
+        );
+      }
+
+      if (!operation.response?.generatedVideos?.[0]) {
+        const filteredReasons = operation.response?.raiMediaFilteredReasons;
+        if (operation.response?.raiMediaFilteredCount || filteredReasons?.length) {
+          throw new SafetyBlockError(
+            `Video blocked by safety filters${filteredReasons?.length ? `: ${filteredReasons.join('; ')}` : ''}`
+          );
+        }
+        createLogger(this.name).debug('Video operation returned no video', { operation });
+        throw new Error(emptyMessage);
+      }
+
+      await recordUsage({
+        provider: this.name,
+        model: billing.model,
+        operation: billing.operation,
+        videoSeconds: billing.videoSeconds * operation.response.generatedVideos.length,
+      });
+
+      const video = operation.response.generatedVideos[0];
+      const videoUrl = video.video?.uri;
+
+      if (!videoUrl) {
+        throw new Error('Video URL not available');
+      }
+
+      const buffer = await withRetry(() => this.downloadVideo(videoUrl, signal), retry);
+      const generationTime = Date.now() - startTime;
 
-    return { buffer, url: videoUrl, generationTime };
+      await this.forgetOperation(name);
+      return { buffer, url: videoUrl, generationTime };
+    } catch (error) {
+      if (!(error instanceof OperationTimeoutError || error instanceof OperationAbortedError)) {
+        await this.forgetOperation(name);
+      }
+      throw error;
+    }
+  }
+
+  private async forgetOperation(name: string | undefined): Promise<void> {
+    if (name && this.journalPath) {
+      await removePendingOperation(name, this.journalPath).catch((error) =>
+        createLogger(this.name).warn('Could not update operation journal', { operation: name, error })
+      );
+    }
   }
 
-  private async pollOperation(operation: ReturnType<typeof this.ai.models.generateVideos> extends Promise<infer T> ? T : never): Promise<typeof operation> {
+  /**
+   * Poll an operation until it is done, the deadline passes or the signal fires
+   */
+  private async pollOperation(
+    operation: VideoOperation,
+    options: { retry: RetryOptions; signal?: AbortSignal; maxWaitMs: number }
+  ): Promise<VideoOperation> {
+    const { retry, signal, maxWaitMs } = options;
+    const name = operation.name ?? 'unknown';
+    const deadline = Date.now() + maxWaitMs;
     let currentOperation = operation;
 
-    while (!currentOperation.done) {
-      await new Promise((resolve) => setTimeout(resolve, this.POLL_INTERVAL_MS));
-      currentOperation = await this.ai.operations.getVideosOperation({
-        operation: currentOperation,
-      });
+    try {
+      while (!currentOperation.done) {
+        const remaining = deadline - Date.now();
+        if (remaining <= 0) {
+          throw new OperationTimeoutError(name, maxWaitMs);
+        }
+
+        await delay(Math.min(this.POLL_INTERVAL_MS, remaining), signal);
+        const pending = currentOperation;
+        currentOperation = await withRetry(
+          () =>
+            this.ai.operations.getVideosOperation({
+              operation: pending,
+              ...(signal && { config: { abortSignal: signal } }),
+            }),
+          retry
+        );
+      }
+    } catch (error) {
+      if (error instanceof OperationAbortedError && !error.operationName) {
+        throw new OperationAbortedError(name, { cause: error });
+      }
+      throw error;
     }
 
     return currentOperation;
   }
 
-  private async downloadVideo(url: string): Promise<Buffer> {
-    const response = await fetch(url, {
+  private async downloadVideo(url: string, signal?: AbortSignal): Promise<Buffer> {
+    const response = await this.fetchImpl(url, {
       headers: {
         'x-goog-api-key': this.apiKey,
       },
       redirect: 'follow',
+      signal,
     });
 
     if (!response.ok) {
-      throw new Error(`Failed to download video: ${response.statusText}`);
+      throw classifyHttpResponse(response, 'Failed to download video');
     }
 
     const arrayBuffer = await response.arrayBuffer();
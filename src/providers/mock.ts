@@ -0,0 +1,371 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic offline backend for local development and CI:
+ * - Images are sharp-drawn gradients with the prompt stamped on them
+ * - Videos are tiny synthetic MP4s rendered by the local FFmpeg
+ * - Analysis text is canned and keyed by prompt hash
+ *
+ * Enable with NANOBANANA_PROVIDER=mock. No network access, no API key.
+ */
+
+import sharp from 'sharp';
+import { createHash } from 'crypto';
+import { readFile, unlink } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createTestVideo } from '../utils/ffmpeg.js';
+import { escapeXml } from '../utils/markup.js';
+import { withRetry } from './retry.js';
+import { assertWithinBudget, recordUsage } from './usage.js';
+import type { UsageQuantities } from './pricing.js';
+import type {
+  VisualProvider,
+  ProviderCapability,
+  VideoGenerationOptions,
+  ImageGenerationOptions,
+  ImageEditOptions,
+  AnalysisOptions,
+  ImageGenerationResult,
+  ImageAnimationOptions,
+  VideoExtensionOptions,
+  VideoOperationOptions,
+  ReferenceImage,
+  VideoGenerationResult,
+} from './types.js';
+
+const IMAGE_SIZES: Record<NonNullable<ImageGenerationOptions['aspectRatio']>, [number, number]> = {
+  '1:1': [512, 512],
+  '3:4': [384, 512],
+  '4:3': [512, 384],
+  '9:16': [288, 512],
+  '16:9': [512, 288],
+};
+
+const VIDEO_SIZES: Record<'16:9' | '9:16', [number, number]> = {
+  '16:9': [320, 180],
+  '9:16': [180, 320],
+};
+
+const CANNED_ANALYSES = [
+  [
+    '## Mock Analysis',
+    '',
+    '- Layout: single column with a header, content area and footer',
+    '- Colors: #1E293B (primary), #F8FAFC (background), #3B82F6 (accent)',
+    '- Typography: sans-serif, 16px body, 24px headings',
+    '- Issues: none detected (mock provider)',
+  ],
+  [
+    '## Mock Analysis',
+    '',
+    '- Components: navigation bar, card grid, primary button',
+    '- Spacing: 8px base unit, 24px section gaps',
+    '- Accessibility: contrast ratio looks sufficient, add alt text to images',
+    '- Suggestions: increase touch target size on secondary actions',
+  ],
+  [
+    '## Mock Analysis',
+    '',
+    '- Subject: centered illustration on a gradient background',
+    '- Palette: #0F172A, #6366F1, #EC4899',
+    '- Composition: rule of thirds, strong focal point',
+    '- Differences: none that the mock provider can detect',
+  ],
+];
+
+/**
+ * Hash prompt text (and optional binary inputs) into a stable hex digest
+ */
+function hashInputs(text: string, buffers: Buffer[] = []): string {
+  const hash = createHash('sha256').update(text);
+  for (const buffer of buffers) {
+    hash.update(buffer);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Split prompt text into short lines for stamping
+ */
+function wrapText(text: string, maxChars: number, maxLines: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of words) {
+    if (current && current.length + word.length + 1 > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) {
+    lines.push(current);
+  }
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = `${kept[maxLines - 1]!.slice(0, maxChars - 3)}...`;
+    return kept;
+  }
+  return lines;
+}
+
+export class MockProvider implements VisualProvider {
+  readonly name = 'mock';
+
+  modelFor(_capability: ProviderCapability): string {
+    return 'mock';
+  }
+
+  async generateImage(
+    prompt: string,
+    options: ImageGenerationOptions = {}
+  ): Promise<Buffer[]> {
+    const { aspectRatio = '1:1', count = 1, retry } = options;
+
+    if (count < 1 || count > 8) {
+      throw new Error('Count must be between 1 and 8');
+    }
+
+    const buffers: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+      buffers.push(
+        await this.metered('generateImage', { images: 1 }, () =>
+          withRetry(() => this.renderImage(prompt, aspectRatio, i), retry)
+        )
+      );
+    }
+    return buffers;
+  }
+
+  async generateImageSingle(
+    prompt: string,
+    options: ImageGenerationOptions = {}
+  ): Promise<ImageGenerationResult> {
+    const startTime = Date.now();
+    const buffer = await this.metered('generateImageSingle', { images: 1 }, () =>
+      withRetry(() => this.renderImage(prompt, options.aspectRatio ?? '1:1', 0), options.retry)
+    );
+    return {
+      buffer,
+      mimeType: 'image/png',
+      generationTime: Date.now() - startTime,
+    };
+  }
+
+  async editImage(
+    imageBuffer: Buffer,
+    prompt: string,
+    options: ImageEditOptions = {}
+  ): Promise<Buffer> {
+    return this.metered('editImage', { images: 1 }, () =>
+      withRetry(() => this.renderEdit(imageBuffer, prompt), options.retry)
+    );
+  }
+
+  async analyzeImage(
+    imageBuffer: Buffer,
+    question: string = 'Describe this image in detail',
+    options: AnalysisOptions = {}
+  ): Promise<string> {
+    return this.metered('analyzeImage', {}, () =>
+      withRetry(async () => this.cannedAnalysis(question, [imageBuffer]), options.retry)
+    );
+  }
+
+  async analyzeMultipleImages(
+    imageBuffers: Buffer[],
+    question: string = 'Compare and describe these images in detail',
+    options: AnalysisOptions = {}
+  ): Promise<string> {
+    return this.metered('analyzeMultipleImages', {}, () =>
+      withRetry(async () => this.cannedAnalysis(question, imageBuffers), options.retry)
+    );
+  }
+
+  async generateVideo(
+    prompt: string,
+    options: VideoGenerationOptions = {}
+  ): Promise<VideoGenerationResult> {
+    const { aspectRatio = '16:9', duration = 8, retry, signal } = options;
+    return this.metered('generateVideo', { videoSeconds: duration }, () =>
+      withRetry(() => this.renderVideo(prompt, aspectRatio, duration), { ...retry, signal })
+    );
+  }
+
+  async animateImage(
+    imageBuffer: Buffer,
+    prompt: string,
+    options: ImageAnimationOptions = {}
+  ): Promise<VideoGenerationResult> {
+    const { aspectRatio = '16:9', duration = 8, retry, signal } = options;
+    return this.metered('animateImage', { videoSeconds: duration }, () =>
+      withRetry(() => this.renderVideo(prompt, aspectRatio, duration, [imageBuffer]), { ...retry, signal })
+    );
+  }
+
+  async extendVideo(
+    videoBuffer: Buffer,
+    prompt: string,
+    options: VideoExtensionOptions = {}
+  ): Promise<VideoGenerationResult> {
+    const { aspectRatio = '16:9', retry, signal } = options;
+    return this.metered('extendVideo', { videoSeconds: 8 }, () =>
+      withRetry(() => this.renderVideo(prompt, aspectRatio, 8, [videoBuffer]), { ...retry, signal })
+    );
+  }
+
+  async generateVideoWithReferences(
+    prompt: string,
+    referenceImages: ReferenceImage[],
+    options: VideoGenerationOptions = {}
+  ): Promise<VideoGenerationResult> {
+    if (referenceImages.length === 0 || referenceImages.length > 3) {
+      throw new Error('Reference images must be between 1 and 3');
+    }
+
+    const { aspectRatio = '16:9', duration = 8, retry, signal } = options;
+    return this.metered('generateVideoWithReferences', { videoSeconds: duration }, () =>
+      withRetry(
+        () =>
+          this.renderVideo(
+            prompt,
+            aspectRatio,
+            duration,
+            referenceImages.map((ref) => ref.buffer)
+          ),
+        { ...retry, signal }
+      )
+    );
+  }
+
+  async resumeVideoOperation(
+    operationName: string,
+    options: VideoOperationOptions = {}
+  ): Promise<VideoGenerationResult> {
+    // Mock operations complete immediately, so any name resumes to a clip derived from it
+    return this.metered('generateVideo', { videoSeconds: 8 }, () =>
+      withRetry(
+        () => this.renderVideo(operationName, '16:9', 8),
+        { ...options.retry, signal: options.signal }
+      )
+    );
+  }
+
+  /**
+   * Enforce the budget and record usage like a real provider, at zero cost
+   */
+  private async metered<T>(
+    operation: string,
+    usage: UsageQuantities,
+    run: () => Promise<T>
+  ): Promise<T> {
+    await assertWithinBudget();
+    const result = await run();
+    await recordUsage({ provider: this.name, model: 'mock', operation, ...usage });
+    return result;
+  }
+
+  /**
+   * Stamp an "edited: <prompt>" banner across the bottom of the image
+   */
+  private async renderEdit(imageBuffer: Buffer, prompt: string): Promise<Buffer> {
+    const metadata = await sharp(imageBuffer).metadata();
+    const width = metadata.width || 512;
+    const height = metadata.height || 512;
+    const bannerHeight = Math.max(24, Math.round(height / 6));
+    const fontSize = Math.max(10, Math.round(bannerHeight / 3));
+    const [line = ''] = wrapText(`edited: ${prompt}`, Math.floor(width / (fontSize * 0.6)), 1);
+
+    const banner = Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${bannerHeight}">` +
+        `<rect width="100%" height="100%" fill="#000000" fill-opacity="0.6"/>` +
+        `<text x="${fontSize}" y="${Math.round(bannerHeight / 2 + fontSize / 3)}" font-family="sans-serif" ` +
+        `font-size="${fontSize}" fill="#ffffff">${escapeXml(line)}</text>` +
+        `</svg>`
+    );
+
+    return sharp(imageBuffer)
+      .composite([{ input: banner, top: height - bannerHeight, left: 0 }])
+      .png()
+      .toBuffer();
+  }
+
+  /**
+   * Draw a gradient derived from the prompt hash and stamp the prompt on it
+   */
+  private async renderImage(
+    prompt: string,
+    aspectRatio: NonNullable<ImageGenerationOptions['aspectRatio']>,
+    variant: number
+  ): Promise<Buffer> {
+    const [width, height] = IMAGE_SIZES[aspectRatio];
+    const hash = hashInputs(`${prompt}\n${variant}`);
+    const from = `#${hash.slice(0, 6)}`;
+    const to = `#${hash.slice(6, 12)}`;
+    const fontSize = Math.round(width / 20);
+    const lines = wrapText(prompt || 'mock image', Math.floor(width / (fontSize * 0.6)), 6);
+    const textTop = Math.round(height / 2 - ((lines.length - 1) * fontSize * 1.3) / 2);
+
+    const text = lines
+      .map(
+        (line, i) =>
+          `<text x="50%" y="${Math.round(textTop + i * fontSize * 1.3)}" text-anchor="middle" ` +
+          `font-family="sans-serif" font-size="${fontSize}" fill="#ffffff">${escapeXml(line)}</text>`
+      )
+      .join('');
+
+    const svg =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">` +
+      `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+      `<stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/>` +
+      `</linearGradient></defs>` +
+      `<rect width="100%" height="100%" fill="url(#g)"/>` +
+      text +
+      `</svg>`;
+
+    return sharp(Buffer.from(svg)).png().toBuffer();
+  }
+
+  /**
+   * Render a short synthetic clip whose color and tone are derived from the inputs
+   */
+  private async renderVideo(
+    prompt: string,
+    aspectRatio: '16:9' | '9:16',
+    duration: number,
+    inputs: Buffer[] = []
+  ): Promise<VideoGenerationResult> {
+    const startTime = Date.now();
+    const [width, height] = VIDEO_SIZES[aspectRatio];
+    const hash = hashInputs(prompt, inputs);
+    const tempPath = join(tmpdir(), `mock-video-${hash.slice(0, 12)}-${process.pid}-${Date.now()}.mp4`);
+
+    try {
+      await createTestVideo(tempPath, {
+        duration,
+        width,
+        height,
+        color: hash.slice(0, 6),
+        frequency: 220 + (parseInt(hash.slice(6, 10), 16) % 660),
+      });
+      const buffer = await readFile(tempPath);
+      return {
+        buffer,
+        url: `mock://video/${hash.slice(0, 16)}`,
+        generationTime: Date.now() - startTime,
+      };
+    } finally {
+      await unlink(tempPath).catch(() => {});
+    }
+  }
+
+  private cannedAnalysis(question: string, images: Buffer[]): string {
+    const hash = hashInputs(question, images);
+    const template = CANNED_ANALYSES[parseInt(hash.slice(0, 8), 16) % CANNED_ANALYSES.length]!;
+    return [...template, '', `Question: ${question.split('\n')[0]}`, `Fingerprint: ${hash.slice(0, 12)}`].join('\n');
+  }
+}
@@ -0,0 +1,175 @@
+/**
+ * Model Selection
+ *
+ * Resolves which model each capability uses, globally or for a single tool.
+ * Later sources override earlier ones:
+ * 1. Provider defaults
+ * 2. `models` in nanobanana.config.json (see ../config/project-config.ts)
+ * 3. Environment (NANOBANANA_IMAGE_MODEL, NANOBANANA_VISION_MODEL,
+ *    NANOBANANA_VIDEO_MODEL, NANOBANANA_REFERENCE_VIDEO_MODEL)
+ * 4. `models.tools.<tool_name>` in nanobanana.config.json
+ * 5. Models passed explicitly to getProvider()
+ *
+ * Example config:
+ *   { "models": { "vision": "gemini-2.5-flash", "tools": { "mockup_to_code": { "vision": "gemini-2.5-pro" } } } }
+ */
+
+import { InvalidRequestError } from './errors.js';
+import { PROVIDER_CAPABILITIES, type ModelSelection, type ProviderCapability } from './types.js';
+
+/** Capability → model overrides */
+export type ModelOverrides = Partial<ModelSelection>;
+
+/** `models` section of nanobanana.config.json */
+export interface ModelConfig extends ModelOverrides {
+  /** Per-tool overrides keyed by tool name (e.g. mockup_to_code) */
+  tools?: Record<string, ModelOverrides>;
+}
+
+/** Models a provider accepts for each capability */
+export type ModelCatalog = Partial<Record<ProviderCapability, readonly string[]>>;
+
+export interface ResolveModelsOptions {
+  /** Tool the provider is created for */
+  tool?: string;
+  /** Explicit overrides, applied last */
+  models?: ModelOverrides;
+  /** `models` section of the project config */
+  config?: ModelConfig;
+}
+
+/** Models used when nothing else is configured */
+export const GEMINI_DEFAULT_MODELS: ModelSelection = {
+  image: 'gemini-2.5-flash-image',
+  vision: 'gemini-2.0-flash',
+  video: 'veo-3.0-generate-001',
+  // Reference images are only supported by Veo 3.1
+  referenceVideo: 'veo-3.1-generate-preview',
+};
+
+/** Models known to work for each capability; anything else is rejected before a call is made */
+export const GEMINI_MODEL_CATALOG: Record<ProviderCapability, readonly string[]> = {
+  image: ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'],
+  vision: ['gemini-2.0-flash', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  video: [
+    'veo-3.0-generate-001',
+    'veo-3.0-fast-generate-001',
+    'veo-3.1-generate-preview',
+    'veo-3.1-fast-generate-preview',
+  ],
+  referenceVideo: ['veo-3.1-generate-preview'],
+};
+
+const ENV_VARS: Record<ProviderCapability, string> = {
+  image: 'NANOBANANA_IMAGE_MODEL',
+  vision: 'NANOBANANA_VISION_MODEL',
+  video: 'NANOBANANA_VIDEO_MODEL',
+  referenceVideo: 'NANOBANANA_REFERENCE_VIDEO_MODEL',
+};
+
+/**
+ * Check that a set of overrides only names known capabilities with string models
+ */
+function parseOverrides(value: unknown, where: string): ModelOverrides {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidRequestError(`Invalid model config at ${where}: expected an object`);
+  }
+
+  const overrides: ModelOverrides = {};
+  for (const [key, model] of Object.entries(value)) {
+    if (!PROVIDER_CAPABILITIES.includes(key as ProviderCapability)) {
+      throw new InvalidRequestError(
+        `Unknown capability "${key}" at ${where}. Expected one of: ${PROVIDER_CAPABILITIES.join(', ')}`
+      );
+    }
+    if (typeof model !== 'string' || !model) {
+      throw new InvalidRequestError(`Invalid model for ${where}.${key}: expected a model name`);
+    }
+    overrides[key as ProviderCapability] = model;
+  }
+  return overrides;
+}
+
+/**
+ * Validate a raw `models` config section
+ *
+ * @param value Parsed JSON value
+ * @returns Typed model config
+ */
+export function parseModelConfig(value: unknown): ModelConfig {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidRequestError('Invalid model config at models: expected an object');
+  }
+  const { tools, ...global } = value as { tools?: unknown };
+  const config: ModelConfig = parseOverrides(global, 'models');
+
+  if (tools !== undefined) {
+    if (typeof tools !== 'object' || tools === null || Array.isArray(tools)) {
+      throw new InvalidRequestError('Invalid model config at models.tools: expected an object');
+    }
+    config.tools = Object.fromEntries(
+      Object.entries(tools).map(([tool, overrides]) => [tool, parseOverrides(overrides, `models.tools.${tool}`)])
+    );
+  }
+  return config;
+}
+
+/**
+ * Read model overrides from the environment
+ *
+ * @returns Overrides for every capability whose variable is set
+ */
+export function getEnvModelOverrides(): ModelOverrides {
+  const overrides: ModelOverrides = {};
+  for (const capability of PROVIDER_CAPABILITIES) {
+    const model = process.env[ENV_VARS[capability]];
+    if (model) {
+      overrides[capability] = model;
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Resolve the model overrides for a tool
+ *
+ * Only capabilities that were configured somewhere are returned; the provider
+ * fills in its own defaults for the rest.
+ *
+ * @param options Tool name, explicit overrides and config
+ * @returns Merged overrides
+ */
+export function resolveModels(options: ResolveModelsOptions = {}): ModelOverrides {
+  const { tools, ...global } = options.config ?? {};
+
+  return {
+    ...global,
+    ...getEnvModelOverrides(),
+    ...(options.tool && tools?.[options.tool]),
+    ...options.models,
+  };
+}
+
+/**
+ * Reject models a provider does not support for a capability
+ *
+ * @param provider Provider name (for the error message)
+ * @param models Selected models
+ * @param catalog Models the provider supports; capabilities without a list are not checked
+ * @throws InvalidRequestError naming the capability and the supported models
+ */
+export function validateModels(provider: string, models: ModelOverrides, catalog: ModelCatalog): void {
+  for (const capability of PROVIDER_CAPABILITIES) {
+    const model = models[capability];
+    const supported = catalog[capability];
+    if (model && supported && !supported.includes(model)) {
+      throw new InvalidRequestError(
+        `Model "${model}" is not supported for ${capability} by the ${provider} provider. ` +
+          `Supported models: ${supported.join(', ')}`
+      );
+    }
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Operation Journal
+ *
+ * Persists the names of in-flight video operations to a small JSON file so a
+ * render that outlives the opencode process can be resumed later with
+ * `resume_video_job`. Entries are added when an operation is submitted and
+ * removed once it has been downloaded or has definitively failed.
+ *
+ * Location: $NANOBANANA_STATE_DIR/operations.json (default: ./.nanobanana)
+ */
+
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { createWriteQueue, writeFileAtomic } from '../utils/write-queue.js';
+
+export interface PendingOperation {
+  /** Server-assigned operation name (e.g. models/veo-3.0-generate-001/operations/abc) */
+  name: string;
+  /** Provider that submitted the operation */
+  provider: string;
+  /** Model the operation runs on */
+  model: string;
+  /** Provider method that submitted it */
+  kind: 'generateVideo' | 'animateImage' | 'extendVideo' | 'generateVideoWithReferences';
+  prompt: string;
+  /** Seconds of video ordered, used to account for the render when it is resumed */
+  videoSeconds?: number;
+  /** ISO timestamp of submission */
+  submittedAt: string;
+}
+
+interface JournalFile {
+  operations: PendingOperation[];
+}
+
+/** Serializes writes within this process so concurrent updates don't clobber each other */
+const writeQueue = createWriteQueue();
+
+/**
+ * Get the directory used for plugin state (journals, ledgers)
+ *
+ * @returns NANOBANANA_STATE_DIR or ./.nanobanana
+ */
+export function getStateDir(): string {
+  return process.env.NANOBANANA_STATE_DIR || join(process.cwd(), '.nanobanana');
+}
+
+/**
+ * Get the default journal path
+ *
+ * @returns Path to operations.json inside the state directory
+ */
+export function getJournalPath(): string {
+  return join(getStateDir(), 'operations.json');
+}
+
+async function readJournal(path: string): Promise<JournalFile> {
+  try {
+    const parsed = JSON.parse(await readFile(path, 'utf-8')) as Partial<JournalFile>;
+    return { operations: Array.isArray(parsed.operations) ? parsed.operations : [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { operations: [] };
+    }
+    throw new Error(`Failed to read operation journal ${path}: ${(error as Error).message}`);
+  }
+}
+
+function updateJournal(
+  path: string,
+  update: (operations: PendingOperation[]) => PendingOperation[]
+): Promise<void> {
+  return writeQueue.run(async () => {
+    const journal = await readJournal(path);
+    const operations = update(journal.operations);
+    await writeFileAtomic(path, JSON.stringify({ operations }, null, 2));
+  });
+}
+
+/**
+ * Record a submitted operation
+ *
+ * @param entry Operation to record (replaces any entry with the same name)
+ * @param path Journal path (default: getJournalPath())
+ */
+export async function recordPendingOperation(
+  entry: PendingOperation,
+  path: string = getJournalPath()
+): Promise<void> {
+  await updateJournal(path, (operations) => [
+    ...operations.filter((op) => op.name !== entry.name),
+    entry,
+  ]);
+}
+
+/**
+ * Remove an operation once it has completed or failed
+ *
+ * @param name Operation name
+ * @param path Journal path (default: getJournalPath())
+ */
+export async function removePendingOperation(
+  name: string,
+  path: string = getJournalPath()
+): Promise<void> {
+  await updateJournal(path, (operations) => operations.filter((op) => op.name !== name));
+}
+
+/**
+ * List operations that were submitted but never completed
+ *
+ * @param path Journal path (default: getJournalPath())
+ * @returns Pending operations, oldest first
+ */
+export async function listPendingOperations(
+  path: string = getJournalPath()
+): Promise<PendingOperation[]> {
+  await writeQueue.idle();
+  const journal = await readJournal(path);
+  return journal.operations;
+}
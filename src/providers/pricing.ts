@@ -0,0 +1,84 @@
+/**
+ * Pricing Table
+ *
+ * Local list prices (USD) used to estimate the cost of provider calls.
+ * These are estimates for budgeting, not invoices; check
+ * https://ai.google.dev/pricing for current rates.
+ */
+
+export interface ModelPricing {
+  /** Price per generated image */
+  perImage?: number;
+  /** Price per second of generated video */
+  perVideoSecond?: number;
+  /** Price per million input (prompt) tokens */
+  perMillionInputTokens?: number;
+  /** Price per million output tokens (text responses only; images use perImage) */
+  perMillionOutputTokens?: number;
+}
+
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gemini-2.5-flash-image': {
+    perImage: 0.039,
+    perMillionInputTokens: 0.3,
+  },
+  'gemini-3-pro-image-preview': {
+    perImage: 0.134,
+    perMillionInputTokens: 2,
+  },
+  'gemini-2.0-flash': {
+    perMillionInputTokens: 0.1,
+    perMillionOutputTokens: 0.4,
+  },
+  'gemini-2.5-flash': {
+    perMillionInputTokens: 0.3,
+    perMillionOutputTokens: 2.5,
+  },
+  'gemini-2.5-pro': {
+    perMillionInputTokens: 1.25,
+    perMillionOutputTokens: 10,
+  },
+  'veo-3.0-generate-001': {
+    perVideoSecond: 0.4,
+  },
+  'veo-3.0-fast-generate-001': {
+    perVideoSecond: 0.15,
+  },
+  'veo-3.1-generate-preview': {
+    perVideoSecond: 0.4,
+  },
+  'veo-3.1-fast-generate-preview': {
+    perVideoSecond: 0.15,
+  },
+  mock: {},
+};
+
+export interface UsageQuantities {
+  images?: number;
+  videoSeconds?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * Estimate the cost of a provider call
+ *
+ * @param model Model name
+ * @param usage Quantities consumed by the call
+ * @returns Estimated cost in USD (0 for models missing from the table)
+ */
+export function estimateCost(model: string, usage: UsageQuantities): number {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing) {
+    return 0;
+  }
+
+  const cost =
+    (usage.images ?? 0) * (pricing.perImage ?? 0) +
+    (usage.videoSeconds ?? 0) * (pricing.perVideoSecond ?? 0) +
+    ((usage.inputTokens ?? 0) / 1_000_000) * (pricing.perMillionInputTokens ?? 0) +
+    ((usage.outputTokens ?? 0) / 1_000_000) * (pricing.perMillionOutputTokens ?? 0);
+
+  // Round to a hundredth of a cent to keep ledgers readable
+  return Math.round(cost * 10000) / 10000;
+}
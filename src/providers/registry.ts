@@ -0,0 +1,122 @@
+/**
+ * Provider Registry
+ *
+ * Maps provider names to factories and resolves the active backend:
+ * - Registering additional providers
+ * - Selecting a provider by config (NANOBANANA_PROVIDER)
+ * - Creating provider instances for tools with their configured models
+ *   (wrapped in the result cache when enabled)
+ */
+
+import { GeminiProvider } from './gemini.js';
+import { MockProvider } from './mock.js';
+import { CachedProvider, isCacheEnabled } from './cache.js';
+import {
+  resolveModels,
+  validateModels,
+  GEMINI_MODEL_CATALOG,
+  type ModelCatalog,
+  type ModelOverrides,
+} from './models.js';
+import { getProjectConfig } from '../config/project-config.js';
+import type { VisualProvider } from './types.js';
+
+export interface ProviderOptions {
+  /** API key for backends that need one */
+  apiKey?: string;
+  /** Provider name override; defaults to the configured provider */
+  provider?: string;
+  /** Tool the provider is for, used to pick per-tool models */
+  tool?: string;
+  /** Model overrides; getProvider() replaces these with the fully resolved selection */
+  models?: ModelOverrides;
+}
+
+export interface ProviderRegistration {
+  /** Create a provider instance */
+  create: (options: ProviderOptions) => VisualProvider;
+  /** Whether the provider needs GEMINI_API_KEY (or an explicit apiKey) */
+  requiresApiKey: boolean;
+  /** Models accepted per capability; configured models outside the list are rejected */
+  models?: ModelCatalog;
+}
+
+export const DEFAULT_PROVIDER = 'gemini';
+
+const providers = new Map<string, ProviderRegistration>();
+
+providers.set('gemini', {
+  create: (options) => new GeminiProvider(options.apiKey, { models: options.models }),
+  requiresApiKey: true,
+  models: GEMINI_MODEL_CATALOG,
+});
+
+providers.set('mock', {
+  create: () => new MockProvider(),
+  requiresApiKey: false,
+});
+
+/**
+ * Register (or replace) a provider under a name
+ *
+ * @param name Provider name used for selection
+ * @param registration Factory and capabilities
+ */
+export function registerProvider(name: string, registration: ProviderRegistration): void {
+  providers.set(name, registration);
+}
+
+/**
+ * List registered provider names
+ */
+export function listProviders(): string[] {
+  return [...providers.keys()];
+}
+
+/**
+ * Get the configured provider name
+ *
+ * @returns NANOBANANA_PROVIDER or the default provider
+ */
+export function getProviderName(): string {
+  return process.env.NANOBANANA_PROVIDER || DEFAULT_PROVIDER;
+}
+
+/**
+ * Get the registration for a provider
+ *
+ * @param name Provider name (defaults to the configured provider)
+ * @returns Provider registration
+ */
+export function getProviderRegistration(name: string = getProviderName()): ProviderRegistration {
+  const registration = providers.get(name);
+  if (!registration) {
+    throw new Error(
+      `Unknown provider "${name}". Available providers: ${listProviders().join(', ')}`
+    );
+  }
+  return registration;
+}
+
+/**
+ * Resolve the provider every tool should use
+ *
+ * @param options Provider options
+ * @returns Provider instance
+ * @throws InvalidRequestError when a configured model is not supported by the provider
+ */
+export function getProvider(options: ProviderOptions = {}): VisualProvider {
+  const name = options.provider ?? getProviderName();
+  const registration = getProviderRegistration(name);
+  const models = resolveModels({
+    tool: options.tool,
+    models: options.models,
+    config: getProjectConfig().models,
+  });
+  if (registration.models) {
+    validateModels(name, models, registration.models);
+  }
+
+  const provider = registration.create({ ...options, models });
+  return isCacheEnabled() ? new CachedProvider(provider) : provider;
+}
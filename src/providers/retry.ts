@@ -0,0 +1,177 @@
+/**
+ * Retry Policy
+ *
+ * Exponential backoff with jitter for provider calls. Only errors classified
+ * as retryable (rate limiting, 5xx, network failures) are retried, and a
+ * server-provided Retry-After/retryDelay takes precedence over the backoff.
+ * Errors that didn't come from the provider are rethrown unchanged.
+ */
+
+import { classifyError, isProviderFailure, OperationAbortedError, type ProviderError } from './errors.js';
+
+export interface RetryPolicy {
+  /** Total attempts including the first one */
+  maxAttempts: number;
+  /** Delay before the first retry in milliseconds */
+  initialDelayMs: number;
+  /** Upper bound for a single delay in milliseconds */
+  maxDelayMs: number;
+  /** Multiplier applied to the delay after each retry */
+  backoffMultiplier: number;
+  /** Random jitter as a fraction of the delay (0-1) */
+  jitter: number;
+}
+
+export interface RetryAttemptInfo {
+  /** Attempt that just failed (1-based) */
+  attempt: number;
+  /** Delay before the next attempt in milliseconds */
+  delayMs: number;
+  error: ProviderError;
+}
+
+export interface RetryOptions extends Partial<RetryPolicy> {
+  /** Called before every attempt (1-based) */
+  onAttempt?: (attempt: number) => void;
+  /** Retry only the retryable errors this accepts (default: all of them) */
+  retryIf?: (error: ProviderError) => boolean;
+  /** Called after a retryable failure, before waiting */
+  onRetry?: (info: RetryAttemptInfo) => void;
+  /** Stops retrying (and waiting) once aborted */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  initialDelayMs: 2000,
+  maxDelayMs: 60000,
+  backoffMultiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Resolve the effective policy: defaults, then NANOBANANA_RETRY_ATTEMPTS, then per-call options
+ *
+ * @param options Per-call overrides
+ * @returns Complete retry policy
+ */
+export function resolveRetryPolicy(options: RetryOptions = {}): RetryPolicy {
+  const envAttempts = parseInt(process.env.NANOBANANA_RETRY_ATTEMPTS || '', 10);
+
+  return {
+    maxAttempts: options.maxAttempts ?? (envAttempts > 0 ? envAttempts : DEFAULT_RETRY_POLICY.maxAttempts),
+    initialDelayMs: options.initialDelayMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+    maxDelayMs: options.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    backoffMultiplier: options.backoffMultiplier ?? DEFAULT_RETRY_POLICY.backoffMultiplier,
+    jitter: options.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+  };
+}
+
+/**
+ * Compute the delay before the next attempt
+ *
+ * @param attempt Attempt that just failed (1-based)
+ * @param policy Retry policy
+ * @param error Classified error (its retryAfterMs wins when present)
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(attempt: number, policy: RetryPolicy, error?: ProviderError): number {
+  if (error?.retryAfterMs !== undefined) {
+    return Math.min(error.retryAfterMs, policy.maxDelayMs);
+  }
+
+  const base = policy.initialDelayMs * Math.pow(policy.backoffMultiplier, attempt - 1);
+  const jitter = base * policy.jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.min(Math.round(base + jitter), policy.maxDelayMs));
+}
+
+/**
+ * Wait for a delay, rejecting early with OperationAbortedError if the signal fires
+ *
+ * @param ms Delay in milliseconds
+ * @param signal Optional abort signal
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(new OperationAbortedError());
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationAbortedError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Run an operation, retrying retryable failures with exponential backoff
+ *
+ * @param operation Function to run; receives the attempt number (1-based)
+ * @param options Retry policy overrides and callbacks
+ * @returns Operation result
+ * @throws ProviderError once attempts are exhausted or the error is not retryable;
+ *   local errors (file system, image processing) are rethrown on the first attempt
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  options: RetryOptions = {}
+): Promise<T> {
+  const policy = resolveRetryPolicy(options);
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) {
+      throw new OperationAbortedError();
+    }
+
+    options.onAttempt?.(attempt);
+
+    try {
+      return await operation(attempt);
+    } catch (rawError) {
+      if (!isProviderFailure(rawError)) {
+        throw rawError;
+      }
+      const error = classifyError(rawError);
+
+      const retryable = error.retryable && (options.retryIf?.(error) ?? true);
+      if (!retryable || attempt >= policy.maxAttempts || options.signal?.aborted) {
+        throw error;
+      }
+
+      const delayMs = computeRetryDelay(attempt, policy, error);
+      options.onRetry?.({ attempt, delayMs, error });
+      await delay(delayMs, options.signal);
+    }
+  }
+}
+
+/**
+ * Count attempts across one or more provider calls so tools can report them
+ *
+ * @param options Base retry options to extend
+ * @returns Retry options to pass to provider calls, and the running attempt count
+ */
+export function createAttemptTracker(options: RetryOptions = {}): {
+  retry: RetryOptions;
+  readonly attempts: number;
+} {
+  let attempts = 0;
+  return {
+    retry: {
+      ...options,
+      onAttempt: (attempt) => {
+        attempts++;
+        options.onAttempt?.(attempt);
+      },
+    },
+    get attempts() {
+      return attempts;
+    },
+  };
+}
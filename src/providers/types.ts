@@ -0,0 +1,141 @@
+/**
+ * Provider Types
+ *
+ * Shared option/result types and the VisualProvider interface that every
+ * image/video backend implements.
+ */
+
+import type { RetryOptions } from './retry.js';
+
+export type { RetryOptions } from './retry.js';
+
+/**
+ * Controls for long-running video operations
+ */
+export interface VideoOperationOptions {
+  retry?: RetryOptions;
+  /** Cancels submission, polling and download */
+  signal?: AbortSignal;
+  /** Maximum time to wait for the operation to finish (default: NANOBANANA_VIDEO_TIMEOUT_MS or 10 minutes) */
+  maxWaitMs?: number;
+}
+
+export interface VideoGenerationOptions extends VideoOperationOptions {
+  aspectRatio?: '16:9' | '9:16';
+  resolution?: '720p' | '1080p';
+  duration?: 4 | 6 | 8;
+  numberOfVideos?: number;
+  negativePrompt?: string;
+}
+
+export interface ImageGenerationOptions {
+  aspectRatio?: '1:1' | '3:4' | '4:3' | '9:16' | '16:9';
+  count?: number;
+  retry?: RetryOptions;
+  /** Bypass the result cache for this call */
+  noCache?: boolean;
+}
+
+export interface ImageEditOptions {
+  mask?: Buffer;
+  retry?: RetryOptions;
+  /** Bypass the result cache for this call */
+  noCache?: boolean;
+}
+
+export interface AnalysisOptions {
+  retry?: RetryOptions;
+  /** Bypass the result cache for this call */
+  noCache?: boolean;
+}
+
+export interface ImageGenerationResult {
+  buffer: Buffer;
+  mimeType: string;
+  generationTime: number;
+}
+
+export interface ImageAnimationOptions extends VideoOperationOptions {
+  aspectRatio?: '16:9' | '9:16';
+  resolution?: '720p' | '1080p';
+  duration?: 4 | 6 | 8;
+}
+
+export interface VideoExtensionOptions extends VideoOperationOptions {
+  aspectRatio?: '16:9' | '9:16';
+  resolution?: '720p' | '1080p';
+}
+
+export interface ReferenceImage {
+  buffer: Buffer;
+  description: string;
+}
+
+export interface VideoGenerationResult {
+  buffer: Buffer;
+  url?: string;
+  generationTime: number;
+}
+
+/** Kind of work a model is used for */
+export type ProviderCapability = 'image' | 'vision' | 'video' | 'referenceVideo';
+
+/** All capabilities, in the order they are documented */
+export const PROVIDER_CAPABILITIES: readonly ProviderCapability[] = ['image', 'vision', 'video', 'referenceVideo'];
+
+/** Model chosen for each capability */
+export type ModelSelection = Record<ProviderCapability, string>;
+
+/**
+ * Image/video backend used by every tool
+ *
+ * Tools never construct a backend directly; they resolve one through
+ * `getProvider()` in `./registry.ts`.
+ */
+export interface VisualProvider {
+  /** Registry name of the backend (e.g. "gemini") */
+  readonly name: string;
+
+  /** Model used for a capability (part of cache keys and usage records) */
+  modelFor(capability: ProviderCapability): string;
+
+  generateImage(prompt: string, options?: ImageGenerationOptions): Promise<Buffer[]>;
+
+  generateImageSingle(prompt: string, options?: ImageGenerationOptions): Promise<ImageGenerationResult>;
+
+  editImage(imageBuffer: Buffer, prompt: string, options?: ImageEditOptions): Promise<Buffer>;
+
+  analyzeImage(imageBuffer: Buffer, question?: string, options?: AnalysisOptions): Promise<string>;
+
+  analyzeMultipleImages(
+    imageBuffers: Buffer[],
+    question?: string,
+    options?: AnalysisOptions
+  ): Promise<string>;
+
+  generateVideo(prompt: string, options?: VideoGenerationOptions): Promise<VideoGenerationResult>;
+
+  animateImage(
+    imageBuffer: Buffer,
+    prompt: string,
+    options?: ImageAnimationOptions
+  ): Promise<VideoGenerationResult>;
+
+  extendVideo(
+    videoBuffer: Buffer,
+    prompt: string,
+    options?: VideoExtensionOptions
+  ): Promise<VideoGenerationResult>;
+
+  generateVideoWithReferences(
+    prompt: string,
+    referenceImages: ReferenceImage[],
+    options?: VideoGenerationOptions
+  ): Promise<VideoGenerationResult>;
+
+  /** Re-attach to a previously submitted video operation and download its result */
+  resumeVideoOperation(
+    operationName: string,
+    options?: VideoOperationOptions
+  ): Promise<VideoGenerationResult>;
+}
@@ -0,0 +1,268 @@
+/**
+ * Usage Ledger
+ *
+ * Records every billable provider call (model, images, video seconds, tokens
+ * and estimated cost) in two places:
+ * - the session ledger, kept in memory for the life of the plugin process
+ * - the project ledger, appended to $NANOBANANA_STATE_DIR/usage.jsonl
+ *
+ * Spending caps:
+ * - NANOBANANA_BUDGET_USD caps the project ledger total
+ * - NANOBANANA_SESSION_BUDGET_USD caps the current session
+ * Once a cap is reached, further calls fail with BudgetExceededError.
+ */
+
+import { appendFile, mkdir, readFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { BudgetExceededError } from './errors.js';
+import { estimateCost, type UsageQuantities } from './pricing.js';
+import { getStateDir } from './operation-journal.js';
+import { createLogger } from '../utils/logger.js';
+import { createWriteQueue } from '../utils/write-queue.js';
+
+export interface UsageRecord extends Required<UsageQuantities> {
+  /** ISO timestamp of the call */
+  timestamp: string;
+  /** Session that made the call */
+  sessionId: string;
+  provider: string;
+  model: string;
+  /** Provider method (e.g. generateImage, generateVideo) */
+  operation: string;
+  /** Estimated cost in USD */
+  costUsd: number;
+}
+
+export interface UsageInput extends UsageQuantities {
+  provider: string;
+  model: string;
+  operation: string;
+}
+
+export interface UsageTotals extends Required<UsageQuantities> {
+  calls: number;
+  costUsd: number;
+}
+
+export interface UsageSummary extends UsageTotals {
+  byModel: Record<string, UsageTotals>;
+}
+
+export interface BudgetStatus {
+  scope: 'project' | 'session';
+  limitUsd: number;
+  spentUsd: number;
+  remainingUsd: number;
+}
+
+/** Identifies this plugin process in the project ledger */
+export const SESSION_ID = randomUUID();
+
+const sessionRecords: UsageRecord[] = [];
+/** Records made inside the current withUsageScope() call */
+const usageScope = new AsyncLocalStorage<UsageRecord[]>();
+
+/** Running project totals per ledger path, loaded lazily from disk */
+const projectSpend = new Map<string, number>();
+
+const writeQueue = createWriteQueue();
+
+/**
+ * Get the project ledger path
+ *
+ * @returns Path to usage.jsonl inside the state directory
+ */
+export function getLedgerPath(): string {
+  return join(getStateDir(), 'usage.jsonl');
+}
+
+/**
+ * Read every record from the project ledger
+ *
+ * @param path Ledger path (default: getLedgerPath())
+ * @returns Records, oldest first (malformed lines are skipped)
+ */
+export async function readProjectUsage(path: string = getLedgerPath()): Promise<UsageRecord[]> {
+  await writeQueue.idle();
+  return loadLedger(path);
+}
+
+async function loadLedger(path: string): Promise<UsageRecord[]> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw new Error(`Failed to read usage ledger ${path}: ${(error as Error).message}`);
+  }
+
+  const records: UsageRecord[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line) as UsageRecord);
+    } catch {
+      // Skip lines truncated by a crash mid-write
+    }
+  }
+  return records;
+}
+
+/**
+ * Get the records made by this process
+ *
+ * @returns Session records, oldest first
+ */
+export function getSessionUsage(): UsageRecord[] {
+  return [...sessionRecords];
+}
+
+async function getProjectSpend(path: string): Promise<number> {
+  const cached = projectSpend.get(path);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const total = summarizeUsage(await loadLedger(path)).costUsd;
+  projectSpend.set(path, total);
+  return total;
+}
+
+/**
+ * Collect the usage records made while a function runs
+ *
+ * Used to attribute spend to a single tool call, even when several tool
+ * calls run at the same time.
+ *
+ * @param records Array that receives every record made by fn
+ * @param fn Work to track
+ * @returns fn's result
+ */
+export function withUsageScope<T>(records: UsageRecord[], fn: () => Promise<T>): Promise<T> {
+  return usageScope.run(records, fn);
+}
+
+/**
+ * Record a provider call in the session and project ledgers
+ *
+ * Writing the project ledger is best effort: a disk error is logged and never
+ * fails the call that produced the output.
+ *
+ * @param input Provider, model, operation and quantities consumed
+ * @returns The stored record
+ */
+export async function recordUsage(input: UsageInput): Promise<UsageRecord> {
+  const record: UsageRecord = {
+    timestamp: new Date().toISOString(),
+    sessionId: SESSION_ID,
+    provider: input.provider,
+    model: input.model,
+    operation: input.operation,
+    images: input.images ?? 0,
+    videoSeconds: input.videoSeconds ?? 0,
+    inputTokens: input.inputTokens ?? 0,
+    outputTokens: input.outputTokens ?? 0,
+    costUsd: estimateCost(input.model, input),
+  };
+
+  sessionRecords.push(record);
+  usageScope.getStore()?.push(record);
+
+  const path = getLedgerPath();
+  await writeQueue
+    .run(async () => {
+      const spent = await getProjectSpend(path);
+      await mkdir(dirname(path), { recursive: true });
+      await appendFile(path, JSON.stringify(record) + '\n');
+      projectSpend.set(path, Math.round((spent + record.costUsd) * 10000) / 10000);
+    })
+    .catch((error) => createLogger('usage').warn('Could not write usage ledger', { path, error }));
+
+  return record;
+}
+
+/**
+ * Total a list of usage records, overall and per model
+ *
+ * @param records Usage records
+ * @returns Summary with per-model breakdown
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const empty = (): UsageTotals => ({
+    calls: 0,
+    images: 0,
+    videoSeconds: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    costUsd: 0,
+  });
+  const add = (totals: UsageTotals, record: UsageRecord) => {
+    totals.calls++;
+    totals.images += record.images;
+    totals.videoSeconds += record.videoSeconds;
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.costUsd = Math.round((totals.costUsd + record.costUsd) * 10000) / 10000;
+  };
+
+  const summary: UsageSummary = { ...empty(), byModel: {} };
+  for (const record of records) {
+    add(summary, record);
+    add((summary.byModel[record.model] ??= empty()), record);
+  }
+  return summary;
+}
+
+function parseBudget(value: string | undefined): number | undefined {
+  const budget = parseFloat(value || '');
+  return Number.isFinite(budget) && budget >= 0 ? budget : undefined;
+}
+
+/**
+ * Get the configured spending caps and how much of each has been used
+ *
+ * @returns One entry per configured cap (empty when no cap is set)
+ */
+export async function getBudgetStatus(): Promise<BudgetStatus[]> {
+  const status: BudgetStatus[] = [];
+  const addStatus = (scope: BudgetStatus['scope'], limitUsd: number, spentUsd: number) =>
+    status.push({
+      scope,
+      limitUsd,
+      spentUsd,
+      remainingUsd: Math.max(0, Math.round((limitUsd - spentUsd) * 10000) / 10000),
+    });
+
+  const projectBudget = parseBudget(process.env.NANOBANANA_BUDGET_USD);
+  if (projectBudget !== undefined) {
+    await writeQueue.idle();
+    addStatus('project', projectBudget, await getProjectSpend(getLedgerPath()));
+  }
+
+  const sessionBudget = parseBudget(process.env.NANOBANANA_SESSION_BUDGET_USD);
+  if (sessionBudget !== undefined) {
+    addStatus('session', sessionBudget, summarizeUsage(sessionRecords).costUsd);
+  }
+
+  return status;
+}
+
+/**
+ * Block further billable calls once a configured cap has been reached
+ *
+ * @throws BudgetExceededError when project or session spend is at or over its cap
+ */
+export async function assertWithinBudget(): Promise<void> {
+  for (const budget of await getBudgetStatus()) {
+    if (budget.spentUsd >= budget.limitUsd) {
+      const variable = budget.scope === 'project' ? 'NANOBANANA_BUDGET_USD' : 'NANOBANANA_SESSION_BUDGET_USD';
+      throw new BudgetExceededError(
+        `${budget.scope === 'project' ? 'Project' : 'Session'} budget of $${budget.limitUsd.toFixed(2)} reached ` +
+          `($${budget.spentUsd.toFixed(2)} spent). Raise ${variable} to continue.`
+      );
+    }
+  }
+}
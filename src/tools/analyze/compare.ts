@@ -6,7 +6,9 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
 import { loadImage, saveImage, getOutputDir } from '../../utils/file-handler.js';
 
 /**
@@ -19,7 +21,8 @@ const compareScreenshotsArgs = {
     .describe('Path to the second screenshot image (comparison/after)'),
   highlightDifferences: tool.schema.boolean()
     .optional()
-    .describe('If true, generate a visual diff image highlighting the differences. Default: false')
+    .describe('If true, generate a visual diff image highlighting the differences. Default: false'),
+  noCache: tool.schema.boolean().optional().describe('Skip the result cache and always call the provider')
 } as const;
 
 /**
@@ -31,11 +34,11 @@ export const compareScreenshotsTool: ToolDefinition = tool({
   args: compareScreenshotsArgs,
 
   async execute(args, _context) {
-    try {
-      const { imagePath1, imagePath2, highlightDifferences = false } = args;
+    return runTool(async ({ retry, warn }) => {
+      const { imagePath1, imagePath2, highlightDifferences = false, noCache } = args;
 
-      // Initialize Gemini provider
-      const provider = new GeminiProvider();
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'compare_screenshots' });
 
       // Load both screenshot images
       const image1Buffer = await loadImage(imagePath1);
@@ -51,56 +54,42 @@ export const compareScreenshotsTool: ToolDefinition = tool({
         '5. Overall impact of the changes\n\n' +
         'Be specific about locations and changes. If the images are identical, clearly state that.';
 
-      // Analyze the comparison using Gemini
-      // Note: Gemini's multi-image analysis requires sending both images in a single request
+      // Note: multi-image analysis requires sending both images in a single request
       const analysis = await provider.analyzeMultipleImages(
         [image1Buffer, image2Buffer],
-        comparisonPrompt
+        comparisonPrompt,
+        { retry, noCache }
       );
 
-      let resultMessage = `✓ Screenshot Comparison Complete
-
-Image 1: ${imagePath1}
-Image 2: ${imagePath2}
-
-${analysis}`;
-
-      // Generate diff highlight image if requested
+      // Generate diff highlight image if requested; a failure here doesn't fail the comparison
+      const files: string[] = [];
       if (highlightDifferences) {
         try {
-          // Create a prompt for Gemini to generate a visual diff
           const diffPrompt =
             'Create a visual difference image that highlights the changes between the two screenshots. ' +
             'Use red/pink highlighting to mark areas that have changed. ' +
             'Show both screenshots side by side with the differences clearly marked.';
 
-          const diffBuffer = await provider.editImage(image1Buffer, diffPrompt);
-
-          // Save the diff image
-          const outputDir = getOutputDir();
-          const diffPath = await saveImage(
-            diffBuffer,
-            outputDir,
-            'screenshot-diff',
-            0
+          const diffBuffer = await provider.editImage(image1Buffer, diffPrompt, { retry, noCache });
+          files.push(
+            await saveImage(diffBuffer, getOutputDir('compare_screenshots'), 'screenshot-diff', 0, {
+              tool: 'compare_screenshots',
+              prompt: diffPrompt,
+              provider: provider.name,
+              model: provider.modelFor('image'),
+              inputs: [imagePath1, imagePath2],
+            })
           );
-
-          resultMessage += `\n\n✓ Visual diff image generated: ${diffPath}`;
-        } catch (diffError) {
-          resultMessage += `\n\n⚠ Warning: Could not generate visual diff image: ${diffError instanceof Error ? diffError.message : String(diffError)}`;
+        } catch (error) {
+          warn(`Could not generate visual diff image: ${error instanceof Error ? error.message : String(error)}`);
         }
       }
 
-      return resultMessage;
-
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('GEMINI_API_KEY')) {
-        return '✗ Error: GEMINI_API_KEY is not set. Please configure your API key in environment variables.';
-      }
-      if (error instanceof Error && (error.message.includes('ENOENT') || error.message.includes('no such file'))) {
-        return `✗ Error: Could not load one or both screenshots. Please verify the file paths exist:\n  - ${args.imagePath1}\n  - ${args.imagePath2}`;
-      }
-      return `✗ Error comparing screenshots: ${error instanceof Error ? error.message : String(error)}`;
-    }
+      return {
+        summary: `Compared ${imagePath1} with ${imagePath2}`,
+        files,
+        data: { image1: imagePath1, image2: imagePath2, analysis },
+      };
+    });
   }
 });
@@ -6,7 +6,9 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
 import { loadImage } from '../../utils/file-handler.js';
 
 /**
@@ -22,7 +24,8 @@ const analyzeMockupArgs = {
   extractSpacing: tool.schema.boolean()
     .optional()
     .default(true)
-    .describe('Whether to extract spacing and layout measurements (default: true)')
+    .describe('Whether to extract spacing and layout measurements (default: true)'),
+  noCache: tool.schema.boolean().optional().describe('Skip the result cache and always call the provider')
 } as const;
 
 /**
@@ -96,11 +99,11 @@ export const analyzeMockupTool: ToolDefinition = tool({
   args: analyzeMockupArgs,
 
   async execute(args, _context) {
-    try {
-      const { imagePath, extractColors = true, extractSpacing = true } = args;
+    return runTool(async ({ retry }) => {
+      const { imagePath, extractColors = true, extractSpacing = true, noCache } = args;
 
-      // Initialize Gemini provider
-      const provider = new GeminiProvider();
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'analyze_mockup' });
 
       // Load the mockup image
       const imageBuffer = await loadImage(imagePath);
@@ -108,29 +111,18 @@ export const analyzeMockupTool: ToolDefinition = tool({
       // Build analysis prompt based on extraction options
       const analysisPrompt = buildDesignAnalysisPrompt(extractColors, extractSpacing);
 
-      // Analyze the mockup using Gemini
-      const analysis = await provider.analyzeImage(imageBuffer, analysisPrompt);
+      // Analyze the mockup
+      const analysis = await provider.analyzeImage(imageBuffer, analysisPrompt, { retry, noCache });
 
-      // Build summary of what was extracted
-      const extractedFeatures: string[] = ['Component Structure', 'Typography'];
-      if (extractColors) extractedFeatures.push('Color Palette');
-      if (extractSpacing) extractedFeatures.push('Spacing & Layout');
+      // Summarize what was extracted
+      const extracted: string[] = ['Component Structure', 'Typography'];
+      if (extractColors) extracted.push('Color Palette');
+      if (extractSpacing) extracted.push('Spacing & Layout');
 
-      return `✓ Design Mockup Analysis Complete
-
-Path: ${imagePath}
-Extracted: ${extractedFeatures.join(', ')}
-
-${analysis}`;
-
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('GEMINI_API_KEY')) {
-        return '✗ Error: GEMINI_API_KEY is not set. Please configure your API key in environment variables.';
-      }
-      if (error instanceof Error && (error.message.includes('ENOENT') || error.message.includes('no such file'))) {
-        return `✗ Error: Could not load mockup image at path: ${args.imagePath}. Please verify the file exists.`;
-      }
-      return `✗ Error analyzing mockup: ${error instanceof Error ? error.message : String(error)}`;
-    }
+      return {
+        summary: `Extracted ${extracted.join(', ')} from ${imagePath}`,
+        data: { imagePath, extracted, analysis },
+      };
+    });
   }
 });
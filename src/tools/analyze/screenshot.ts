@@ -6,7 +6,9 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
 import { loadImage } from '../../utils/file-handler.js';
 
 /**
@@ -17,7 +19,8 @@ const analyzeScreenshotArgs = {
     .describe('Path to the screenshot image to analyze'),
   question: tool.schema.string()
     .optional()
-    .describe('Specific question or focus area for the analysis. If not provided, performs comprehensive UI analysis')
+    .describe('Specific question or focus area for the analysis. If not provided, performs comprehensive UI analysis'),
+  noCache: tool.schema.boolean().optional().describe('Skip the result cache and always call the provider')
 } as const;
 
 /**
@@ -29,11 +32,11 @@ export const analyzeScreenshotTool: ToolDefinition = tool({
   args: analyzeScreenshotArgs,
 
   async execute(args, _context) {
-    try {
-      const { imagePath, question } = args;
+    return runTool(async ({ retry }) => {
+      const { imagePath, question, noCache } = args;
 
-      // Initialize Gemini provider
-      const provider = new GeminiProvider();
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'analyze_screenshot' });
 
       // Load the screenshot image
       const imageBuffer = await loadImage(imagePath);
@@ -48,23 +51,10 @@ export const analyzeScreenshotTool: ToolDefinition = tool({
         '5. Suggestions for improvement\n\n' +
         'Provide a clear, structured analysis.';
 
-      // Analyze the screenshot using Gemini
-      const analysis = await provider.analyzeImage(imageBuffer, analysisPrompt);
+      // Analyze the screenshot
+      const analysis = await provider.analyzeImage(imageBuffer, analysisPrompt, { retry, noCache });
 
-      return `✓ Screenshot Analysis Complete
-
-Path: ${imagePath}
-
-${analysis}`;
-
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('GEMINI_API_KEY')) {
-        return '✗ Error: GEMINI_API_KEY is not set. Please configure your API key in environment variables.';
-      }
-      if (error instanceof Error && (error.message.includes('ENOENT') || error.message.includes('no such file'))) {
-        return `✗ Error: Could not load screenshot at path: ${args.imagePath}. Please verify the file exists.`;
-      }
-      return `✗ Error analyzing screenshot: ${error instanceof Error ? error.message : String(error)}`;
-    }
+      return { summary: `Analyzed screenshot ${imagePath}`, data: { imagePath, analysis } };
+    });
   }
 });
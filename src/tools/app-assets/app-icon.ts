@@ -6,8 +6,13 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
-import { ensureDirectory, getOutputDir } from '../../utils/file-handler.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { checkOutputPath, ensureOutputDirectory, getOutputDir, getOverwritePolicy, writeAsset } from '../../utils/file-handler.js';
+import type { ProvenanceInput } from '../../utils/provenance.js';
+import { createLogger } from '../../utils/logger.js';
+import { getProjectConfig } from '../../config/project-config.js';
 import { resize } from '../../utils/image-processing.js';
 import {
   IOS_ICON_SIZES,
@@ -40,44 +45,45 @@ export const generateAppIcon: ToolDefinition = tool({
   args: generateAppIconArgs,
 
   async execute(args, _context) {
-    try {
-      // Initialize Gemini provider
-      const gemini = new GeminiProvider();
+    return runTool(async ({ retry }) => {
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_app_icon' });
 
       // Extract parameters with defaults
       const {
         prompt,
-        platforms = ['ios', 'android'],
+        platforms = getProjectConfig().platforms ?? ['ios', 'android'],
         includeWatchOS = false,
         includeCarPlay = false,
         outputDir: customOutputDir
       } = args;
 
       // Determine output directory
-      const baseOutputDir = customOutputDir || getOutputDir();
+      const baseOutputDir = customOutputDir || getOutputDir('generate_app_icon');
       const iconOutputDir = path.join(baseOutputDir, 'app-icons');
-      await ensureDirectory(iconOutputDir);
+      await ensureOutputDirectory(iconOutputDir);
 
       // Generate 1024x1024 master icon
-      console.log('Generating 1024x1024 master icon...');
-      const masterIcons = await gemini.generateImage(
-        `App icon: ${prompt}. Professional, simple, clean design suitable for a mobile app icon. Square format, centered composition.`,
-        { aspectRatio: '1:1', count: 1 }
-      );
-
-      if (masterIcons.length === 0) {
-        return 'Failed to generate master icon';
-      }
+      createLogger('generate_app_icon').info('Generating 1024x1024 master icon', { outputDir: iconOutputDir });
+      const iconPrompt = `App icon: ${prompt}. Professional, simple, clean design suitable for a mobile app icon. Square format, centered composition.`;
+      const masterIcons = await provider.generateImage(iconPrompt, { aspectRatio: '1:1', count: 1, retry });
 
       const masterIcon = masterIcons[0];
       if (!masterIcon) {
-        return 'Failed to generate master icon';
+        throw new Error('Failed to generate master icon');
       }
 
       // Resize master to exactly 1024x1024 if needed
       const master1024 = await resize(masterIcon, 1024, 1024, { fit: 'cover' });
 
       const generatedPaths: string[] = [];
+      const provenance: ProvenanceInput = {
+        tool: 'generate_app_icon',
+        prompt: iconPrompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { aspectRatio: '1:1', platforms, includeWatchOS, includeCarPlay },
+      };
 
       // Generate iOS icons
       if (platforms.includes('ios')) {
@@ -85,24 +91,24 @@ export const generateAppIcon: ToolDefinition = tool({
           master1024,
           iconOutputDir,
           includeWatchOS,
-          includeCarPlay
+          includeCarPlay,
+          provenance
         );
         generatedPaths.push(...iosPaths);
       }
 
       // Generate Android icons
       if (platforms.includes('android')) {
-        const androidPaths = await generateAndroidIcons(master1024, iconOutputDir);
+        const androidPaths = await generateAndroidIcons(master1024, iconOutputDir, provenance);
         generatedPaths.push(...androidPaths);
       }
 
-      return `✅ App icon generated successfully!\n\nGenerated ${generatedPaths.length} icon files:\n${generatedPaths.map(p => `  - ${p}`).join('\n')}\n\nMaster icon: 1024x1024`;
-    } catch (error) {
-      if (error instanceof Error) {
-        return `❌ Failed to generate app icon: ${error.message}`;
-      }
-      return '❌ Failed to generate app icon: Unknown error';
-    }
+      return {
+        summary: `Generated ${generatedPaths.length} app icon files in ${iconOutputDir}`,
+        files: generatedPaths,
+        data: { outputDir: iconOutputDir, platforms },
+      };
+    });
   },
 });
 
@@ -113,13 +119,14 @@ async function generateIOSIcons(
   masterIcon: Buffer,
   baseOutputDir: string,
   includeWatchOS: boolean,
-  includeCarPlay: boolean
+  includeCarPlay: boolean,
+  provenance: ProvenanceInput
 ): Promise<string[]> {
   const generatedPaths: string[] = [];
 
   // Create AppIcon.appiconset directory
   const appiconsetDir = path.join(baseOutputDir, 'ios', 'AppIcon.appiconset');
-  await ensureDirectory(appiconsetDir);
+  await ensureOutputDirectory(appiconsetDir);
 
   // Collect all iOS icon sizes
   let allIconSizes: IconSize[] = [...IOS_ICON_SIZES];
@@ -139,13 +146,15 @@ async function generateIOSIcons(
     });
 
     const iconPath = path.join(appiconsetDir, iconSize.filename);
-    await fs.writeFile(iconPath, resizedIcon);
+    // No sidecars inside the bundle; the record is in the PNG text chunks
+    await writeAsset(iconPath, resizedIcon, provenance, getOverwritePolicy(), false);
     generatedPaths.push(iconPath);
   }
 
   // Generate Contents.json
   const contentsJson = generateContentsJson(allIconSizes);
   const contentsPath = path.join(appiconsetDir, 'Contents.json');
+  await checkOutputPath(contentsPath);
   await fs.writeFile(contentsPath, JSON.stringify(contentsJson, null, 2));
   generatedPaths.push(contentsPath);
 
@@ -157,32 +166,35 @@ async function generateIOSIcons(
  */
 async function generateAndroidIcons(
   masterIcon: Buffer,
-  baseOutputDir: string
+  baseOutputDir: string,
+  provenance: ProvenanceInput
 ): Promise<string[]> {
   const generatedPaths: string[] = [];
   const androidDir = path.join(baseOutputDir, 'android');
-  await ensureDirectory(androidDir);
+  await ensureOutputDirectory(androidDir);
 
   // Generate icons for each density
   for (const androidIcon of ANDROID_ICON_SIZES) {
     const densityDir = path.join(androidDir, androidIcon.directory);
-    await ensureDirectory(densityDir);
+    await ensureOutputDirectory(densityDir);
 
     const resizedIcon = await resize(masterIcon, androidIcon.size, androidIcon.size, {
       fit: 'cover',
     });
 
     const iconPath = path.join(densityDir, androidIcon.filename);
-    await fs.writeFile(iconPath, resizedIcon);
+    // No sidecars inside the bundle; the record is in the PNG text chunks
+    await writeAsset(iconPath, resizedIcon, provenance, getOverwritePolicy(), false);
     generatedPaths.push(iconPath);
   }
 
   // Generate adaptive icon XML
   const adaptiveIconDir = path.join(androidDir, 'mipmap-anydpi-v26');
-  await ensureDirectory(adaptiveIconDir);
+  await ensureOutputDirectory(adaptiveIconDir);
 
   const adaptiveIconXml = generateAdaptiveIconXml();
   const xmlPath = path.join(adaptiveIconDir, 'ic_launcher.xml');
+  await checkOutputPath(xmlPath);
   await fs.writeFile(xmlPath, adaptiveIconXml);
   generatedPaths.push(xmlPath);
 
@@ -6,9 +6,12 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
-import { loadImage, saveImage, ensureDirectory, getOutputDir } from '../../utils/file-handler.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { loadImage, saveImage, writeAsset, ensureOutputDirectory, getOutputDir } from '../../utils/file-handler.js';
 import { getMetadata } from '../../utils/image-processing.js';
+import { createLogger } from '../../utils/logger.js';
 import * as path from 'path';
 
 // Device specifications
@@ -61,9 +64,9 @@ export const generateDeviceMockup: ToolDefinition = tool({
   args: generateDeviceMockupArgs,
 
   async execute(args, _context) {
-    try {
-      // Initialize Gemini provider
-      const gemini = new GeminiProvider();
+    return runTool(async ({ retry }) => {
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_device_mockup' });
 
       // Extract and validate parameters
       const {
@@ -77,7 +80,7 @@ export const generateDeviceMockup: ToolDefinition = tool({
       // Validate device
       if (!(device in DEVICE_SPECS)) {
         const availableDevices = Object.keys(DEVICE_SPECS).join(', ');
-        return `❌ Invalid device model. Available devices: ${availableDevices}`;
+        throw new Error(`Invalid device model. Available devices: ${availableDevices}`);
       }
 
       const deviceModel = device as DeviceModel;
@@ -88,21 +91,23 @@ export const generateDeviceMockup: ToolDefinition = tool({
 
       // Validate orientation
       if (orientation !== 'portrait' && orientation !== 'landscape') {
-        return `❌ Invalid orientation. Must be 'portrait' or 'landscape'.`;
+        throw new Error(`Invalid orientation. Must be 'portrait' or 'landscape'.`);
       }
 
+      const log = createLogger('generate_device_mockup');
+
       // Load the screenshot image
-      console.log(`Loading screenshot from ${imagePath}...`);
+      log.debug('Loading screenshot', { imagePath });
       const screenshotBuffer = await loadImage(imagePath);
 
       // Get screenshot metadata
       const metadata = await getMetadata(screenshotBuffer);
-      console.log(`Screenshot loaded: ${metadata.width}x${metadata.height}`);
+      log.debug('Screenshot loaded', { width: metadata.width, height: metadata.height });
 
       // Determine output path
-      const baseOutputDir = getOutputDir();
+      const baseOutputDir = getOutputDir('generate_device_mockup');
       const mockupsDir = path.join(baseOutputDir, 'mockups');
-      await ensureDirectory(mockupsDir);
+      await ensureOutputDirectory(mockupsDir);
 
       // Prepare device filename for output
       const deviceFileName = `${deviceModel}-${normalizedColor}-${orientation}-mockup`;
@@ -115,27 +120,39 @@ export const generateDeviceMockup: ToolDefinition = tool({
         orientation
       );
 
-      console.log('Generating device mockup with Gemini...');
+      log.info('Generating device mockup', { device: deviceModel, color: normalizedColor, orientation });
 
       // Use Gemini's image editing capability to composite the screenshot into a device frame
       // Strategy: Ask Gemini to generate a device frame with the screenshot placed inside
-      const mockupBuffer = await gemini.editImage(
+      const mockupBuffer = await provider.editImage(
         screenshotBuffer,
-        mockupPrompt
+        mockupPrompt,
+        { retry }
       );
 
       // Save the mockup
+      const provenance = {
+        tool: 'generate_device_mockup',
+        prompt: mockupPrompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { device: deviceModel, color: normalizedColor, orientation },
+        inputs: [imagePath],
+      };
       const savedPath = customOutputPath
-        ? await saveImage(mockupBuffer, path.dirname(customOutputPath), path.basename(customOutputPath, path.extname(customOutputPath)), 0)
-        : await saveImage(mockupBuffer, mockupsDir, deviceFileName, 0);
-
-      return `✅ Device mockup generated successfully!\n\nDevice: ${deviceSpec.family} (${deviceSpec.displaySize})\nColor: ${normalizedColor}\nOrientation: ${orientation}\nOutput: ${savedPath}`;
-    } catch (error) {
-      if (error instanceof Error) {
-        return `❌ Failed to generate device mockup: ${error.message}`;
-      }
-      return '❌ Failed to generate device mockup: Unknown error';
-    }
+        ? await writeAsset(customOutputPath, mockupBuffer, provenance)
+        : await saveImage(mockupBuffer, mockupsDir, deviceFileName, 0, provenance);
+
+      return {
+        summary: `Generated ${deviceSpec.family} mockup ${savedPath}`,
+        files: [savedPath],
+        data: {
+          device: `${deviceSpec.family} (${deviceSpec.displaySize})`,
+          color: normalizedColor,
+          orientation,
+        },
+      };
+    });
   },
 });
 
@@ -1,6 +1,11 @@
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
-import { loadImage, saveImage, ensureDirectory } from '../../utils/file-handler.js';
+import { getProvider } from '../../providers/registry.js';
+import type { RetryOptions } from '../../providers/retry.js';
+import type { VisualProvider } from '../../providers/types.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { loadImage, saveImage, ensureOutputDirectory, getOutputDir } from '../../utils/file-handler.js';
+import { getProjectConfig } from '../../config/project-config.js';
 import { resize } from '../../utils/image-processing.js';
 import { IOS_SCREENSHOT_SIZES } from '../../platforms/ios.js';
 import { ANDROID_SCREENSHOT_SIZES } from '../../platforms/android.js';
@@ -56,14 +61,15 @@ function getLaunchImageSizes(platforms: string[]) {
 }
 
 /**
- * Generate launch images from text description using Gemini
+ * Generate launch images from text description using the configured provider
  */
 async function generateFromPrompt(
+  provider: VisualProvider,
   design: string,
   sizes: Array<{ width: number; height: number; name: string; platform: string }>,
-  outputDir: string
+  outputDir: string,
+  retry?: RetryOptions
 ): Promise<string[]> {
-  const gemini = new GeminiProvider();
   const generatedPaths: string[] = [];
 
   // Group sizes by aspect ratio to minimize API calls
@@ -88,7 +94,7 @@ The design should be clean, minimal, centered, and work well as an app loading s
 Include any branding, logo, or visual elements described.
 Ensure the design works for ${aspectRatio === '9:16' ? 'portrait' : 'landscape'} orientation.`;
 
-    const images = await gemini.generateImage(prompt, { aspectRatio: aspectRatio as '9:16' | '16:9' });
+    const images = await provider.generateImage(prompt, { aspectRatio: aspectRatio as '9:16' | '16:9', retry });
     const masterImage = images[0];
 
     if (!masterImage) {
@@ -98,11 +104,17 @@ Ensure the design works for ${aspectRatio === '9:16' ? 'portrait' : 'landscape'}
     // Resize to all sizes in this group
     for (const size of groupSizes) {
       const platformDir = path.join(outputDir, size.platform);
-      await ensureDirectory(platformDir);
+      await ensureOutputDirectory(platformDir);
 
       const resized = await resize(masterImage, size.width, size.height, { fit: 'cover' });
       const filename = `launch-${size.name}.png`;
-      const outputPath = await saveImage(resized, platformDir, filename, 0);
+      const outputPath = await saveImage(resized, platformDir, filename, 0, {
+        tool: 'generate_launch_images',
+        prompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { aspectRatio, width: size.width, height: size.height },
+      });
 
       generatedPaths.push(outputPath);
     }
@@ -127,12 +139,16 @@ async function generateFromImage(
   // Resize to all requested sizes
   for (const size of sizes) {
     const platformDir = path.join(outputDir, size.platform);
-    await ensureDirectory(platformDir);
+    await ensureOutputDirectory(platformDir);
 
     // Use 'cover' fit to fill the screen without letterboxing
     const resized = await resize(sourceImage, size.width, size.height, { fit: 'cover' });
     const filename = `launch-${size.name}.png`;
-    const outputPath = await saveImage(resized, platformDir, filename, 0);
+    const outputPath = await saveImage(resized, platformDir, filename, 0, {
+      tool: 'generate_launch_images',
+      options: { width: size.width, height: size.height },
+      inputs: [imagePath],
+    });
 
     generatedPaths.push(outputPath);
   }
@@ -144,21 +160,21 @@ export const generate_launch_images: ToolDefinition = tool({
   description: 'Generate splash screens / launch images for iOS and Android apps from text description or existing image',
   args,
   execute: async (args, _context) => {
-    try {
+    return runTool(async ({ retry }) => {
       const {
         design,
-        platforms = ['ios', 'android'],
-        outputDir = path.join(process.cwd(), 'generated-assets', 'launch-images')
+        platforms = getProjectConfig().platforms ?? ['ios', 'android'],
+        outputDir = path.join(getOutputDir('generate_launch_images'), 'launch-images')
       } = args;
 
       // Ensure output directory exists
-      await ensureDirectory(outputDir);
+      await ensureOutputDirectory(outputDir);
 
       // Get all launch image sizes for specified platforms
       const sizes = getLaunchImageSizes(platforms);
 
       if (sizes.length === 0) {
-        return 'No devices found for the specified platforms. Please check your platform selection.';
+        throw new Error('No devices found for the specified platforms. Please check your platform selection.');
       }
 
       // Determine if input is a file path or text description
@@ -171,47 +187,22 @@ export const generate_launch_images: ToolDefinition = tool({
         try {
           await fs.access(design);
         } catch {
-          return `Image file not found: ${design}`;
+          throw new Error(`Image file not found: ${design}`);
         }
 
         // Generate from existing image
         generatedPaths = await generateFromImage(design, sizes, outputDir);
       } else {
-        // Generate from text description using Gemini
-        generatedPaths = await generateFromPrompt(design, sizes, outputDir);
-      }
-
-      // Group paths by platform for cleaner output message
-      const iosPaths = generatedPaths.filter(p => p.includes('/ios/'));
-      const androidPaths = generatedPaths.filter(p => p.includes('/android/'));
-
-      let message = `Successfully generated ${generatedPaths.length} launch images!\n\n`;
-
-      if (iosPaths.length > 0) {
-        const firstIosPath = iosPaths[0];
-        if (firstIosPath) {
-          message += `iOS Launch Images (${iosPaths.length}):\n`;
-          message += `  ${path.dirname(firstIosPath)}/\n`;
-        }
+        // Generate from text description using the configured provider
+        const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_launch_images' });
+        generatedPaths = await generateFromPrompt(provider, design, sizes, outputDir, retry);
       }
 
-      if (androidPaths.length > 0) {
-        const firstAndroidPath = androidPaths[0];
-        if (firstAndroidPath) {
-          message += `Android Launch Images (${androidPaths.length}):\n`;
-          message += `  ${path.dirname(firstAndroidPath)}/\n`;
-        }
-      }
-
-      message += `\nAll images saved to: ${outputDir}`;
-
-      return message;
-
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('GEMINI_API_KEY')) {
-        return 'Gemini API key not configured. Please set GEMINI_API_KEY environment variable.';
-      }
-      return `Failed to generate launch images: ${error instanceof Error ? error.message : String(error)}`;
-    }
+      return {
+        summary: `Generated ${generatedPaths.length} launch images in ${outputDir}`,
+        files: generatedPaths,
+        data: { outputDir, platforms },
+      };
+    });
   },
 });
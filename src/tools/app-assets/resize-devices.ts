@@ -4,13 +4,18 @@
  * Smart image resizing to device-specific dimensions with multiple crop modes:
  * - fit: Letterbox if aspect ratio differs
  * - fill: Crop to fill the screen
- * - smart: Use Gemini to identify important content before cropping
+ * - smart: Use the vision model to identify important content before cropping
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
-import { loadImage, saveImage, ensureDirectory } from '../../utils/file-handler.js';
+import { getProvider } from '../../providers/registry.js';
+import type { RetryOptions } from '../../providers/retry.js';
+import type { VisualProvider } from '../../providers/types.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { loadImage, saveImage, ensureOutputDirectory, getOutputDir } from '../../utils/file-handler.js';
 import { resize, crop, getMetadata, type CropRegion } from '../../utils/image-processing.js';
+import { createLogger } from '../../utils/logger.js';
 import { IOS_SCREENSHOT_SIZES, type ScreenshotSize } from '../../platforms/ios.js';
 import { ANDROID_SCREENSHOT_SIZES, type AndroidScreenshotSize } from '../../platforms/android.js';
 import path from 'node:path';
@@ -105,14 +110,14 @@ function filterSizes(
  * Calculate smart crop region using Gemini to identify important content
  */
 async function calculateSmartCrop(
+  provider: VisualProvider,
   imageBuffer: Buffer,
   sourceWidth: number,
   sourceHeight: number,
   targetWidth: number,
-  targetHeight: number
+  targetHeight: number,
+  retry?: RetryOptions
 ): Promise<CropRegion> {
-  const provider = new GeminiProvider();
-
   // Calculate target aspect ratio
   const targetAspect = targetWidth / targetHeight;
   const sourceAspect = sourceWidth / sourceHeight;
@@ -147,7 +152,7 @@ async function calculateSmartCrop(
   2. Fits within the image boundaries
   3. Captures the most important content`;
 
-  const analysis = await provider.analyzeImage(imageBuffer, prompt);
+  const analysis = await provider.analyzeImage(imageBuffer, prompt, { retry });
 
   // Parse JSON response
   try {
@@ -175,7 +180,7 @@ async function calculateSmartCrop(
     return constrainedRegion;
   } catch (error) {
     // Fallback to center crop if AI analysis fails
-    console.warn('Smart crop failed, falling back to center crop:', error);
+    createLogger('resize_for_devices').warn('Smart crop failed, falling back to center crop', { error });
 
     // Calculate center crop with target aspect ratio
     const cropHeight = targetAspect > sourceAspect
@@ -200,7 +205,9 @@ async function calculateSmartCrop(
 async function resizeForDevice(
   imageBuffer: Buffer,
   size: UnifiedScreenshotSize,
-  cropMode: 'fit' | 'fill' | 'smart'
+  cropMode: 'fit' | 'fill' | 'smart',
+  provider?: VisualProvider,
+  retry?: RetryOptions
 ): Promise<Buffer> {
   const metadata = await getMetadata(imageBuffer);
 
@@ -218,13 +225,18 @@ async function resizeForDevice(
       position: 'center'
     });
   } else {
-    // Smart mode - use Gemini to identify important content
+    // Smart mode - use the provider to identify important content
+    if (!provider) {
+      throw new Error('Smart crop mode requires a provider');
+    }
     const cropRegion = await calculateSmartCrop(
+      provider,
       imageBuffer,
       metadata.width,
       metadata.height,
       size.width,
-      size.height
+      size.height,
+      retry
     );
 
     // First crop to the smart region
@@ -247,15 +259,20 @@ export const resizeForDevicesTool: ToolDefinition = tool({
   args: resizeForDevicesArgs,
 
   async execute(args, _context) {
-    try {
+    return runTool(async ({ retry, warn }) => {
       const {
         imagePath,
         platform = 'both',
         screenshotType = 'all',
         cropMode = 'fill',
-        outputDir = './generated-assets/device-screenshots'
+        outputDir = path.join(getOutputDir('resize_for_devices'), 'device-screenshots')
       } = args;
 
+      // Only smart mode calls the provider
+      const provider = cropMode === 'smart'
+        ? getProvider({ apiKey: getApiKey(), tool: 'resize_for_devices' })
+        : undefined;
+
       // Load source image
       const imageBuffer = await loadImage(imagePath);
       const metadata = await getMetadata(imageBuffer);
@@ -264,101 +281,54 @@ export const resizeForDevicesTool: ToolDefinition = tool({
       const targetSizes = filterSizes(platform, screenshotType);
 
       if (targetSizes.length === 0) {
-        return [
-          '✗ Error: No matching device sizes found',
-          '',
-          `Platform: ${platform}`,
-          `Screenshot type: ${screenshotType}`,
-          '',
-          'Please check your filter settings.'
-        ].join('\n');
+        throw new Error(`No matching device sizes found for platform "${platform}" and screenshot type "${screenshotType}"`);
       }
 
       // Ensure output directory exists
-      await ensureDirectory(outputDir);
+      await ensureOutputDirectory(outputDir);
 
       const savedPaths: string[] = [];
-      let smartCropWarnings = 0;
 
       // Resize for each device
       for (const size of targetSizes) {
         try {
           // Create platform/device-specific directory
           const deviceDir = path.join(outputDir, size.platform, size.name);
-          await ensureDirectory(deviceDir);
+          await ensureOutputDirectory(deviceDir);
 
           // Resize image
-          const resizedBuffer = await resizeForDevice(imageBuffer, size, cropMode);
+          const resizedBuffer = await resizeForDevice(imageBuffer, size, cropMode, provider, retry);
 
           // Save with descriptive filename
           const filename = `${path.basename(imagePath, path.extname(imagePath))}-${size.name}.png`;
-          const filepath = await saveImage(resizedBuffer, deviceDir, filename.replace('.png', ''), 0);
+          const filepath = await saveImage(resizedBuffer, deviceDir, filename.replace('.png', ''), 0, {
+            tool: 'resize_for_devices',
+            ...(provider && { provider: provider.name, model: provider.modelFor('vision') }),
+            options: { cropMode, width: size.width, height: size.height },
+            inputs: [imagePath],
+          });
           savedPaths.push(filepath);
         } catch (error) {
           // Track smart crop failures but continue
           if (cropMode === 'smart' && error instanceof Error) {
-            smartCropWarnings++;
-            console.warn(`Smart crop warning for ${size.name}:`, error.message);
+            warn(`Skipped ${size.name}: smart crop failed: ${error.message}`);
           } else {
             throw error;
           }
         }
       }
 
-      const warnings = smartCropWarnings > 0
-        ? `\n\n⚠️  ${smartCropWarnings} device(s) used fallback center crop (AI analysis unavailable)`
-        : '';
-
-      return [
-        `✓ Successfully resized image for ${savedPaths.length} device size(s)`,
-        '',
-        `Source: ${imagePath} (${metadata.width}x${metadata.height})`,
-        `Platform: ${platform}`,
-        `Device type: ${screenshotType}`,
-        `Crop mode: ${cropMode}`,
-        '',
-        'Generated sizes:',
-        ...savedPaths.slice(0, 10).map((p, i) => `  ${i + 1}. ${p}`),
-        savedPaths.length > 10 ? `  ... and ${savedPaths.length - 10} more` : '',
-        '',
-        `Output directory: ${outputDir}`,
-        warnings
-      ].filter(Boolean).join('\n');
-
-    } catch (error) {
-      // Handle errors with user-friendly messages
-      if (error instanceof Error) {
-        if (error.message.includes('GEMINI_API_KEY')) {
-          return [
-            '✗ Error: Gemini API key not found',
-            '',
-            'Smart crop mode requires GEMINI_API_KEY environment variable.',
-            'Get your API key at: https://makersuite.google.com/app/apikey',
-            '',
-            'Tip: Use cropMode "fit" or "fill" to resize without AI analysis.'
-          ].join('\n');
-        }
-
-        if (error.message.includes('ENOENT') || error.message.includes('no such file')) {
-          return [
-            '✗ Error: Source image file not found',
-            '',
-            `Path: ${args.imagePath}`,
-            '',
-            'Please check the file path and try again.'
-          ].join('\n');
-        }
-
-        return [
-          '✗ Device resize failed',
-          '',
-          `Error: ${error.message}`,
-          '',
-          'Please check your inputs and try again.'
-        ].join('\n');
-      }
-
-      return '✗ Device resize failed with an unknown error';
-    }
+      return {
+        summary: `Resized ${imagePath} for ${savedPaths.length} device size(s) in ${outputDir}`,
+        files: savedPaths,
+        data: {
+          source: { path: imagePath, width: metadata.width, height: metadata.height },
+          platform,
+          screenshotType,
+          cropMode,
+          outputDir,
+        },
+      };
+    });
   }
 });
@@ -4,12 +4,14 @@
  * Creates App Store screenshots for iOS and iPad devices.
  * Supports two modes:
  * - 'image': Resizes existing image to all device dimensions
- * - 'code': Generates visuals from code/design description via Gemini
+ * - 'code': Generates visuals from code/design description via the configured provider
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
-import { loadImage, saveImage, ensureDirectory } from '../../utils/file-handler.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { loadImage, saveImage, ensureOutputDirectory, getOutputDir } from '../../utils/file-handler.js';
 import { resize } from '../../utils/image-processing.js';
 import { IOS_SCREENSHOT_SIZES, type ScreenshotSize } from '../../platforms/ios.js';
 import path from 'node:path';
@@ -57,18 +59,18 @@ export const generateScreenshotsTool: ToolDefinition = tool({
   args: generateScreenshotsArgs,
 
   async execute(args, _context) {
-    try {
+    return runTool(async ({ retry }) => {
       const {
         source,
         sourceType,
         platforms = ['ios', 'ipad'],
         devices,
         addDeviceFrame = false,
-        outputDir = './generated-assets/screenshots'
+        outputDir = path.join(getOutputDir('generate_app_screenshots'), 'screenshots')
       } = args;
 
       // Ensure output directory exists
-      await ensureDirectory(outputDir);
+      await ensureOutputDirectory(outputDir);
 
       // Filter screenshot sizes based on platforms and devices
       let targetSizes = IOS_SCREENSHOT_SIZES;
@@ -82,15 +84,9 @@ export const generateScreenshotsTool: ToolDefinition = tool({
       }
 
       if (targetSizes.length === 0) {
-        return [
-          '✗ Error: No matching devices found',
-          '',
-          `Platforms: ${platforms.join(', ')}`,
-          devices ? `Devices: ${devices.join(', ')}` : '',
-          '',
-          'Available devices:',
-          ...IOS_SCREENSHOT_SIZES.map(s => `  - ${s.name} (${s.device})`)
-        ].join('\n');
+        throw new Error(
+          `No matching devices found. Available devices: ${IOS_SCREENSHOT_SIZES.map(s => `${s.name} (${s.device})`).join(', ')}`
+        );
       }
 
       const savedPaths: string[] = [];
@@ -102,7 +98,7 @@ export const generateScreenshotsTool: ToolDefinition = tool({
         for (const size of targetSizes) {
           // Create device-specific directory
           const deviceDir = path.join(outputDir, size.name);
-          await ensureDirectory(deviceDir);
+          await ensureOutputDirectory(deviceDir);
 
           // Resize image to device dimensions
           // Using 'cover' fit mode to fill the screen without letterboxing
@@ -112,34 +108,21 @@ export const generateScreenshotsTool: ToolDefinition = tool({
           });
 
           // Save screenshot
-          const filename = `screenshot-${size.name}.png`;
-          const filepath = path.join(deviceDir, filename);
-
-          // Save using our file handler (it returns the path)
-          await saveImage(resizedBuffer, deviceDir, `screenshot-${size.name}`, 0);
+          const filepath = await saveImage(resizedBuffer, deviceDir, `screenshot-${size.name}`, 0, {
+            tool: 'generate_app_screenshots',
+            options: { width: size.width, height: size.height },
+            inputs: [source],
+          });
           savedPaths.push(filepath);
         }
-
-        return [
-          `✓ Successfully resized image to ${targetSizes.length} device screenshot(s)`,
-          '',
-          `Source: ${source}`,
-          `Mode: Resize from image`,
-          '',
-          'Generated screenshots:',
-          ...savedPaths.map((p, i) => `  ${i + 1}. ${p}`),
-          '',
-          `Output directory: ${outputDir}`
-        ].join('\n');
-
       } else {
-        // Mode 2: Generate visuals from code/design description via Gemini
-        const provider = new GeminiProvider();
+        // Mode 2: Generate visuals from code/design description via the provider
+        const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_app_screenshots' });
 
         for (const size of targetSizes) {
           // Create device-specific directory
           const deviceDir = path.join(outputDir, size.name);
-          await ensureDirectory(deviceDir);
+          await ensureOutputDirectory(deviceDir);
 
           // Generate screenshot for this specific device size
           const prompt = [
@@ -152,7 +135,8 @@ export const generateScreenshotsTool: ToolDefinition = tool({
 
           const imageBuffers = await provider.generateImage(prompt, {
             aspectRatio: size.width > size.height ? '9:16' : '16:9',
-            count: 1
+            count: 1,
+            retry
           });
 
           const buffer = imageBuffers[0];
@@ -167,55 +151,22 @@ export const generateScreenshotsTool: ToolDefinition = tool({
           });
 
           // Save screenshot
-          const filepath = await saveImage(resizedBuffer, deviceDir, `screenshot-${size.name}`, 0);
+          const filepath = await saveImage(resizedBuffer, deviceDir, `screenshot-${size.name}`, 0, {
+            tool: 'generate_app_screenshots',
+            prompt,
+            provider: provider.name,
+            model: provider.modelFor('image'),
+            options: { width: size.width, height: size.height, addDeviceFrame },
+          });
           savedPaths.push(filepath);
         }
-
-        return [
-          `✓ Successfully generated ${targetSizes.length} screenshot(s) from description`,
-          '',
-          `Description: "${source}"`,
-          `Mode: Generated via Gemini`,
-          '',
-          'Generated screenshots:',
-          ...savedPaths.map((p, i) => `  ${i + 1}. ${p}`),
-          '',
-          `Output directory: ${outputDir}`
-        ].join('\n');
-      }
-
-    } catch (error) {
-      // Handle errors with user-friendly messages
-      if (error instanceof Error) {
-        if (error.message.includes('GEMINI_API_KEY')) {
-          return [
-            '✗ Error: Gemini API key not found',
-            '',
-            'Please set your GEMINI_API_KEY environment variable.',
-            'Get your API key at: https://makersuite.google.com/app/apikey'
-          ].join('\n');
-        }
-
-        if (error.message.includes('ENOENT') || error.message.includes('no such file')) {
-          return [
-            '✗ Error: Source image file not found',
-            '',
-            `Path: ${args.source}`,
-            '',
-            'Please check the file path and try again.'
-          ].join('\n');
-        }
-
-        return [
-          '✗ Screenshot generation failed',
-          '',
-          `Error: ${error.message}`,
-          '',
-          'Please check your inputs and try again.'
-        ].join('\n');
       }
 
-      return '✗ Screenshot generation failed with an unknown error';
-    }
+      return {
+        summary: `Generated ${savedPaths.length} App Store screenshot(s) in ${outputDir}`,
+        files: savedPaths,
+        data: { mode: sourceType, outputDir },
+      };
+    });
   }
 });
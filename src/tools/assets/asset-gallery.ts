@@ -0,0 +1,264 @@
+/**
+ * Asset Gallery Tool
+ *
+ * Builds a static HTML page for reviewing generated assets without opening
+ * each file. Assets are grouped by the tool that made them and the day they
+ * were made, with thumbnails, video posters, dimensions, sizes and the prompt
+ * from each asset's provenance.
+ */
+
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { createHash } from 'crypto';
+import { readdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { runTool, getMimeType } from '../result.js';
+import { checkOutputPath, ensureOutputDirectory, getOutputDir, getOverwritePolicy } from '../../utils/file-handler.js';
+import { readProvenance } from '../../utils/provenance.js';
+import { escapeXml } from '../../utils/markup.js';
+import { checkFfmpegInstalled, extractFrame, getVideoInfo } from '../../utils/ffmpeg.js';
+import { createTempWorkspace } from '../../utils/temp-workspace.js';
+
+export interface GalleryAsset {
+  /** Asset path */
+  file: string;
+  kind: 'image' | 'video';
+  /** Tool that made the asset, or "other" without provenance */
+  tool: string;
+  /** Day the asset was made (YYYY-MM-DD) */
+  date: string;
+  createdAt: string;
+  prompt?: string;
+  width?: number;
+  height?: number;
+  /** Video length in seconds */
+  duration?: number;
+  bytes: number;
+  /** Thumbnail or poster written for the gallery */
+  thumbnail?: string;
+}
+
+export interface AssetGalleryOptions {
+  /** Directory to scan (default: the output directory) */
+  dir?: string;
+  /** Where to write the page (default: <dir>/gallery/index.html) */
+  outputPath?: string;
+  /** Thumbnail width in pixels (default: 320) */
+  thumbnailWidth?: number;
+}
+
+export interface AssetGalleryResult {
+  htmlPath: string;
+  assets: GalleryAsset[];
+  /** Problems that didn't stop the gallery (e.g. no FFmpeg for video posters) */
+  warnings: string[];
+}
+
+/**
+ * Find image and video files below a directory
+ *
+ * Skips hidden directories (such as the asset history) and the gallery's
+ * thumbnails, wherever the page is written.
+ */
+async function findAssets(dir: string, skipDir: string): Promise<string[]> {
+  const found: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    if (entry.isDirectory()) {
+      if (path.resolve(entryPath) !== path.resolve(skipDir)) {
+        found.push(...(await findAssets(entryPath, skipDir)));
+      }
+    } else if (/^(image|video)\//.test(getMimeType(entry.name)) && getMimeType(entry.name) !== 'image/svg+xml') {
+      found.push(entryPath);
+    }
+  }
+  return found;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Build a gallery page for the assets in a directory
+ *
+ * @param options Directory, output path and thumbnail size
+ * @returns Page path, the assets on it and any warnings
+ */
+export async function buildAssetGallery(options: AssetGalleryOptions = {}): Promise<AssetGalleryResult> {
+  const dir = options.dir || getOutputDir();
+  const htmlPath = options.outputPath || path.join(dir, 'gallery', 'index.html');
+  const galleryDir = path.dirname(htmlPath);
+  const thumbsDir = path.join(galleryDir, 'thumbs');
+  const thumbnailWidth = options.thumbnailWidth ?? 320;
+  const warnings: string[] = [];
+
+  // The default page and the thumbnails are rebuilt every time, so they're
+  // replaced; a page path the agent chose may hold someone's file
+  await checkOutputPath(htmlPath, options.outputPath ? getOverwritePolicy() : 'replace');
+  await ensureOutputDirectory(thumbsDir);
+  const files = await findAssets(dir, thumbsDir);
+  const ffmpeg = files.some((file) => getMimeType(file).startsWith('video/')) && (await checkFfmpegInstalled());
+  if (!ffmpeg && files.some((file) => getMimeType(file).startsWith('video/'))) {
+    warnings.push('FFmpeg is not installed; videos are shown without posters or dimensions');
+  }
+
+  // Full-size poster frames are only needed until they're thumbnailed
+  const workspace = ffmpeg ? await createTempWorkspace('gallery') : undefined;
+  const assets: GalleryAsset[] = [];
+  try {
+    for (const file of files) {
+      const kind = getMimeType(file).startsWith('video/') ? 'video' : 'image';
+      const { size, mtime } = await stat(file);
+      const provenance = await readProvenance(file);
+      const createdAt = provenance?.createdAt ?? mtime.toISOString();
+      const thumbnail = path.join(thumbsDir, `${createHash('sha256').update(path.resolve(file)).digest('hex').slice(0, 16)}.png`);
+
+      const asset: GalleryAsset = {
+        file,
+        kind,
+        tool: provenance?.tool ?? 'other',
+        date: createdAt.slice(0, 10),
+        createdAt,
+        ...(provenance?.prompt && { prompt: provenance.prompt }),
+        bytes: size,
+      };
+
+      try {
+        if (kind === 'image') {
+          const image = sharp(file);
+          const { width, height } = await image.metadata();
+          Object.assign(asset, { width, height });
+          await image.resize({ width: thumbnailWidth, withoutEnlargement: true }).png().toFile(thumbnail);
+          asset.thumbnail = thumbnail;
+        } else if (ffmpeg) {
+          const info = await getVideoInfo(file);
+          Object.assign(asset, info);
+          const poster = workspace!.file(path.basename(thumbnail));
+          await extractFrame(file, poster, Math.min(1, info.duration / 2));
+          await sharp(poster).resize({ width: thumbnailWidth, withoutEnlargement: true }).png().toFile(thumbnail);
+          asset.thumbnail = thumbnail;
+        }
+      } catch (error) {
+        warnings.push(`No thumbnail for ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      assets.push(asset);
+    }
+  } finally {
+    await workspace?.dispose();
+  }
+
+  await writeFile(htmlPath, renderGallery(assets, galleryDir, dir));
+  return { htmlPath, assets, warnings };
+}
+
+/**
+ * Render the gallery page
+ *
+ * Links are relative to the page so the gallery can be opened from disk or
+ * committed next to the assets.
+ */
+function renderGallery(assets: GalleryAsset[], galleryDir: string, dir: string): string {
+  const link = (file: string) => escapeXml(path.relative(galleryDir, file).split(path.sep).join('/'));
+
+  const byTool = new Map<string, GalleryAsset[]>();
+  for (const asset of assets) {
+    byTool.set(asset.tool, [...(byTool.get(asset.tool) ?? []), asset]);
+  }
+
+  const card = (asset: GalleryAsset) => {
+    const details = [
+      asset.width && asset.height ? `${asset.width}×${asset.height}` : undefined,
+      asset.duration ? `${asset.duration.toFixed(1)}s` : undefined,
+      formatBytes(asset.bytes),
+    ].filter(Boolean);
+    const preview = asset.thumbnail
+      ? `<img src="${link(asset.thumbnail)}" alt="" loading="lazy">`
+      : `<div class="placeholder">${asset.kind}</div>`;
+    return `<figure class="${asset.kind}">
+  <a href="${link(asset.file)}">${preview}</a>
+  <figcaption>
+    <strong>${escapeXml(path.relative(dir, asset.file))}</strong>
+    <span class="meta">${details.join(' · ')} · ${escapeXml(asset.createdAt.slice(11, 16))}</span>
+    ${asset.prompt ? `<p class="prompt" title="${escapeXml(asset.prompt)}">${escapeXml(asset.prompt)}</p>` : ''}
+  </figcaption>
+</figure>`;
+  };
+
+  const sections = [...byTool.keys()].sort().map((toolName) => {
+    const byDate = new Map<string, GalleryAsset[]>();
+    for (const asset of byTool.get(toolName)!) {
+      byDate.set(asset.date, [...(byDate.get(asset.date) ?? []), asset]);
+    }
+    const days = [...byDate.keys()].sort().reverse().map((date) => {
+      const dayAssets = byDate.get(date)!.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      return `<h3>${escapeXml(date)}</h3>\n<div class="grid">\n${dayAssets.map(card).join('\n')}\n</div>`;
+    });
+    return `<section>\n<h2>${escapeXml(toolName)} <small>${byTool.get(toolName)!.length}</small></h2>\n${days.join('\n')}\n</section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Generated assets</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; background: #fafafa; color: #222; }
+  h2 small { color: #888; font-weight: normal; }
+  h3 { color: #555; font-size: 1rem; margin-top: 1.5rem; }
+  .grid { display: grid; grid-template-columns: repeat(auto-fill, minmax(240px, 1fr)); gap: 1rem; }
+  figure { margin: 0; background: #fff; border: 1px solid #e5e5e5; border-radius: 8px; overflow: hidden; }
+  figure img, .placeholder { display: block; width: 100%; height: 180px; object-fit: contain; background: #f0f0f0; }
+  .placeholder { display: flex; align-items: center; justify-content: center; color: #999; }
+  figure.video a { position: relative; display: block; }
+  figure.video a::after { content: '▶'; position: absolute; left: 8px; bottom: 8px; color: #fff; text-shadow: 0 0 4px #000; }
+  figcaption { padding: 0.5rem 0.75rem; font-size: 0.85rem; }
+  figcaption strong { display: block; word-break: break-all; }
+  .meta { color: #777; }
+  .prompt { margin: 0.4rem 0 0; color: #444; display: -webkit-box; -webkit-line-clamp: 3; -webkit-box-orient: vertical; overflow: hidden; }
+</style>
+</head>
+<body>
+<h1>Generated assets <small>${assets.length}</small></h1>
+${sections.join('\n') || '<p>No assets found.</p>'}
+</body>
+</html>
+`;
+}
+
+/**
+ * Tool definition for build_asset_gallery
+ */
+export const buildAssetGalleryTool: ToolDefinition = tool({
+  description:
+    'Build a static HTML gallery of generated images and videos, grouped by tool and date, ' +
+    'with thumbnails, video posters, dimensions, sizes and prompts for design review.',
+  args: {
+    dir: tool.schema.string().optional().describe('Directory to scan (default: the output directory)'),
+    outputPath: tool.schema
+      .string()
+      .optional()
+      .describe('Where to write the page (default: gallery/index.html in the scanned directory)'),
+  },
+  async execute(args, _context) {
+    return runTool(async ({ warn }) => {
+      const gallery = await buildAssetGallery({ dir: args.dir, outputPath: args.outputPath });
+      gallery.warnings.forEach(warn);
+
+      const tools: Record<string, number> = {};
+      for (const asset of gallery.assets) {
+        tools[asset.tool] = (tools[asset.tool] ?? 0) + 1;
+      }
+      return {
+        summary: `Built gallery of ${gallery.assets.length} asset(s): ${gallery.htmlPath}`,
+        files: [gallery.htmlPath],
+        data: { assets: gallery.assets.length, tools },
+      };
+    });
+  },
+});
@@ -0,0 +1,83 @@
+/**
+ * Diff Asset Versions Tool
+ *
+ * Renders two versions of an image asset side by side so a regeneration or
+ * edit can be reviewed before keeping or rolling it back.
+ */
+
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { runTool } from '../result.js';
+import { checkOutputPath, ensureDirectory, getHistoryDir, getOutputDir, getOverwritePolicy } from '../../utils/file-handler.js';
+import { getVersion, listVersions } from '../../utils/asset-history.js';
+import { getMetadata, sideBySide } from '../../utils/image-processing.js';
+
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp'];
+
+/**
+ * Tool definition for diff_asset_versions
+ */
+export const diffAssetVersionsTool: ToolDefinition = tool({
+  description:
+    'Compare two versions of an image asset in a side-by-side image. ' +
+    'Defaults to the previous version against the latest.',
+  args: {
+    id: tool.schema.string().describe('Logical asset ID from the manifest'),
+    from: tool.schema.number().int().positive().optional().describe('Older version (default: the one before "to")'),
+    to: tool.schema.number().int().positive().optional().describe('Newer version (default: latest)'),
+    outputPath: tool.schema
+      .string()
+      .optional()
+      .describe('Where to save the comparison (default: diffs/ in the output directory)'),
+  },
+  async execute(args, _context) {
+    return runTool(async () => {
+      const historyDir = getHistoryDir();
+      const versions = await listVersions(historyDir, args.id);
+      const latest = versions[versions.length - 1];
+      if (!latest) {
+        throw new Error(`No versions recorded for ${args.id}`);
+      }
+
+      const toNumber = args.to ?? latest.version;
+      const fromNumber = args.from ?? versions.filter((v) => v.version < toNumber).pop()?.version;
+      if (fromNumber === undefined) {
+        throw new Error(`${args.id} has no version before v${toNumber} to compare with`);
+      }
+
+      const [from, to] = await Promise.all([
+        getVersion(historyDir, args.id, fromNumber),
+        getVersion(historyDir, args.id, toNumber),
+      ]);
+      if (!IMAGE_EXTENSIONS.includes(path.extname(to.file).toLowerCase())) {
+        throw new Error(`Side-by-side diffs are only available for images, not ${to.file}`);
+      }
+
+      const [fromBuffer, toBuffer] = await Promise.all([readFile(from.path), readFile(to.path)]);
+      const [fromMeta, toMeta] = await Promise.all([getMetadata(fromBuffer), getMetadata(toBuffer)]);
+      const comparison = await sideBySide(fromBuffer, toBuffer, {
+        labels: [`v${from.version}`, `v${to.version}`],
+      });
+
+      const outputPath =
+        args.outputPath ||
+        path.join(getOutputDir(), 'diffs', `${path.basename(args.id)}-v${from.version}-v${to.version}.png`);
+      // A path the agent chose may hold someone's file; the default one is rebuilt on every diff
+      await checkOutputPath(outputPath, args.outputPath ? getOverwritePolicy() : 'replace');
+      await ensureDirectory(path.dirname(outputPath));
+      await writeFile(outputPath, comparison);
+
+      return {
+        summary: `Compared ${args.id} v${from.version} with v${to.version}: ${outputPath}`,
+        files: [outputPath],
+        data: {
+          id: args.id,
+          identical: from.sha256 === to.sha256,
+          from: { version: from.version, width: fromMeta.width, height: fromMeta.height, bytes: from.bytes, prompt: from.prompt },
+          to: { version: to.version, width: toMeta.width, height: toMeta.height, bytes: to.bytes, prompt: to.prompt },
+        },
+      };
+    });
+  },
+});
@@ -0,0 +1,47 @@
+/**
+ * List Asset Versions Tool
+ *
+ * Shows the saved versions of a logical asset from the asset history, or every
+ * asset in the manifest with its current version.
+ */
+
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { runTool } from '../result.js';
+import { getHistoryDir, getManifestPath } from '../../utils/file-handler.js';
+import { readManifest } from '../../utils/manifest.js';
+import { listVersions } from '../../utils/asset-history.js';
+
+/**
+ * Tool definition for list_asset_versions
+ */
+export const listAssetVersionsTool: ToolDefinition = tool({
+  description:
+    'List the saved versions of a generated asset (e.g. "app-icons/ios/AppIcon.appiconset/Icon-1024" ' +
+    'or "acme-banner"). Without an ID, lists every asset in the manifest with its current version.',
+  args: {
+    id: tool.schema.string().optional().describe('Logical asset ID from the manifest'),
+  },
+  async execute(args, _context) {
+    return runTool(async () => {
+      const manifest = await readManifest(getManifestPath());
+
+      if (!args.id) {
+        const assets = Object.entries(manifest.assets)
+          .sort(([a], [b]) => a.localeCompare(b))
+          .map(([id, entry]) => ({ id, path: entry.path, version: entry.version, updatedAt: entry.updatedAt }));
+        return { summary: `${assets.length} asset(s) in the manifest`, data: { assets } };
+      }
+
+      const entry = manifest.assets[args.id];
+      if (!entry) {
+        throw new Error(`Unknown asset ID: ${args.id}`);
+      }
+
+      const versions = await listVersions(getHistoryDir(), args.id);
+      return {
+        summary: `${args.id} has ${versions.length} version(s); current is v${entry.version ?? '?'}`,
+        data: { id: args.id, path: entry.path, current: entry.version, versions },
+      };
+    });
+  },
+});
@@ -0,0 +1,33 @@
+/**
+ * Restore Asset Version Tool
+ *
+ * Rolls a generated asset back to an earlier version from the asset history.
+ * The rollback is saved as a new version, so it can be undone the same way.
+ */
+
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { runTool } from '../result.js';
+import { restoreAssetVersion } from '../../utils/file-handler.js';
+
+/**
+ * Tool definition for restore_asset_version
+ */
+export const restoreAssetVersionTool: ToolDefinition = tool({
+  description:
+    'Roll a generated asset back to an earlier version, e.g. after a bad edit. ' +
+    'Use list_asset_versions to find the version number.',
+  args: {
+    id: tool.schema.string().describe('Logical asset ID from the manifest'),
+    version: tool.schema.number().int().positive().describe('Version to restore'),
+  },
+  async execute(args, _context) {
+    return runTool(async () => {
+      const restored = await restoreAssetVersion(args.id, args.version);
+      return {
+        summary: `Restored ${args.id} to v${args.version} (saved as v${restored.version.version})`,
+        files: [restored.path],
+        data: { id: args.id, restoredFrom: args.version, version: restored.version.version },
+      };
+    });
+  },
+});
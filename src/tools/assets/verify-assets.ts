@@ -0,0 +1,57 @@
+/**
+ * Verify Assets Tool
+ *
+ * Checks generated assets against the asset manifest and reports files that
+ * are missing, were modified after generation, or are stale because a source
+ * input changed.
+ */
+
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { runTool } from '../result.js';
+import { getManifestPath } from '../../utils/file-handler.js';
+import { verifyManifest } from '../../utils/manifest.js';
+
+/**
+ * Tool definition for verify_assets
+ */
+export const verifyAssetsTool: ToolDefinition = tool({
+  description:
+    'Verify generated assets against the asset manifest. Reports assets that are missing, ' +
+    'were modified since generation, or are stale because a source image changed.',
+  args: {
+    ids: tool.schema
+      .array(tool.schema.string())
+      .optional()
+      .describe('Asset IDs to check, e.g. ["acme-banner"] (default: every asset in the manifest)'),
+    manifestPath: tool.schema
+      .string()
+      .optional()
+      .describe('Path to the manifest (default: manifest.json in the output directory)'),
+  },
+  async execute(args, _context) {
+    return runTool(async ({ warn }) => {
+      const report = await verifyManifest(args.manifestPath || getManifestPath(), args.ids);
+      const { ok, missing, modified, stale } = report.counts;
+
+      for (const asset of report.assets) {
+        if (asset.status === 'stale') {
+          warn(`${asset.id} is stale: ${asset.changedInputs!.join(', ')} changed`);
+        } else if (asset.status !== 'ok') {
+          warn(`${asset.id} is ${asset.status} (${asset.path})`);
+        }
+      }
+
+      return {
+        summary:
+          `Verified ${report.assets.length} asset(s): ${ok} ok, ${missing} missing, ` +
+          `${modified} modified, ${stale} stale`,
+        data: {
+          manifestPath: report.manifestPath,
+          clean: ok === report.assets.length,
+          counts: report.counts,
+          problems: report.assets.filter((asset) => asset.status !== 'ok'),
+        },
+      };
+    });
+  },
+});
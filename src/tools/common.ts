@@ -0,0 +1,23 @@
+/**
+ * Tool Helpers
+ *
+ * Shared by every tool the plugin exposes. Results are built in ./result.ts.
+ */
+
+import { getProviderRegistration } from '../providers/registry.js';
+
+/**
+ * Get the API key, failing early when the configured provider needs one
+ *
+ * @returns GEMINI_API_KEY, or an empty string for providers that don't need a key
+ */
+export function getApiKey(): string {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey && getProviderRegistration().requiresApiKey) {
+    throw new Error(
+      'GEMINI_API_KEY environment variable is required. ' +
+        'Get one at https://aistudio.google.com/app/apikey'
+    );
+  }
+  return apiKey || '';
+}
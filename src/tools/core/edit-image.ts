@@ -6,7 +6,9 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
 import { loadImage, saveImage, getOutputDir } from '../../utils/file-handler.js';
 import path from 'path';
 
@@ -18,7 +20,8 @@ const editImageArgs = {
   editPrompt: tool.schema.string().describe('Natural language instructions for how to edit the image'),
   outputPath: tool.schema.string()
     .optional()
-    .describe('Custom output directory path. Defaults to "./generated-assets"')
+    .describe('Custom output directory path. Defaults to "./generated-assets"'),
+  noCache: tool.schema.boolean().optional().describe('Skip the result cache and always call the provider')
 } as const;
 
 /**
@@ -30,90 +33,40 @@ export const editImageTool: ToolDefinition = tool({
   args: editImageArgs,
 
   async execute(args, _context) {
-    try {
-      // Initialize Gemini provider
-      const provider = new GeminiProvider();
+    return runTool(async ({ retry }) => {
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'edit_image' });
 
       // Extract parameters
       const {
         imagePath,
         editPrompt,
-        outputPath
+        outputPath,
+        noCache
       } = args;
 
       // Determine output directory
-      const outputDir = outputPath || getOutputDir();
+      const outputDir = outputPath || getOutputDir('edit_image');
 
-      // Load source image
-      let sourceBuffer: Buffer;
-      try {
-        sourceBuffer = await loadImage(imagePath);
-      } catch (loadError) {
-        return [
-          '✗ Failed to load source image',
-          '',
-          `Error: ${loadError instanceof Error ? loadError.message : 'Unknown error'}`,
-          '',
-          `Image path: ${imagePath}`,
-          'Please check that the file exists and is accessible.'
-        ].join('\n');
-      }
+      // Load source image and apply the edit
+      const sourceBuffer = await loadImage(imagePath);
+      const resultBuffer = await provider.editImage(sourceBuffer, editPrompt, { retry, noCache });
 
-      // Edit image using Gemini
-      const editedBuffer = await provider.editImage(sourceBuffer, editPrompt);
-
-      // Generate output filename with '_edited' suffix
+      // Save with '_edited' suffix
       const parsedPath = path.parse(imagePath);
-      const baseFilename = parsedPath.name;
-      const editedPrompt = `${baseFilename}_edited`;
-
-      // Save edited image
-      const savedPath = await saveImage(editedBuffer, outputDir, editedPrompt, 0);
-
-      // Build success message
-      return [
-        `✓ Successfully edited image`,
-        ``,
-        `Source: ${imagePath}`,
-        `Edit instruction: "${editPrompt}"`,
-        ``,
-        `Saved to: ${savedPath}`,
-        `Output directory: ${outputDir}`
-      ].join('\n');
-
-    } catch (error) {
-      // Handle errors with user-friendly messages
-      if (error instanceof Error) {
-        if (error.message.includes('GEMINI_API_KEY')) {
-          return [
-            '✗ Error: Gemini API key not found',
-            '',
-            'Please set your GEMINI_API_KEY environment variable.',
-            'Get your API key at: https://makersuite.google.com/app/apikey'
-          ].join('\n');
-        }
-
-        if (error.message.includes('No edited image was returned')) {
-          return [
-            '✗ Image editing failed',
-            '',
-            'Gemini did not return an edited image.',
-            'This may happen if the edit prompt is unclear or not supported.',
-            '',
-            'Try rephrasing your edit instruction with more specific details.'
-          ].join('\n');
-        }
-
-        return [
-          '✗ Image editing failed',
-          '',
-          `Error: ${error.message}`,
-          '',
-          'Please check your image path and edit prompt, then try again.'
-        ].join('\n');
-      }
-
-      return '✗ Image editing failed with an unknown error';
-    }
+      const savedPath = await saveImage(resultBuffer, outputDir, `${parsedPath.name}_edited`, 0, {
+        tool: 'edit_image',
+        prompt: editPrompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        inputs: [imagePath],
+      });
+
+      return {
+        summary: `Edited ${imagePath} to ${savedPath}`,
+        files: [savedPath],
+        data: { source: imagePath },
+      };
+    });
   }
 });
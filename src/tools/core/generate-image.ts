@@ -2,118 +2,70 @@
  * Generate Image Tool
  *
  * Creates images from text prompts using Google Gemini's Imagen model.
- * Supports batch generation, aspect ratio control, and custom output paths.
+ * Supports aspect ratio control and custom output paths.
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
-import { saveImage, getOutputDir } from '../../utils/file-handler.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { getProjectConfig } from '../../config/project-config.js';
+import { getDefaultOutputPath, writeAsset } from '../../utils/file-handler.js';
 
 /**
  * Tool args schema
  */
 const generateImageArgs = {
-  prompt: tool.schema.string().describe('Text description of the image to generate'),
-  aspectRatio: tool.schema.string()
+  prompt: tool.schema.string().describe(
+    'Description of the image to generate. Be specific about style, colors, composition, lighting.'
+  ),
+  aspectRatio: tool.schema
+    .enum(['1:1', '3:4', '4:3', '9:16', '16:9'])
     .optional()
-    .describe('Aspect ratio for the image (e.g., "1:1", "16:9", "9:16"). Defaults to "1:1"'),
-  outputPath: tool.schema.string()
+    .describe('Aspect ratio for the image. Defaults to 1:1 (square)'),
+  outputPath: tool.schema
+    .string()
     .optional()
-    .describe('Custom output directory path. Defaults to "./generated-assets"'),
-  count: tool.schema.number()
-    .int()
-    .min(1)
-    .max(8)
-    .optional()
-    .describe('Number of images to generate (1-8). Defaults to 1')
+    .describe('Path where the image should be saved. If not provided, saves to the output directory'),
+  noCache: tool.schema.boolean().optional().describe('Skip the result cache and always call the provider'),
 } as const;
 
 /**
  * Tool definition for generate_image
  */
 export const generateImageTool: ToolDefinition = tool({
-  description: 'Generate images from text prompts using Gemini Imagen. Supports batch generation (1-8 images), aspect ratio control, and custom output paths.',
+  description:
+    'Generate an image from a text prompt using Google Imagen 3 (Nano Banana - FREE). ' +
+    'Creates high-quality images for icons, illustrations, photos, art, and more. ' +
+    'Supports aspect ratios: 1:1 (square), 3:4, 4:3, 9:16 (portrait), 16:9 (landscape).',
 
   args: generateImageArgs,
 
   async execute(args, _context) {
-    try {
-      // Initialize Gemini provider
-      const provider = new GeminiProvider();
-
-      // Extract parameters with defaults
-      const {
-        prompt,
-        aspectRatio = '1:1',
-        count = 1,
-        outputPath
-      } = args;
-
-      // Determine output directory
-      const outputDir = outputPath || getOutputDir();
-
-      const validAspectRatios = ['1:1', '3:4', '4:3', '9:16', '16:9'] as const;
-      const validAspectRatio = validAspectRatios.includes(aspectRatio as typeof validAspectRatios[number])
-        ? (aspectRatio as typeof validAspectRatios[number])
-        : '1:1';
-
-      const imageBuffers = await provider.generateImage(prompt, {
-        aspectRatio: validAspectRatio,
-        count
+    return runTool(async ({ retry }) => {
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_image' });
+      const aspectRatio = args.aspectRatio ?? getProjectConfig().defaults?.aspectRatio;
+      const result = await provider.generateImageSingle(args.prompt, {
+        aspectRatio,
+        retry,
+        noCache: args.noCache,
       });
 
-      // Save all generated images
-      const savedPaths: string[] = [];
-
-      for (let i = 0; i < imageBuffers.length; i++) {
-        const buffer = imageBuffers[i];
-        if (!buffer) {
-          throw new Error(`Failed to generate image ${i + 1}`);
-        }
-        const filepath = await saveImage(buffer, outputDir, prompt, i);
-        savedPaths.push(filepath);
-      }
-
-      // Build success message
-      const imageWord = count === 1 ? 'image' : 'images';
-      const pathList = savedPaths.map((p, i) => `  ${i + 1}. ${p}`).join('\n');
-
-      return [
-        `✓ Successfully generated ${count} ${imageWord} from prompt: "${prompt}"`,
-        ``,
-        `Saved to:`,
-        pathList,
-        ``,
-        `Aspect ratio: ${aspectRatio}`,
-        `Output directory: ${outputDir}`
-      ].join('\n');
-
-    } catch (error) {
-      // Handle errors with user-friendly messages
-      if (error instanceof Error) {
-        if (error.message.includes('GEMINI_API_KEY')) {
-          return [
-            '✗ Error: Gemini API key not found',
-            '',
-            'Please set your GEMINI_API_KEY environment variable.',
-            'Get your API key at: https://makersuite.google.com/app/apikey'
-          ].join('\n');
-        }
-
-        if (error.message.includes('Count must be between')) {
-          return `✗ Error: ${error.message}`;
-        }
-
-        return [
-          '✗ Image generation failed',
-          '',
-          `Error: ${error.message}`,
-          '',
-          'Please check your prompt and try again.'
-        ].join('\n');
-      }
+      const outputPath =
+        args.outputPath || (await getDefaultOutputPath('generate_image', `image-${Date.now()}.png`));
+      await writeAsset(outputPath, result.buffer, {
+        tool: 'generate_image',
+        prompt: args.prompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { aspectRatio },
+      });
 
-      return '✗ Image generation failed with an unknown error';
-    }
-  }
+      return {
+        summary: `Generated image ${outputPath}`,
+        files: [outputPath],
+        data: { generationTime: `${(result.generationTime / 1000).toFixed(1)}s` },
+      };
+    });
+  },
 });
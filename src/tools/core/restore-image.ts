@@ -6,7 +6,9 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
 import { loadImage, saveImage, getOutputDir } from '../../utils/file-handler.js';
 import path from 'path';
 
@@ -20,7 +22,8 @@ const restoreImageArgs = {
     .describe('Optional custom restoration instructions. Defaults to "restore and enhance this image"'),
   outputPath: tool.schema.string()
     .optional()
-    .describe('Custom output directory path. Defaults to "./generated-assets"')
+    .describe('Custom output directory path. Defaults to "./generated-assets"'),
+  noCache: tool.schema.boolean().optional().describe('Skip the result cache and always call the provider')
 } as const;
 
 /**
@@ -32,90 +35,40 @@ export const restoreImageTool: ToolDefinition = tool({
   args: restoreImageArgs,
 
   async execute(args, _context) {
-    try {
-      // Initialize Gemini provider
-      const provider = new GeminiProvider();
+    return runTool(async ({ retry }) => {
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'restore_image' });
 
       // Extract parameters
       const {
         imagePath,
         instructions = 'restore and enhance this image',
-        outputPath
+        outputPath,
+        noCache
       } = args;
 
       // Determine output directory
-      const outputDir = outputPath || getOutputDir();
+      const outputDir = outputPath || getOutputDir('restore_image');
 
-      // Load source image
-      let sourceBuffer: Buffer;
-      try {
-        sourceBuffer = await loadImage(imagePath);
-      } catch (loadError) {
-        return [
-          '✗ Failed to load source image',
-          '',
-          `Error: ${loadError instanceof Error ? loadError.message : 'Unknown error'}`,
-          '',
-          `Image path: ${imagePath}`,
-          'Please check that the file exists and is accessible.'
-        ].join('\n');
-      }
+      // Load source image and apply the restoration
+      const sourceBuffer = await loadImage(imagePath);
+      const resultBuffer = await provider.editImage(sourceBuffer, instructions, { retry, noCache });
 
-      // Restore image using Gemini editImage method
-      const restoredBuffer = await provider.editImage(sourceBuffer, instructions);
-
-      // Generate output filename with '_restored' suffix
+      // Save with '_restored' suffix
       const parsedPath = path.parse(imagePath);
-      const baseFilename = parsedPath.name;
-      const restoredPrompt = `${baseFilename}_restored`;
-
-      // Save restored image
-      const savedPath = await saveImage(restoredBuffer, outputDir, restoredPrompt, 0);
-
-      // Build success message
-      return [
-        `✓ Successfully restored image`,
-        ``,
-        `Source: ${imagePath}`,
-        `Restoration instruction: "${instructions}"`,
-        ``,
-        `Saved to: ${savedPath}`,
-        `Output directory: ${outputDir}`
-      ].join('\n');
-
-    } catch (error) {
-      // Handle errors with user-friendly messages
-      if (error instanceof Error) {
-        if (error.message.includes('GEMINI_API_KEY')) {
-          return [
-            '✗ Error: Gemini API key not found',
-            '',
-            'Please set your GEMINI_API_KEY environment variable.',
-            'Get your API key at: https://makersuite.google.com/app/apikey'
-          ].join('\n');
-        }
-
-        if (error.message.includes('No edited image was returned')) {
-          return [
-            '✗ Image restoration failed',
-            '',
-            'Gemini did not return a restored image.',
-            'This may happen if the image cannot be processed or the format is unsupported.',
-            '',
-            'Try using a different image format (PNG, JPEG) or check if the image is corrupted.'
-          ].join('\n');
-        }
-
-        return [
-          '✗ Image restoration failed',
-          '',
-          `Error: ${error.message}`,
-          '',
-          'Please check your image path and try again.'
-        ].join('\n');
-      }
-
-      return '✗ Image restoration failed with an unknown error';
-    }
+      const savedPath = await saveImage(resultBuffer, outputDir, `${parsedPath.name}_restored`, 0, {
+        tool: 'restore_image',
+        prompt: instructions,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        inputs: [imagePath],
+      });
+
+      return {
+        summary: `Restored ${imagePath} to ${savedPath}`,
+        files: [savedPath],
+        data: { source: imagePath },
+      };
+    });
   }
 });
@@ -1,5 +1,7 @@
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
 import { loadImage } from '../../utils/file-handler.js';
 
 export const mockupToCodeTool: ToolDefinition = tool({
@@ -11,47 +13,34 @@ export const mockupToCodeTool: ToolDefinition = tool({
     componentName: tool.schema.string().optional().describe('Name for the generated component (optional)'),
   } as const,
   async execute(args, _context) {
-    try {
+    return runTool(async ({ retry }) => {
       const { imagePath, framework, styling, componentName } = args;
+      const name = componentName || getDefaultComponentName(framework);
+
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'mockup_to_code' });
 
       // Load the mockup image
       const imageBuffer = await loadImage(imagePath);
 
       // Build comprehensive prompt for code generation
-      const prompt = buildCodeGenerationPrompt(framework, styling, componentName);
-
-      // Use Gemini to analyze mockup and generate code
-      const gemini = new GeminiProvider();
-      const generatedCode = await gemini.analyzeImage(imageBuffer, prompt);
-
-      // Format response
-      return `✓ Code generated from mockup: ${imagePath}
-
-Framework: ${framework}${styling ? ` with ${styling}` : ''}
-${componentName ? `Component: ${componentName}\n` : ''}
-${generatedCode}
+      const prompt = buildCodeGenerationPrompt(framework, styling, name);
 
-Note: Review and adjust the generated code to match your project's specific requirements and coding standards.`;
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      // Analyze the mockup and generate code
+      const code = await provider.analyzeImage(imageBuffer, prompt, { retry });
 
-      if (errorMessage.includes('API key')) {
-        return '✗ Error: GEMINI_API_KEY environment variable not set. Please configure your API key.';
-      }
-
-      if (errorMessage.includes('ENOENT') || errorMessage.includes('no such file')) {
-        return `✗ Error: Image file not found at path: ${args.imagePath}`;
-      }
-
-      return `✗ Error generating code from mockup: ${errorMessage}`;
-    }
+      return {
+        summary: `Generated ${framework} component ${name} from ${imagePath}`,
+        data: { framework, ...(styling && { styling }), componentName: name, code },
+      };
+    });
   }
 });
 
 /**
  * Build framework-specific code generation prompt
  */
-function buildCodeGenerationPrompt(
+export function buildCodeGenerationPrompt(
   framework: 'react' | 'vue' | 'swiftui' | 'html',
   styling?: 'tailwind' | 'css' | 'styled-components',
   componentName?: string
@@ -6,7 +6,10 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { getDefaultStyle, getBrandPrompt } from '../../config/project-config.js';
 import { saveImage, getOutputDir } from '../../utils/file-handler.js';
 
 /**
@@ -113,44 +116,35 @@ export const generateArchitectureDiagramTool: ToolDefinition = tool({
   args: architectureDiagramArgs,
 
   async execute(args, _context) {
-    try {
+    return runTool(async ({ retry, warn }) => {
       const {
         description,
-        style = 'technical',
+        style = getDefaultStyle('generate_architecture_diagram') || 'technical',
         format = 'png',
         outputPath
       } = args;
 
-      // Handle Mermaid format separately (no Gemini needed)
+      // Handle Mermaid format separately (no provider needed)
       if (format === 'mermaid') {
-        const mermaidCode = generateMermaidDiagram(description);
-        return [
-          '✓ Generated Mermaid diagram code',
-          '',
-          mermaidCode,
-          '',
-          'Note: Mermaid diagrams are text-based and can be rendered in:',
-          '  • GitHub markdown files',
-          '  • Mermaid Live Editor (https://mermaid.live)',
-          '  • Documentation tools that support Mermaid',
-          '',
-          'For visual diagrams, use format: "png" or "svg"'
-        ].join('\n');
+        return {
+          summary: 'Generated Mermaid architecture diagram',
+          data: { format, mermaid: generateMermaidDiagram(description) },
+        };
       }
 
-      // For PNG/SVG formats, use Gemini
-      const provider = new GeminiProvider();
-      const outputDir = outputPath || getOutputDir();
+      // For PNG/SVG formats, use the image model
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_architecture_diagram' });
+      const outputDir = outputPath || getOutputDir('generate_architecture_diagram');
 
       // Build architecture-specific prompt
-      const prompt = buildArchitecturePrompt(description, style);
+      const prompt = buildArchitecturePrompt(description, style) + getBrandPrompt();
 
-      // Generate diagram using Gemini
       // Note: Gemini generates images, SVG support would require post-processing
       // For now, we'll generate PNG for both png and svg formats
       const imageBuffers = await provider.generateImage(prompt, {
         aspectRatio: '16:9', // Wide format for architecture diagrams
-        count: 1
+        count: 1,
+        retry
       });
 
       const buffer = imageBuffers[0];
@@ -158,49 +152,23 @@ export const generateArchitectureDiagramTool: ToolDefinition = tool({
         throw new Error('Failed to generate architecture diagram');
       }
 
-      // Save the diagram
-      const filename = format === 'svg' ? 'architecture-diagram' : 'architecture-diagram';
-      const filepath = await saveImage(buffer, outputDir, filename, 0);
-
-      // SVG note if requested
-      const formatNote = format === 'svg'
-        ? '\n\nNote: Generated as PNG. For true SVG, consider using Mermaid format or converting with external tools.'
-        : '';
-
-      return [
-        '✓ Successfully generated architecture diagram',
-        '',
-        `Saved to: ${filepath}`,
-        '',
-        `Style: ${style}`,
-        `Format: ${format}`,
-        `Description: ${description.slice(0, 100)}${description.length > 100 ? '...' : ''}`,
-        formatNote
-      ].join('\n');
-
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('GEMINI_API_KEY')) {
-          return [
-            '✗ Error: Gemini API key not found',
-            '',
-            'Please set your GEMINI_API_KEY environment variable.',
-            'Get your API key at: https://makersuite.google.com/app/apikey',
-            '',
-            'Alternative: Use format "mermaid" for text-based diagrams (no API key required)'
-          ].join('\n');
-        }
-
-        return [
-          '✗ Architecture diagram generation failed',
-          '',
-          `Error: ${error.message}`,
-          '',
-          'Please check your description and try again.'
-        ].join('\n');
+      const filepath = await saveImage(buffer, outputDir, 'architecture-diagram', 0, {
+        tool: 'generate_architecture_diagram',
+        prompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { style, format, aspectRatio: '16:9' },
+      });
+
+      if (format === 'svg') {
+        warn('Generated as PNG. For true SVG, consider using Mermaid format or converting with external tools.');
       }
 
-      return '✗ Architecture diagram generation failed with an unknown error';
-    }
+      return {
+        summary: `Generated ${style} architecture diagram ${filepath}`,
+        files: [filepath],
+        data: { style, format },
+      };
+    });
   }
 });
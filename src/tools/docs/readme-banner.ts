@@ -1,5 +1,8 @@
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { getDefaultStyle, getBrandPrompt } from '../../config/project-config.js';
 import { saveImage, getOutputDir } from '../../utils/file-handler.js';
 
 /**
@@ -79,54 +82,45 @@ export const generateReadmeBannerTool: ToolDefinition = tool({
   args: readmeBannerArgs,
 
   async execute(args, _context) {
-    try {
-      const projectName = args.projectName as string;
-      const tagline = (args.tagline as string | undefined) || '';
-      const style = (args.style as 'gradient' | 'minimal' | 'tech' | undefined) || 'gradient';
-      const outputPath = args.outputPath as string | undefined;
+    return runTool(async ({ retry }) => {
+      const { projectName, tagline = '', outputPath } = args;
+      const style = args.style || getDefaultStyle('generate_readme_banner') || 'gradient';
 
-      const provider = new GeminiProvider();
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_readme_banner' });
 
       // Build style-specific prompt
-      const prompt = buildBannerPrompt(projectName, tagline, style);
+      const prompt = buildBannerPrompt(projectName, tagline, style) + getBrandPrompt();
 
       // Generate 1280x640 banner (2:1 aspect ratio, standard for GitHub)
       // Use 16:9 as closest available aspect ratio to 2:1 for wide banners
       const images = await provider.generateImage(prompt, {
         aspectRatio: '16:9',
         count: 1,
+        retry,
       });
 
-      if (images.length === 0) {
-        return '❌ Failed to generate README banner';
-      }
-
       const buffer = images[0];
       if (!buffer) {
-        return '❌ Failed to generate README banner';
+        throw new Error('Failed to generate README banner');
       }
 
       // Save the banner
-      const outputDir = outputPath || getOutputDir();
+      const outputDir = outputPath || getOutputDir('generate_readme_banner');
       const filename = `${projectName.toLowerCase().replace(/\s+/g, '-')}-banner`;
 
-      const savedPath = await saveImage(buffer, outputDir, filename, 0);
-
-      return `✅ README banner generated successfully!
-Style: ${style}
-Size: 1280x640 (optimized for GitHub)
-Saved to: ${savedPath}
-
-Add to your README.md:
-![${projectName}](${savedPath})`;
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          return '❌ Gemini API key not configured. Set GEMINI_API_KEY environment variable.';
-        }
-        return `❌ Error generating README banner: ${error.message}`;
-      }
-      return '❌ Unknown error generating README banner';
-    }
+      const savedPath = await saveImage(buffer, outputDir, filename, 0, {
+        tool: 'generate_readme_banner',
+        prompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { style, aspectRatio: '16:9' },
+      });
+
+      return {
+        summary: `Generated ${style} README banner ${savedPath}`,
+        files: [savedPath],
+        data: { style, projectName, markdown: `![${projectName}](${savedPath})` },
+      };
+    });
   },
-} satisfies ToolDefinition);
+});
@@ -6,8 +6,12 @@
  */
 
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool'
-import { GeminiProvider } from '../../providers/gemini.js'
-import { saveImage, getOutputDir } from '../../utils/file-handler.js'
+import { getProvider } from '../../providers/registry.js'
+import { getApiKey } from '../common.js'
+import { runTool } from '../result.js'
+import { getBrandPrompt } from '../../config/project-config.js'
+import { saveImage, writeAsset, getOutputDir } from '../../utils/file-handler.js'
+import type { ProvenanceInput } from '../../utils/provenance.js'
 
 /**
  * Tool args schema
@@ -85,7 +89,7 @@ sequenceDiagram
 /**
  * Build prompt for Gemini
  */
-function buildSequencePrompt(description: string): string {
+export function buildSequencePrompt(description: string): string {
   const basePrompt = `Create a professional sequence diagram showing the following interaction flow:\n\n${description}\n\n`
 
   const requirements = `Requirements:
@@ -116,65 +120,64 @@ export const generateSequenceDiagramTool: ToolDefinition = tool({
   args: sequenceDiagramArgs,
 
   async execute(args, _context) {
-    try {
+    return runTool(async ({ retry }) => {
       const { description, format = 'png', outputPath } = args
 
       // Handle Mermaid format (no API key needed)
       if (format === 'mermaid') {
-        const mermaidCode = generateMermaidSequence(description)
+        const mermaid = generateMermaidSequence(description)
 
         // Save to file if outputPath provided
         if (outputPath) {
-          const fs = await import('fs/promises')
-          await fs.writeFile(outputPath, mermaidCode, 'utf-8')
-          return `✓ Mermaid sequence diagram generated and saved to ${outputPath}\n\nYou can render this diagram on GitHub, in documentation, or using Mermaid Live Editor (https://mermaid.live).`
+          await writeAsset(outputPath, Buffer.from(mermaid, 'utf-8'), {
+            tool: 'generate_sequence_diagram',
+            prompt: description,
+            options: { format },
+          })
         }
 
-        // Return code directly
-        return `✓ Mermaid sequence diagram generated:\n\n${mermaidCode}\n\nYou can render this diagram on GitHub, in documentation, or using Mermaid Live Editor (https://mermaid.live).`
+        return {
+          summary: outputPath
+            ? `Saved Mermaid sequence diagram to ${outputPath}`
+            : 'Generated Mermaid sequence diagram',
+          files: outputPath ? [outputPath] : [],
+          data: { format, mermaid },
+        }
       }
 
-      // Handle PNG format (requires Gemini API)
-      const gemini = new GeminiProvider()
-      const prompt = buildSequencePrompt(description)
+      // Handle PNG format (requires the image model)
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_sequence_diagram' })
+      const prompt = buildSequencePrompt(description) + getBrandPrompt()
 
       // Generate sequence diagram image with 16:9 aspect ratio
-      const images = await gemini.generateImage(prompt, {
+      const images = await provider.generateImage(prompt, {
         aspectRatio: '16:9',
         count: 1,
+        retry,
       })
 
-      if (!images || images.length === 0) {
-        return '✗ Failed to generate sequence diagram image. No images returned from API.'
-      }
-
       const imageBuffer = images[0]
       if (!imageBuffer) {
-        return '✗ Failed to generate sequence diagram image. Image data is missing.'
+        throw new Error('Failed to generate sequence diagram image')
       }
 
       // Save the diagram
+      const provenance: ProvenanceInput = {
+        tool: 'generate_sequence_diagram',
+        prompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { format, aspectRatio: '16:9' },
+      }
       let savePath: string
       if (outputPath) {
-        const fs = await import('fs/promises')
-        const path = await import('path')
-        await fs.mkdir(path.dirname(outputPath), { recursive: true })
-        await fs.writeFile(outputPath, imageBuffer)
-        savePath = outputPath
+        savePath = await writeAsset(outputPath, imageBuffer, provenance)
       } else {
-        const outputDir = getOutputDir()
-        savePath = await saveImage(imageBuffer, outputDir, 'sequence-diagram', 0)
+        const outputDir = getOutputDir('generate_sequence_diagram')
+        savePath = await saveImage(imageBuffer, outputDir, 'sequence-diagram', 0, provenance)
       }
 
-      return `✓ Sequence diagram generated and saved to ${savePath}`
-    } catch (error) {
-      if (error instanceof Error) {
-        if (error.message.includes('API key')) {
-          return '✗ Gemini API key not found. Set GEMINI_API_KEY environment variable or use format="mermaid" for text-based diagrams.'
-        }
-        return `✗ Failed to generate sequence diagram: ${error.message}`
-      }
-      return '✗ An unexpected error occurred while generating the sequence diagram.'
-    }
+      return { summary: `Generated sequence diagram ${savePath}`, files: [savePath], data: { format } }
+    })
   },
 })
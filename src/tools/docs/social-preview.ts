@@ -1,5 +1,8 @@
 import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
-import { GeminiProvider } from '../../providers/gemini.js';
+import { getProvider } from '../../providers/registry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { getDefaultStyle, getBrandPrompt } from '../../config/project-config.js';
 import { saveImage, getOutputDir } from '../../utils/file-handler.js';
 
 const socialPreviewArgs = {
@@ -27,60 +30,55 @@ export const generateSocialPreview: ToolDefinition = tool({
   description: 'Generate a social media preview (Open Graph) image for project sharing',
   args: socialPreviewArgs,
   execute: async (args, _context) => {
-    try {
+    return runTool(async ({ retry }) => {
       // Extract arguments with defaults
-      const projectName = args.projectName as string;
-      const description = (args.description as string | undefined) || '';
-      const style = (args.style as 'gradient' | 'minimal' | 'bold' | undefined) || 'gradient';
-      const customOutputPath = args.outputPath as string | undefined;
+      const { projectName, description = '', outputPath: customOutputPath } = args;
+      const style = (args.style || getDefaultStyle('generate_social_preview') || 'gradient') as 'gradient' | 'minimal' | 'bold';
 
-      // Initialize Gemini provider
-      const gemini = new GeminiProvider();
+      // Resolve the configured provider
+      const provider = getProvider({ apiKey: getApiKey(), tool: 'generate_social_preview' });
 
       // Build the generation prompt based on style
-      const prompt = buildSocialPreviewPrompt(projectName, description, style);
+      const prompt = buildSocialPreviewPrompt(projectName, description, style) + getBrandPrompt();
 
       // Generate the social preview image (1200x630 = 1.91:1, use 16:9 as closest Gemini option)
-      const imageBuffers = await gemini.generateImage(prompt, {
+      const imageBuffers = await provider.generateImage(prompt, {
         aspectRatio: '16:9', // Closest to 1.91:1
         count: 1,
+        retry,
       });
 
-      if (imageBuffers.length === 0) {
-        return '❌ Failed to generate social preview image';
-      }
-
       const buffer = imageBuffers[0];
       if (!buffer) {
-        return '❌ Failed to generate social preview image';
+        throw new Error('Failed to generate social preview image');
       }
 
       // Save the image
-      const outputDir = customOutputPath || getOutputDir();
+      const outputDir = customOutputPath || getOutputDir('generate_social_preview');
       const filename = `${projectName.toLowerCase().replace(/\s+/g, '-')}-social-preview`;
-      const savedPath = await saveImage(
-        buffer,
-        outputDir,
-        filename,
-        0
-      );
-
-      // Return success message with usage instructions
-      return `✅ Generated ${style} style social preview (1200x630) at: ${savedPath}
+      const savedPath = await saveImage(buffer, outputDir, filename, 0, {
+        tool: 'generate_social_preview',
+        prompt,
+        provider: provider.name,
+        model: provider.modelFor('image'),
+        options: { style, aspectRatio: '16:9' },
+      });
 
-📝 Add this to your HTML <head>:
-\`\`\`html
-<meta property="og:image" content="${savedPath}" />
-<meta property="og:title" content="${projectName}" />
-<meta property="og:description" content="${description || 'Your project description'}" />
-<meta name="twitter:card" content="summary_large_image" />
-\`\`\``;
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('API key')) {
-        return '❌ GEMINI_API_KEY environment variable is not set. Please configure your API key.';
-      }
-      return `❌ Error generating social preview: ${error instanceof Error ? error.message : String(error)}`;
-    }
+      // Return the image with the tags to reference it
+      return {
+        summary: `Generated ${style} social preview ${savedPath}`,
+        files: [savedPath],
+        data: {
+          style,
+          metaTags: [
+            `<meta property="og:image" content="${savedPath}" />`,
+            `<meta property="og:title" content="${projectName}" />`,
+            `<meta property="og:description" content="${description || 'Your project description'}" />`,
+            '<meta name="twitter:card" content="summary_large_image" />',
+          ].join('\n'),
+        },
+      };
+    });
   },
 });
 
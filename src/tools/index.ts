@@ -0,0 +1,82 @@
+/**
+ * Tool Registry
+ *
+ * Every tool the plugin exposes, keyed by the name agents call it by.
+ * Each tool module exports its definition once; add new tools here.
+ */
+
+import type { ToolDefinition } from '@opencode-ai/plugin/tool';
+import { generateImageTool } from './core/generate-image.js';
+import { editImageTool } from './core/edit-image.js';
+import { restoreImageTool } from './core/restore-image.js';
+import { analyzeScreenshotTool } from './analyze/screenshot.js';
+import { compareScreenshotsTool } from './analyze/compare.js';
+import { analyzeMockupTool } from './analyze/mockup.js';
+import { mockupToCodeTool } from './design/mockup-to-code.js';
+import { sketchToCodeTool } from './design/sketch-to-code.js';
+import { generateArchitectureDiagramTool } from './docs/architecture-diagram.js';
+import { generateSequenceDiagramTool } from './docs/sequence-diagram.js';
+import { generateReadmeBannerTool } from './docs/readme-banner.js';
+import { generateSocialPreview } from './docs/social-preview.js';
+import { generateVideoTool } from './video/generate-video.js';
+import { imageToVideoTool } from './video/image-to-video.js';
+import { storyboardVideoTool } from './video/storyboard-video.js';
+import { extendVideoTool } from './video/extend-video.js';
+import { resumeVideoJobTool } from './video/resume-video.js';
+import { usageReportTool } from './usage/usage-report.js';
+import { generateAppIcon } from './app-assets/app-icon.js';
+import { generateScreenshotsTool } from './app-assets/screenshots.js';
+import { generateDeviceMockup } from './app-assets/device-mockup.js';
+import { generate_launch_images } from './app-assets/launch-images.js';
+import { resizeForDevicesTool } from './app-assets/resize-devices.js';
+import { verifyAssetsTool } from './assets/verify-assets.js';
+import { listAssetVersionsTool } from './assets/list-asset-versions.js';
+import { diffAssetVersionsTool } from './assets/diff-asset-versions.js';
+import { restoreAssetVersionTool } from './assets/restore-asset-version.js';
+import { buildAssetGalleryTool } from './assets/asset-gallery.js';
+
+export const tools: Record<string, ToolDefinition> = {
+  // Core image tools
+  generate_image: generateImageTool,
+  edit_image: editImageTool,
+  restore_image: restoreImageTool,
+
+  // Visual analysis
+  analyze_screenshot: analyzeScreenshotTool,
+  compare_screenshots: compareScreenshotsTool,
+  analyze_mockup: analyzeMockupTool,
+
+  // Design to code
+  mockup_to_code: mockupToCodeTool,
+  sketch_to_code: sketchToCodeTool,
+
+  // Documentation assets
+  generate_architecture_diagram: generateArchitectureDiagramTool,
+  generate_sequence_diagram: generateSequenceDiagramTool,
+  generate_readme_banner: generateReadmeBannerTool,
+  generate_social_preview: generateSocialPreview,
+
+  // Video
+  generate_video: generateVideoTool,
+  image_to_video: imageToVideoTool,
+  generate_storyboard_video: storyboardVideoTool,
+  extend_video: extendVideoTool,
+  resume_video_job: resumeVideoJobTool,
+
+  // Usage
+  usage_report: usageReportTool,
+
+  // App assets
+  generate_app_icon: generateAppIcon,
+  generate_app_screenshots: generateScreenshotsTool,
+  generate_device_mockup: generateDeviceMockup,
+  generate_launch_images: generate_launch_images,
+  resize_for_devices: resizeForDevicesTool,
+
+  // Asset management
+  verify_assets: verifyAssetsTool,
+  list_asset_versions: listAssetVersionsTool,
+  diff_asset_versions: diffAssetVersionsTool,
+  restore_asset_version: restoreAssetVersionTool,
+  build_asset_gallery: buildAssetGalleryTool,
+};
@@ -0,0 +1,215 @@
+/**
+ * Tool Results
+ *
+ * Every tool returns the same envelope so agents read results the same way
+ * and scripts can parse them:
+ * - success and a one-line summary
+ * - the files written, with MIME type, size and image dimensions
+ * - warnings that didn't stop the tool
+ * - usage: provider attempts, billable calls and estimated cost
+ * - tool-specific data, or a structured error
+ *
+ * Tools build results through runTool(), which owns the retry tracker, usage
+ * attribution and error serialization.
+ */
+
+import { stat } from 'fs/promises';
+import { extname } from 'path';
+import sharp from 'sharp';
+import { createAttemptTracker, type RetryOptions } from '../providers/retry.js';
+import { summarizeUsage, withUsageScope, type UsageRecord } from '../providers/usage.js';
+import { ProviderError, OperationTimeoutError, OperationAbortedError } from '../providers/errors.js';
+import { PathSafetyError } from '../utils/path-safety.js';
+
+export interface ToolFile {
+  path: string;
+  mimeType: string;
+  /** Size on disk */
+  bytes: number;
+  /** Pixel dimensions (images only) */
+  width?: number;
+  height?: number;
+}
+
+export interface ToolUsage {
+  /** Provider requests made, including retries */
+  attempts: number;
+  /** Billable provider calls */
+  calls: number;
+  /** Estimated cost of this tool call in USD */
+  costUsd: number;
+}
+
+export interface ToolError {
+  message: string;
+  /** Error code (e.g. RATE_LIMITED, TIMEOUT, OUTSIDE_WORKSPACE) */
+  code?: string;
+  retryable?: boolean;
+  /** Video operation that can be resumed with resume_video_job */
+  operationName?: string;
+  help?: string;
+}
+
+export interface ToolResult<T extends object = Record<string, unknown>> {
+  success: boolean;
+  summary: string;
+  files: ToolFile[];
+  warnings: string[];
+  usage: ToolUsage;
+  data?: T;
+  error?: ToolError;
+}
+
+/** What a tool's body returns to runTool() */
+export interface ToolOutput<T extends object = Record<string, unknown>> {
+  summary: string;
+  /** Paths of the files written */
+  files?: string[];
+  data?: T;
+}
+
+/** Passed to a tool's body by runTool() */
+export interface ToolRun {
+  /** Retry options to pass to every provider call */
+  retry: RetryOptions;
+  /** Report a problem that doesn't fail the tool */
+  warn(message: string): void;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.json': 'application/json',
+  '.html': 'text/html',
+  '.md': 'text/markdown',
+  '.mmd': 'text/plain',
+  '.txt': 'text/plain',
+};
+
+/**
+ * Guess a file's MIME type from its extension
+ *
+ * @param path File path
+ * @returns MIME type, or application/octet-stream when unknown
+ */
+export function getMimeType(path: string): string {
+  return MIME_TYPES[extname(path).toLowerCase()] ?? 'application/octet-stream';
+}
+
+/**
+ * Describe a file a tool wrote
+ *
+ * @param path File path
+ * @returns Path, MIME type, size and (for raster images) dimensions
+ */
+export async function describeFile(path: string): Promise<ToolFile> {
+  const mimeType = getMimeType(path);
+  const { size } = await stat(path);
+  const file: ToolFile = { path, mimeType, bytes: size };
+
+  if (mimeType.startsWith('image/') && mimeType !== 'image/svg+xml') {
+    try {
+      const { width, height } = await sharp(path).metadata();
+      if (width && height) {
+        file.width = width;
+        file.height = height;
+      }
+    } catch {
+      // Dimensions are informational; an unreadable image is still reported
+    }
+  }
+  return file;
+}
+
+/**
+ * Convert a thrown error into the result's error field
+ *
+ * @param error Thrown error
+ * @returns Message plus error code, retryability and resume details when known
+ */
+export function toToolError(error: unknown): ToolError {
+  return {
+    message: (error as Error)?.message || String(error),
+    ...(error instanceof ProviderError && { code: error.code, retryable: error.retryable }),
+    ...(error instanceof PathSafetyError && { code: error.code, retryable: false }),
+    ...((error instanceof OperationTimeoutError || error instanceof OperationAbortedError) &&
+      error.operationName && {
+        operationName: error.operationName,
+        help: 'The video is still rendering. Call resume_video_job with this operationName to download it later.',
+      }),
+  };
+}
+
+/**
+ * Render a result for the agent
+ *
+ * @param result Tool result
+ * @returns Indented JSON
+ */
+export function renderToolResult(result: ToolResult<object>): string {
+  return JSON.stringify(result, null, 2);
+}
+
+/**
+ * Run a tool body and render its result
+ *
+ * Errors thrown by the body become a failed result; attempts and usage are
+ * reported either way. Files are described once the body has succeeded, so a
+ * file that can't be read afterwards becomes a warning rather than a failure.
+ *
+ * @param body Tool work; returns a summary, the files written and extra data
+ * @returns Rendered ToolResult
+ */
+export async function runTool(body: (run: ToolRun) => Promise<ToolOutput>): Promise<string> {
+  const tracker = createAttemptTracker();
+  const warnings: string[] = [];
+  const records: UsageRecord[] = [];
+  const usage = (): ToolUsage => {
+    const { calls, costUsd } = summarizeUsage(records);
+    return { attempts: tracker.attempts, calls, costUsd };
+  };
+
+  let output: ToolOutput;
+  try {
+    output = await withUsageScope(records, () =>
+      body({ retry: tracker.retry, warn: (message) => warnings.push(message) })
+    );
+  } catch (error: unknown) {
+    const toolError = toToolError(error);
+    return renderToolResult({
+      success: false,
+      summary: toolError.message,
+      files: [],
+      warnings,
+      usage: usage(),
+      error: toolError,
+    });
+  }
+
+  const files: ToolFile[] = [];
+  for (const path of output.files ?? []) {
+    try {
+      files.push(await describeFile(path));
+    } catch (error: unknown) {
+      warnings.push(`Could not read written file ${path}: ${(error as Error)?.message || String(error)}`);
+    }
+  }
+
+  return renderToolResult({
+    success: true,
+    summary: output.summary,
+    files,
+    warnings,
+    usage: usage(),
+    ...(output.data && { data: output.data }),
+  });
+}
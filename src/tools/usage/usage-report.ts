@@ -0,0 +1,88 @@
+/**
+ * Usage Report Tool
+ *
+ * Summarizes provider spend for the current session and the project ledger,
+ * alongside any configured budget caps.
+ */
+
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import {
+  SESSION_ID,
+  getSessionUsage,
+  readProjectUsage,
+  summarizeUsage,
+  getBudgetStatus,
+  getLedgerPath,
+  type UsageSummary,
+  type BudgetStatus,
+} from '../../providers/usage.js';
+import { runTool } from '../result.js';
+
+export interface UsageReportOptions {
+  /** Which ledgers to include (default: both) */
+  scope?: 'session' | 'project' | 'both';
+}
+
+export interface UsageReport {
+  sessionId: string;
+  session?: UsageSummary;
+  project?: UsageSummary & { ledgerPath: string; since?: string };
+  budgets: BudgetStatus[];
+}
+
+/**
+ * Build a usage report
+ *
+ * @param options Report options
+ * @returns Totals per scope and budget status
+ */
+export async function getUsageReport(options: UsageReportOptions = {}): Promise<UsageReport> {
+  const { scope = 'both' } = options;
+  const report: UsageReport = {
+    sessionId: SESSION_ID,
+    budgets: await getBudgetStatus(),
+  };
+
+  if (scope !== 'project') {
+    report.session = summarizeUsage(getSessionUsage());
+  }
+
+  if (scope !== 'session') {
+    const ledgerPath = getLedgerPath();
+    const records = await readProjectUsage(ledgerPath);
+    report.project = {
+      ...summarizeUsage(records),
+      ledgerPath,
+      ...(records[0] && { since: records[0].timestamp }),
+    };
+  }
+
+  return report;
+}
+
+/**
+ * Tool definition for usage_report
+ */
+export const usageReportTool: ToolDefinition = tool({
+  description:
+    'Report estimated spend on image/video/analysis calls for this session and the project, ' +
+    'broken down by model, with any configured budget caps.',
+  args: {
+    scope: tool.schema
+      .enum(['session', 'project', 'both'])
+      .optional()
+      .describe('Which ledger to report (default: both)'),
+  },
+  async execute(args, _context) {
+    return runTool(async () => {
+      const report = await getUsageReport({
+        scope: args.scope as 'session' | 'project' | 'both' | undefined,
+      });
+      const totals = [
+        report.session && `session $${report.session.costUsd.toFixed(4)}`,
+        report.project && `project $${report.project.costUsd.toFixed(4)}`,
+      ].filter(Boolean);
+      return { summary: `Estimated spend: ${totals.join(', ')}`, data: { ...report } };
+    });
+  },
+});
@@ -1,7 +1,12 @@
-import { GeminiProvider } from '../../providers/gemini.js';
-import { readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { getProvider } from '../../providers/registry.js';
+import type { RetryOptions } from '../../providers/retry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { readFile } from 'fs/promises';
+import { getProjectConfig } from '../../config/project-config.js';
+import { checkOutputPath, getDefaultOutputPath, writeAsset } from '../../utils/file-handler.js';
+import { createLogger } from '../../utils/logger.js';
 
 export interface ExtendVideoOptions {
   videoPath: string;
@@ -10,6 +15,11 @@ export interface ExtendVideoOptions {
   resolution?: '720p' | '1080p';
   outputPath?: string;
   apiKey: string;
+  retry?: RetryOptions;
+  /** Cancels the request (e.g. the tool context's abort signal) */
+  signal?: AbortSignal;
+  /** Maximum time to wait for the video operation in milliseconds */
+  maxWaitMs?: number;
 }
 
 export interface ExtendVideoResult {
@@ -25,47 +35,92 @@ export async function extendVideo(
   const {
     videoPath,
     prompt,
-    aspectRatio = '16:9',
-    resolution = '720p',
+    aspectRatio = getProjectConfig().defaults?.videoAspectRatio ?? '16:9',
+    resolution = getProjectConfig().defaults?.videoResolution ?? '720p',
     outputPath,
     apiKey,
+    retry,
+    signal,
+    maxWaitMs,
   } = options;
 
-  console.log('🎬 Extending video...');
-  console.log(`   Video: ${videoPath}`);
-  console.log(`   Prompt: ${prompt}`);
-  console.log(`   Resolution: ${resolution}`);
-  console.log(`   Aspect Ratio: ${aspectRatio}`);
+  const log = createLogger('extend_video');
+  log.info('Extending video', { videoPath, prompt, resolution, aspectRatio });
 
-  const provider = new GeminiProvider(apiKey);
+  const provider = getProvider({ apiKey, tool: 'extend_video' });
 
   try {
-    console.log('   Loading video...');
+    // Refuse a bad output path before paying for the video
+    const finalOutputPath = outputPath || (await getDefaultOutputPath('extend_video', `extended-${Date.now()}.mp4`));
+    await checkOutputPath(finalOutputPath);
+
+    log.debug('Loading video');
     const videoBuffer = await readFile(videoPath);
 
-    console.log('   Generating extension...');
+    log.debug('Generating extension');
     const result = await provider.extendVideo(videoBuffer, prompt, {
       aspectRatio,
       resolution,
+      retry,
+      signal,
+      maxWaitMs,
     });
 
-    const finalOutputPath = outputPath || join(tmpdir(), `extended-${Date.now()}.mp4`);
-
-    console.log('   Saving extended video...');
-    await writeFile(finalOutputPath, result.buffer);
+    log.debug('Saving extended video');
+    await writeAsset(finalOutputPath, result.buffer, {
+      tool: 'extend_video',
+      prompt,
+      provider: provider.name,
+      model: provider.modelFor('video'),
+      options: { aspectRatio, resolution },
+      inputs: [videoPath],
+    });
 
     const totalTime = Date.now() - startTime;
 
-    console.log(`✨ Video extension complete!`);
-    console.log(`   Output: ${finalOutputPath}`);
-    console.log(`   Generation time: ${(totalTime / 1000).toFixed(2)}s`);
+    log.info('Video extension complete', { outputPath: finalOutputPath, generationTimeMs: totalTime });
 
     return {
       videoPath: finalOutputPath,
       generationTime: totalTime,
     };
   } catch (error) {
-    console.error('❌ Video extension failed:', error);
+    log.error('Video extension failed', { error });
     throw error;
   }
 }
+
+/**
+ * Tool definition for extend_video
+ */
+export const extendVideoTool: ToolDefinition = tool({
+  description:
+    'Extend an existing video with new AI-generated content using Veo 3. ' +
+    'Seamlessly continues the video matching the original style.',
+  args: {
+    videoPath: tool.schema.string().describe('Path to the existing video to extend'),
+    prompt: tool.schema.string().describe('Description of the extension'),
+    aspectRatio: tool.schema.enum(['16:9', '9:16']).optional().describe('Aspect ratio (default: 16:9)'),
+    resolution: tool.schema.enum(['720p', '1080p']).optional().describe('Resolution (default: 720p)'),
+    outputPath: tool.schema.string().optional().describe('Path where the extended video should be saved'),
+  },
+  async execute(args, context) {
+    return runTool(async ({ retry }) => {
+      const result = await extendVideo({
+        apiKey: getApiKey(),
+        videoPath: args.videoPath,
+        prompt: args.prompt,
+        aspectRatio: args.aspectRatio as '16:9' | '9:16' | undefined,
+        resolution: args.resolution as '720p' | '1080p' | undefined,
+        outputPath: args.outputPath,
+        retry,
+        signal: context.abort,
+      });
+      return {
+        summary: `Extended ${args.videoPath} into ${result.videoPath}`,
+        files: [result.videoPath],
+        data: { generationTime: `${(result.generationTime / 1000).toFixed(1)}s` },
+      };
+    });
+  },
+});
@@ -1,7 +1,11 @@
-import { GeminiProvider } from '../../providers/gemini.js';
-import { writeFile } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { getProvider } from '../../providers/registry.js';
+import type { RetryOptions } from '../../providers/retry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { getProjectConfig } from '../../config/project-config.js';
+import { checkOutputPath, getDefaultOutputPath, writeAsset } from '../../utils/file-handler.js';
+import { createLogger } from '../../utils/logger.js';
 
 export interface GenerateVideoOptions {
   prompt: string;
@@ -10,6 +14,11 @@ export interface GenerateVideoOptions {
   duration?: 4 | 6 | 8;
   outputPath?: string;
   apiKey: string;
+  retry?: RetryOptions;
+  /** Cancels the request (e.g. the tool context's abort signal) */
+  signal?: AbortSignal;
+  /** Maximum time to wait for the video operation in milliseconds */
+  maxWaitMs?: number;
 }
 
 export interface GenerateVideoResult {
@@ -24,47 +33,90 @@ export async function generateVideo(
 
   const {
     prompt,
-    aspectRatio = '16:9',
-    resolution = '720p',
+    aspectRatio = getProjectConfig().defaults?.videoAspectRatio ?? '16:9',
+    resolution = getProjectConfig().defaults?.videoResolution ?? '720p',
     duration = 8,
     outputPath,
     apiKey,
+    retry,
+    signal,
+    maxWaitMs,
   } = options;
 
-  console.log('🎬 Generating video...');
-  console.log(`   Prompt: ${prompt}`);
-  console.log(`   Resolution: ${resolution}`);
-  console.log(`   Duration: ${duration}s`);
-  console.log(`   Aspect Ratio: ${aspectRatio}`);
-  console.log(`   Audio: native (Veo 3.0)`);
+  const log = createLogger('generate_video');
+  log.info('Generating video', { prompt, resolution, duration, aspectRatio });
 
-  const provider = new GeminiProvider(apiKey);
+  const provider = getProvider({ apiKey, tool: 'generate_video' });
 
   try {
-    console.log('   Generating with Veo 3.0...');
+    // Refuse a bad output path before paying for the video
+    const finalOutputPath = outputPath || (await getDefaultOutputPath('generate_video', `video-${Date.now()}.mp4`));
+    await checkOutputPath(finalOutputPath);
+
+    log.debug('Generating with Veo 3.0');
     const result = await provider.generateVideo(prompt, {
       aspectRatio,
       resolution,
       duration,
+      retry,
+      signal,
+      maxWaitMs,
     });
 
-    const finalOutputPath = outputPath || join(tmpdir(), `video-${Date.now()}.mp4`);
-
-    console.log('   Saving video...');
-    await writeFile(finalOutputPath, result.buffer);
+    log.debug('Saving video');
+    await writeAsset(finalOutputPath, result.buffer, {
+      tool: 'generate_video',
+      prompt,
+      provider: provider.name,
+      model: provider.modelFor('video'),
+      options: { aspectRatio, resolution, duration },
+    });
 
     const totalTime = Date.now() - startTime;
 
-    console.log(`✨ Video generation complete!`);
-    console.log(`   Output: ${finalOutputPath}`);
-    console.log(`   Generation time: ${(totalTime / 1000).toFixed(2)}s`);
+    log.info('Video generation complete', { outputPath: finalOutputPath, generationTimeMs: totalTime });
 
     return {
       videoPath: finalOutputPath,
       generationTime: totalTime,
     };
   } catch (error) {
-    console.error('❌ Video generation failed:', error);
+    log.error('Video generation failed', { error });
     throw error;
   }
 }
+
+/**
+ * Tool definition for generate_video
+ */
+export const generateVideoTool: ToolDefinition = tool({
+  description:
+    'Generate a video from a text prompt using Google Veo 3. ' +
+    'Creates high-quality video with native audio. Duration: 4, 6, or 8 seconds.',
+  args: {
+    prompt: tool.schema.string().describe('Description of the video to generate'),
+    aspectRatio: tool.schema.enum(['16:9', '9:16']).optional().describe('Aspect ratio (default: 16:9)'),
+    resolution: tool.schema.enum(['720p', '1080p']).optional().describe('Resolution (default: 720p)'),
+    duration: tool.schema.enum(['4', '6', '8']).optional().describe('Duration in seconds (default: 8)'),
+    outputPath: tool.schema.string().optional().describe('Path where the video should be saved'),
+  },
+  async execute(args, context) {
+    return runTool(async ({ retry }) => {
+      const result = await generateVideo({
+        apiKey: getApiKey(),
+        prompt: args.prompt,
+        aspectRatio: args.aspectRatio as '16:9' | '9:16' | undefined,
+        resolution: args.resolution as '720p' | '1080p' | undefined,
+        duration: args.duration ? (parseInt(args.duration, 10) as 4 | 6 | 8) : undefined,
+        outputPath: args.outputPath,
+        retry,
+        signal: context.abort,
+      });
+      return {
+        summary: `Generated video ${result.videoPath}`,
+        files: [result.videoPath],
+        data: { generationTime: `${(result.generationTime / 1000).toFixed(1)}s` },
+      };
+    });
+  },
+});
@@ -1,7 +1,12 @@
-import { GeminiProvider } from '../../providers/gemini.js';
-import { readFile, writeFile } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { getProvider } from '../../providers/registry.js';
+import type { RetryOptions } from '../../providers/retry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { readFile } from 'fs/promises';
+import { getProjectConfig } from '../../config/project-config.js';
+import { checkOutputPath, getDefaultOutputPath, writeAsset } from '../../utils/file-handler.js';
+import { createLogger } from '../../utils/logger.js';
 
 export interface ImageToVideoOptions {
   imagePath: string;
@@ -11,6 +16,11 @@ export interface ImageToVideoOptions {
   duration?: 4 | 6 | 8;
   outputPath?: string;
   apiKey: string;
+  retry?: RetryOptions;
+  /** Cancels the request (e.g. the tool context's abort signal) */
+  signal?: AbortSignal;
+  /** Maximum time to wait for the video operation in milliseconds */
+  maxWaitMs?: number;
 }
 
 export interface ImageToVideoResult {
@@ -26,51 +36,96 @@ export async function imageToVideo(
   const {
     imagePath,
     prompt,
-    aspectRatio = '16:9',
-    resolution = '720p',
+    aspectRatio = getProjectConfig().defaults?.videoAspectRatio ?? '16:9',
+    resolution = getProjectConfig().defaults?.videoResolution ?? '720p',
     duration = 8,
     outputPath,
     apiKey,
+    retry,
+    signal,
+    maxWaitMs,
   } = options;
 
-  console.log('🎬 Animating image to video...');
-  console.log(`   Image: ${imagePath}`);
-  console.log(`   Prompt: ${prompt}`);
-  console.log(`   Resolution: ${resolution}`);
-  console.log(`   Duration: ${duration}s`);
-  console.log(`   Aspect Ratio: ${aspectRatio}`);
-  console.log(`   Audio: native (Veo 3.0)`);
+  const log = createLogger('image_to_video');
+  log.info('Animating image to video', { imagePath, prompt, resolution, duration, aspectRatio });
 
-  const provider = new GeminiProvider(apiKey);
+  const provider = getProvider({ apiKey, tool: 'image_to_video' });
 
   try {
-    console.log('   Loading image...');
+    // Refuse a bad output path before paying for the video
+    const finalOutputPath = outputPath || (await getDefaultOutputPath('image_to_video', `animated-${Date.now()}.mp4`));
+    await checkOutputPath(finalOutputPath);
+
+    log.debug('Loading image');
     const imageBuffer = await readFile(imagePath);
 
-    console.log('   Animating with Veo 3.0...');
+    log.debug('Animating with Veo 3.0');
     const result = await provider.animateImage(imageBuffer, prompt, {
       aspectRatio,
       resolution,
       duration,
+      retry,
+      signal,
+      maxWaitMs,
     });
 
-    const finalOutputPath = outputPath || join(tmpdir(), `animated-${Date.now()}.mp4`);
-
-    console.log('   Saving video...');
-    await writeFile(finalOutputPath, result.buffer);
+    log.debug('Saving video');
+    await writeAsset(finalOutputPath, result.buffer, {
+      tool: 'image_to_video',
+      prompt,
+      provider: provider.name,
+      model: provider.modelFor('video'),
+      options: { aspectRatio, resolution, duration },
+      inputs: [imagePath],
+    });
 
     const totalTime = Date.now() - startTime;
 
-    console.log(`✨ Image animation complete!`);
-    console.log(`   Output: ${finalOutputPath}`);
-    console.log(`   Generation time: ${(totalTime / 1000).toFixed(2)}s`);
+    log.info('Image animation complete', { outputPath: finalOutputPath, generationTimeMs: totalTime });
 
     return {
       videoPath: finalOutputPath,
       generationTime: totalTime,
     };
   } catch (error) {
-    console.error('❌ Image animation failed:', error);
+    log.error('Image animation failed', { error });
     throw error;
   }
 }
+
+/**
+ * Tool definition for image_to_video
+ */
+export const imageToVideoTool: ToolDefinition = tool({
+  description:
+    'Animate a static image into a video using Google Veo 3. ' +
+    'Brings images to life with motion and audio.',
+  args: {
+    imagePath: tool.schema.string().describe('Path to the image file to animate'),
+    prompt: tool.schema.string().describe('Description of the animation'),
+    aspectRatio: tool.schema.enum(['16:9', '9:16']).optional().describe('Aspect ratio (default: 16:9)'),
+    resolution: tool.schema.enum(['720p', '1080p']).optional().describe('Resolution (default: 720p)'),
+    duration: tool.schema.enum(['4', '6', '8']).optional().describe('Duration in seconds (default: 8)'),
+    outputPath: tool.schema.string().optional().describe('Path where the video should be saved'),
+  },
+  async execute(args, context) {
+    return runTool(async ({ retry }) => {
+      const result = await imageToVideo({
+        apiKey: getApiKey(),
+        imagePath: args.imagePath,
+        prompt: args.prompt,
+        aspectRatio: args.aspectRatio as '16:9' | '9:16' | undefined,
+        resolution: args.resolution as '720p' | '1080p' | undefined,
+        duration: args.duration ? (parseInt(args.duration, 10) as 4 | 6 | 8) : undefined,
+        outputPath: args.outputPath,
+        retry,
+        signal: context.abort,
+      });
+      return {
+        summary: `Animated ${args.imagePath} into ${result.videoPath}`,
+        files: [result.videoPath],
+        data: { generationTime: `${(result.generationTime / 1000).toFixed(1)}s` },
+      };
+    });
+  },
+});
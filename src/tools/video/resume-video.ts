@@ -0,0 +1,130 @@
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { getProvider } from '../../providers/registry.js';
+import type { RetryOptions } from '../../providers/retry.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
+import { listPendingOperations, type PendingOperation } from '../../providers/operation-journal.js';
+import { checkOutputPath, getDefaultOutputPath, writeAsset } from '../../utils/file-handler.js';
+import { createLogger } from '../../utils/logger.js';
+
+export interface ResumeVideoOptions {
+  operationName: string;
+  outputPath?: string;
+  apiKey: string;
+  retry?: RetryOptions;
+  /** Cancels the request (e.g. the tool context's abort signal) */
+  signal?: AbortSignal;
+  /** Maximum time to wait for the video operation in milliseconds */
+  maxWaitMs?: number;
+}
+
+export interface ResumeVideoResult {
+  videoPath: string;
+  generationTime: number;
+}
+
+/**
+ * List video operations that were submitted but never downloaded
+ *
+ * @returns Pending operations from the journal, oldest first
+ */
+export async function listPendingVideoJobs(): Promise<PendingOperation[]> {
+  return listPendingOperations();
+}
+
+export async function resumeVideo(
+  options: ResumeVideoOptions
+): Promise<ResumeVideoResult> {
+  const startTime = Date.now();
+
+  const {
+    operationName,
+    outputPath,
+    apiKey,
+    retry,
+    signal,
+    maxWaitMs,
+  } = options;
+
+  const log = createLogger('resume_video_job');
+  log.info('Resuming video job', { operationName });
+
+  const provider = getProvider({ apiKey, tool: 'resume_video_job' });
+
+  try {
+    // Refuse a bad output path before paying for the video
+    const finalOutputPath = outputPath || (await getDefaultOutputPath('resume_video_job', `video-${Date.now()}.mp4`));
+    await checkOutputPath(finalOutputPath);
+
+    // Read what was ordered before the download removes it from the journal
+    const pending = (await listPendingOperations()).find((op) => op.name === operationName);
+
+    log.debug('Polling operation');
+    const result = await provider.resumeVideoOperation(operationName, {
+      retry,
+      signal,
+      maxWaitMs,
+    });
+
+    log.debug('Saving video');
+    await writeAsset(finalOutputPath, result.buffer, {
+      tool: 'resume_video_job',
+      prompt: pending?.prompt,
+      provider: provider.name,
+      model: pending?.model ?? provider.modelFor('video'),
+      options: { operationName, ...(pending && { kind: pending.kind }) },
+    });
+
+    const totalTime = Date.now() - startTime;
+
+    log.info('Video job resumed', { outputPath: finalOutputPath, waitTimeMs: totalTime });
+
+    return {
+      videoPath: finalOutputPath,
+      generationTime: totalTime,
+    };
+  } catch (error) {
+    log.error('Resuming video job failed', { error });
+    throw error;
+  }
+}
+
+/**
+ * Tool definition for resume_video_job
+ */
+export const resumeVideoJobTool: ToolDefinition = tool({
+  description:
+    'Resume a video job that timed out, was cancelled, or was interrupted by a restart. ' +
+    'Re-attaches to the Veo operation, waits for it to finish and downloads the video. ' +
+    'Call without operationName to list pending jobs.',
+  args: {
+    operationName: tool.schema
+      .string()
+      .optional()
+      .describe('Operation name from a timed-out job (e.g. models/veo-3.0-generate-001/operations/abc123)'),
+    outputPath: tool.schema.string().optional().describe('Path where the video should be saved'),
+  },
+  async execute(args, context) {
+    return runTool(async ({ retry }) => {
+      if (!args.operationName) {
+        const pending = await listPendingVideoJobs();
+        return { summary: `${pending.length} pending video job(s)`, data: { pending } };
+      }
+      const result = await resumeVideo({
+        apiKey: getApiKey(),
+        operationName: args.operationName,
+        outputPath: args.outputPath,
+        retry,
+        signal: context.abort,
+      });
+      return {
+        summary: `Downloaded video ${result.videoPath}`,
+        files: [result.videoPath],
+        data: {
+          operationName: args.operationName,
+          generationTime: `${(result.generationTime / 1000).toFixed(1)}s`,
+        },
+      };
+    });
+  },
+});
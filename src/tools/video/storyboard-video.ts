@@ -5,16 +5,29 @@
  * and stitching them together with transitions using FFmpeg.
  */
 
-import { GeminiProvider, type ReferenceImage } from '../../providers/gemini.js';
+import { tool, type ToolDefinition } from '@opencode-ai/plugin/tool';
+import { getProvider } from '../../providers/registry.js';
+import type { ReferenceImage } from '../../providers/types.js';
+import { createAttemptTracker, type RetryOptions } from '../../providers/retry.js';
+import { OperationAbortedError } from '../../providers/errors.js';
+import { getApiKey } from '../common.js';
+import { runTool } from '../result.js';
 import {
   checkFfmpegInstalled,
   concatenateVideos,
   addAudioTrack,
+  isTransition,
+  TRANSITIONS,
+  type BoundaryTransition,
   type ConcatenateOptions,
+  type FfmpegProgress,
+  type Transition,
 } from '../../utils/ffmpeg.js';
-import { writeFile, unlink, readFile } from 'fs/promises';
-import { join } from 'path';
-import { tmpdir } from 'os';
+import { checkOutputPath, getDefaultOutputPath, recordProvenance } from '../../utils/file-handler.js';
+import { getProjectConfig, getDefaultStyle } from '../../config/project-config.js';
+import { createTempWorkspace } from '../../utils/temp-workspace.js';
+import { createLogger, type Logger } from '../../utils/logger.js';
+import { writeFile, readFile } from 'fs/promises';
 
 export interface StoryboardVideoOptions {
   scenes: string[];
@@ -22,25 +35,89 @@ export interface StoryboardVideoOptions {
   characterDescription?: string;
   referenceImages?: string[];
   aspectRatio?: '16:9' | '9:16';
-  transition?: 'cut' | 'crossfade' | 'fade';
+  transition?: Transition;
   transitionDuration?: number;
+  /** Transition overrides for individual scene boundaries */
+  transitions?: SceneTransition[];
   backgroundMusic?: string;
   musicVolume?: number;
   outputPath?: string;
   apiKey: string;
+  /** Retry policy applied to each scene's provider calls */
+  retry?: RetryOptions;
+  /** Cancels the remaining scenes (e.g. the tool context's abort signal) */
+  signal?: AbortSignal;
+  /** Maximum time to wait for each scene's video operation in milliseconds */
+  maxWaitMs?: number;
+  /** Called as scenes are generated and stitched */
+  onProgress?: (event: StoryboardProgressEvent) => void;
+  /** Logger for this job (default: a new one) */
+  logger?: Logger;
 }
 
+/**
+ * Transition into one scene, overriding the storyboard's transition and duration
+ */
+export interface SceneTransition extends BoundaryTransition {
+  /** Scene the transition leads into (2 = between scenes 1 and 2) */
+  scene: number;
+}
+
+/** Progress of a storyboard job, reported through onProgress and the log */
+export type StoryboardProgressEvent =
+  | { type: 'started'; scenes: number }
+  | { type: 'scene_started'; scene: number; total: number }
+  | { type: 'scene_completed'; scene: number; total: number; timeMs: number; attempts: number }
+  | { type: 'scene_failed'; scene: number; total: number; timeMs: number; attempts: number; error: string }
+  | { type: 'stitching'; scenes: number; transition: string; transitionDuration: number }
+  | { type: 'mixing_audio'; volume: number }
+  | { type: 'rendering'; step: 'stitching' | 'mixing_audio'; percent?: number; fps?: number; etaSeconds?: number }
+  | { type: 'completed'; videoPath: string; totalTimeMs: number; successCount: number; failureCount: number };
+
 export interface StoryboardVideoResult {
   /** Path to the final stitched video */
   videoPath: string;
   /** Total generation time in milliseconds */
   totalTime: number;
-  /** Per-scene generation times */
-  sceneTimes: Array<{ scene: number; time: number }>;
+  /** Per-scene generation times, provider attempts and failure reasons */
+  sceneTimes: Array<{ scene: number; time: number; attempts: number; error?: string }>;
   /** Number of scenes successfully generated */
   successCount: number;
   /** Number of scenes that failed */
   failureCount: number;
+  /** Correlation ID of the job's log records */
+  jobId: string;
+}
+
+/**
+ * Describe a progress event in one line
+ *
+ * @param event Progress event
+ * @returns Short human-readable status (used as the log message and progress title)
+ */
+export function describeStoryboardProgress(event: StoryboardProgressEvent): string {
+  switch (event.type) {
+    case 'started':
+      return `Generating ${event.scenes} scene(s)`;
+    case 'scene_started':
+      return `Generating scene ${event.scene}/${event.total}`;
+    case 'scene_completed':
+      return `Scene ${event.scene}/${event.total} completed in ${(event.timeMs / 1000).toFixed(1)}s`;
+    case 'scene_failed':
+      return `Scene ${event.scene}/${event.total} failed: ${event.error}`;
+    case 'stitching':
+      return `Stitching ${event.scenes} scene(s) with ${event.transition} transitions`;
+    case 'mixing_audio':
+      return 'Adding background music';
+    case 'rendering': {
+      const step = event.step === 'stitching' ? 'Stitching' : 'Mixing audio';
+      const percent = event.percent !== undefined ? ` ${Math.floor(event.percent)}%` : '';
+      const eta = event.etaSeconds !== undefined ? ` (about ${Math.ceil(event.etaSeconds)}s left)` : '';
+      return `${step}${percent}${eta}`;
+    }
+    case 'completed':
+      return `Storyboard complete: ${event.videoPath}`;
+  }
 }
 
 /**
@@ -86,6 +163,17 @@ export interface StoryboardVideoResult {
  * ```
  *
  * @example
+ * With a different transition between two scenes:
+ * ```typescript
+ * const result = await generateStoryboardVideo({
+ *   apiKey: 'your-api-key',
+ *   scenes: ['Scene 1', 'Scene 2', 'Scene 3'],
+ *   transition: 'crossfade',
+ *   transitions: [{ scene: 3, transition: 'wipeleft', duration: 1 }]
+ * });
+ * ```
+ *
+ * @example
  * With background music:
  * ```typescript
  * const result = await generateStoryboardVideo({
@@ -102,12 +190,35 @@ export async function generateStoryboardVideo(
   options: StoryboardVideoOptions
 ): Promise<StoryboardVideoResult> {
   const startTime = Date.now();
+  const log = options.logger ?? createLogger('generate_storyboard_video');
+  const progress = (event: StoryboardProgressEvent) => {
+    // Render reports arrive about twice a second, so they only go to the log at debug level
+    const level = event.type === 'scene_failed' ? log.warn : event.type === 'rendering' ? log.debug : log.info;
+    level(describeStoryboardProgress(event), { ...event });
+    options.onProgress?.(event);
+  };
+  const rendering = (step: 'stitching' | 'mixing_audio') => (report: FfmpegProgress) =>
+    progress({ type: 'rendering', step, percent: report.percent, fps: report.fps, etaSeconds: report.etaSeconds });
 
   // Validate inputs
   if (!options.scenes || options.scenes.length === 0) {
     throw new Error('At least one scene is required');
   }
 
+  // Transitions are only applied after every scene is generated, so catch mistakes first
+  const transitionsByScene = new Map<number, BoundaryTransition>();
+  for (const { scene, ...override } of options.transitions ?? []) {
+    if (!Number.isInteger(scene) || scene < 2 || scene > options.scenes.length) {
+      throw new Error(`Transition scene must be between 2 and ${options.scenes.length}, got: ${scene}`);
+    }
+    transitionsByScene.set(scene, override);
+  }
+  for (const name of [options.transition, ...(options.transitions ?? []).map((t) => t.transition)]) {
+    if (name !== undefined && !isTransition(name)) {
+      throw new Error(`Unknown transition type: ${name}`);
+    }
+  }
+
   // Check FFmpeg availability
   const ffmpegAvailable = await checkFfmpegInstalled();
   if (!ffmpegAvailable) {
@@ -117,20 +228,23 @@ export async function generateStoryboardVideo(
   }
 
   // Initialize provider
-  const provider = new GeminiProvider(options.apiKey);
+  const provider = getProvider({ apiKey: options.apiKey, tool: 'generate_storyboard_video' });
 
   const {
     scenes,
-    style,
+    style = getDefaultStyle('generate_storyboard_video'),
     characterDescription,
     referenceImages,
-    aspectRatio = '16:9',
+    aspectRatio = getProjectConfig().defaults?.videoAspectRatio ?? '16:9',
     transition = 'crossfade',
     transitionDuration = 0.5,
     backgroundMusic,
     musicVolume = 0.3,
-    outputPath = join(tmpdir(), `storyboard-${Date.now()}.mp4`),
   } = options;
+  const outputPath =
+    options.outputPath ?? (await getDefaultOutputPath('generate_storyboard_video', `storyboard-${Date.now()}.mp4`));
+  // FFmpeg writes the final video itself, so check the path before generating any scenes
+  await checkOutputPath(outputPath);
 
   // Load reference images if provided
   let loadedReferences: ReferenceImage[] | undefined;
@@ -139,7 +253,7 @@ export async function generateStoryboardVideo(
       throw new Error('Maximum of 3 reference images allowed');
     }
 
-    console.log(`📸 Loading ${referenceImages.length} reference image(s)...`);
+    log.debug('Loading reference images', { referenceImages });
     loadedReferences = await Promise.all(
       referenceImages.map(async (imagePath, index) => {
         const buffer = await readFile(imagePath);
@@ -151,175 +265,290 @@ export async function generateStoryboardVideo(
     );
   }
 
-  console.log(`\n🎬 Starting storyboard generation with ${scenes.length} scene(s)`);
-  console.log(`⚙️  Configuration:`);
-  console.log(`   - Aspect ratio: ${aspectRatio}`);
-  console.log(`   - Transition: ${transition} (${transitionDuration}s)`);
-  console.log(`   - Audio: native (Veo 3.0)${backgroundMusic ? ' + background music' : ''}`);
-
-  if (characterDescription) {
-    console.log(`👤 Using character description: "${characterDescription}"`);
-  }
-  if (loadedReferences) {
-    console.log(`🖼️  Using ${loadedReferences.length} reference image(s) for consistency`);
-  }
-
-  console.log(`\n📹 Generating scenes sequentially (to avoid rate limits)...`);
+  log.debug('Storyboard configuration', {
+    aspectRatio,
+    transition,
+    transitionDuration,
+    style,
+    characterDescription,
+    referenceImages: loadedReferences?.length ?? 0,
+    backgroundMusic,
+  });
 
-  type SceneResult = {
-    index: number;
-    path: string | null;
-    time: number;
-    success: boolean;
-    error?: string;
-  };
+  // Scenes, the stitched video and FFmpeg's concat list live in a per-job temp
+  // directory that is removed however the job ends
+  const workspace = await createTempWorkspace('storyboard');
+  try {
+    // Scenes are generated sequentially to avoid rate limits
+    progress({ type: 'started', scenes: scenes.length });
+
+    type SceneResult = {
+      index: number;
+      path: string | null;
+      time: number;
+      attempts: number;
+      success: boolean;
+      error?: string;
+    };
   
-  const sceneResults: SceneResult[] = [];
+    const sceneResults: SceneResult[] = [];
   
-  for (let index = 0; index < scenes.length; index++) {
-    const sceneDescription = scenes[index]!;
-    const sceneStartTime = Date.now();
-    console.log(`   [${index + 1}/${scenes.length}] Generating: "${sceneDescription.slice(0, 50)}${sceneDescription.length > 50 ? '...' : ''}"`);
+    for (let index = 0; index < scenes.length; index++) {
+      const sceneDescription = scenes[index]!;
+      const sceneStartTime = Date.now();
+      const tracker = createAttemptTracker(options.retry);
+      progress({ type: 'scene_started', scene: index + 1, total: scenes.length });
 
-    try {
-      let prompt = sceneDescription;
-
-      if (characterDescription) {
-        prompt = `${characterDescription}. ${prompt}`;
-      }
-
-      if (style) {
-        prompt = `${style} style: ${prompt}`;
-      }
-
-      let result;
-      if (loadedReferences && loadedReferences.length > 0) {
-        result = await provider.generateVideoWithReferences(
-          prompt,
-          loadedReferences,
-          {
+      try {
+        let prompt = sceneDescription;
+
+        if (characterDescription) {
+          prompt = `${characterDescription}. ${prompt}`;
+        }
+
+        if (style) {
+          prompt = `${style} style: ${prompt}`;
+        }
+
+        let result;
+        if (loadedReferences && loadedReferences.length > 0) {
+          result = await provider.generateVideoWithReferences(
+            prompt,
+            loadedReferences,
+            {
+              aspectRatio,
+              resolution: '720p',
+              duration: 8,
+              numberOfVideos: 1,
+              retry: tracker.retry,
+              signal: options.signal,
+              maxWaitMs: options.maxWaitMs,
+            }
+          );
+        } else {
+          result = await provider.generateVideo(prompt, {
             aspectRatio,
             resolution: '720p',
             duration: 8,
             numberOfVideos: 1,
-          }
-        );
-      } else {
-        result = await provider.generateVideo(prompt, {
-          aspectRatio,
-          resolution: '720p',
-          duration: 8,
-          numberOfVideos: 1,
+            retry: tracker.retry,
+            signal: options.signal,
+            maxWaitMs: options.maxWaitMs,
+          });
+        }
+
+        const tempPath = workspace.file(`scene-${index}.mp4`);
+        await writeFile(tempPath, result.buffer);
+
+        const sceneTime = Date.now() - sceneStartTime;
+        progress({
+          type: 'scene_completed',
+          scene: index + 1,
+          total: scenes.length,
+          timeMs: sceneTime,
+          attempts: tracker.attempts,
         });
-      }
-
-      const tempPath = join(tmpdir(), `scene-${index}-${Date.now()}.mp4`);
-      await writeFile(tempPath, result.buffer);
 
-      const sceneTime = Date.now() - sceneStartTime;
-      console.log(`   ✅ [${index + 1}/${scenes.length}] Completed in ${(sceneTime / 1000).toFixed(1)}s`);
+        sceneResults.push({
+          index,
+          path: tempPath,
+          time: sceneTime,
+          attempts: tracker.attempts,
+          success: true,
+        });
+      } catch (error) {
+        // Cancellation stops the whole storyboard rather than failing one scene
+        if (error instanceof OperationAbortedError) {
+          throw error;
+        }
+
+        const sceneTime = Date.now() - sceneStartTime;
+        const message = error instanceof Error ? error.message : String(error);
+        progress({
+          type: 'scene_failed',
+          scene: index + 1,
+          total: scenes.length,
+          timeMs: sceneTime,
+          attempts: tracker.attempts,
+          error: message,
+        });
 
-      sceneResults.push({
-        index,
-        path: tempPath,
-        time: sceneTime,
-        success: true,
-      });
-    } catch (error) {
-      const sceneTime = Date.now() - sceneStartTime;
-      console.error(`   ❌ [${index + 1}/${scenes.length}] Failed after ${(sceneTime / 1000).toFixed(1)}s:`, error);
-
-      sceneResults.push({
-        index,
-        path: null,
-        time: sceneTime,
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
-      });
+        sceneResults.push({
+          index,
+          path: null,
+          time: sceneTime,
+          attempts: tracker.attempts,
+          success: false,
+          error: message,
+        });
+      }
     }
-  }
 
-  // Filter successful scenes
-  const successfulScenes = sceneResults.filter(
-    (result): result is { index: number; path: string; time: number; success: true } =>
-      result.success && result.path !== null
-  );
-
-  if (successfulScenes.length === 0) {
-    throw new Error('All scenes failed to generate. No video to stitch.');
-  }
-
-  if (successfulScenes.length < sceneResults.length) {
-    console.warn(
-      `⚠️  ${sceneResults.length - successfulScenes.length} scene(s) failed. Continuing with ${successfulScenes.length} successful scene(s).`
+    // Filter successful scenes
+    const successfulScenes = sceneResults.filter(
+      (result): result is { index: number; path: string; time: number; attempts: number; success: true } =>
+        result.success && result.path !== null
     );
-  }
-
-  // Sort by original index to maintain scene order
-  successfulScenes.sort((a, b) => a.index - b.index);
-  const videoPaths = successfulScenes.map((s) => s.path);
 
-  // Stitch videos together
-  console.log(`\n🎞️  Stitching ${videoPaths.length} scene(s) together...`);
-  console.log(`   - Transition: ${transition}`);
-  console.log(`   - Duration: ${transitionDuration}s`);
+    if (successfulScenes.length === 0) {
+      throw new Error('All scenes failed to generate. No video to stitch.');
+    }
 
-  const concatenateOptions: ConcatenateOptions = {
-    transition,
-    transitionDuration,
-  };
+    if (successfulScenes.length < sceneResults.length) {
+      log.warn('Continuing without failed scenes', {
+        failed: sceneResults.length - successfulScenes.length,
+        succeeded: successfulScenes.length,
+      });
+    }
 
-  // Determine final output path based on whether we need to add background music
-  const stitchedVideoPath = backgroundMusic
-    ? join(tmpdir(), `stitched-${Date.now()}.mp4`)
-    : outputPath;
+    // Sort by original index to maintain scene order
+    successfulScenes.sort((a, b) => a.index - b.index);
+    const videoPaths = successfulScenes.map((s) => s.path);
+
+    // Stitch videos together
+    progress({ type: 'stitching', scenes: videoPaths.length, transition, transitionDuration });
+
+    const concatenateOptions: ConcatenateOptions = {
+      transition,
+      transitionDuration,
+      // Overrides follow their scene, so a failed scene takes its transition with it
+      ...(transitionsByScene.size > 0 && {
+        boundaries: successfulScenes.slice(1).map((s) => transitionsByScene.get(s.index + 1)),
+      }),
+      workDir: workspace.dir,
+      onProgress: rendering('stitching'),
+    };
+
+    // Determine final output path based on whether we need to add background music
+    const stitchedVideoPath = backgroundMusic
+      ? workspace.file('stitched.mp4')
+      : outputPath;
 
-  try {
     await concatenateVideos(videoPaths, stitchedVideoPath, concatenateOptions);
 
     // Add background music if provided
     if (backgroundMusic) {
-      console.log(`\n🎵 Adding background music...`);
-      console.log(`   - Volume: ${(musicVolume * 100).toFixed(0)}%`);
-      await addAudioTrack(stitchedVideoPath, backgroundMusic, outputPath, musicVolume);
-      console.log(`   ✅ Audio mixing complete`);
-      // Clean up temporary stitched video
-      await unlink(stitchedVideoPath).catch(() => {});
+      progress({ type: 'mixing_audio', volume: musicVolume });
+      await addAudioTrack(stitchedVideoPath, backgroundMusic, outputPath, musicVolume, {
+        onProgress: rendering('mixing_audio'),
+      });
     }
+
+    await recordProvenance(outputPath, {
+      tool: 'generate_storyboard_video',
+      prompt: scenes.join('\n'),
+      provider: provider.name,
+      model: provider.modelFor(loadedReferences ? 'referenceVideo' : 'video'),
+      options: {
+        scenes,
+        style,
+        characterDescription,
+        aspectRatio,
+        transition,
+        transitionDuration,
+        ...(options.transitions?.length && { transitions: options.transitions }),
+        ...(backgroundMusic && { musicVolume }),
+      },
+      inputs: [...(referenceImages ?? []), ...(backgroundMusic ? [backgroundMusic] : [])],
+    });
+
+    const totalTime = Date.now() - startTime;
+    progress({
+      type: 'completed',
+      videoPath: outputPath,
+      totalTimeMs: totalTime,
+      successCount: successfulScenes.length,
+      failureCount: sceneResults.length - successfulScenes.length,
+    });
+
+    return {
+      videoPath: outputPath,
+      totalTime,
+      sceneTimes: sceneResults.map((r) => ({
+        scene: r.index + 1,
+        time: r.time,
+        attempts: r.attempts,
+        ...(r.error && { error: r.error }),
+      })),
+      successCount: successfulScenes.length,
+      failureCount: sceneResults.length - successfulScenes.length,
+      jobId: log.jobId,
+    };
   } finally {
-    // Clean up temporary scene files
-    for (const videoPath of videoPaths) {
-      try {
-        await unlink(videoPath);
-      } catch {
-        // Ignore cleanup errors
-      }
-    }
+    await workspace.dispose();
   }
-
-  const totalTime = Date.now() - startTime;
-
-  // Calculate average scene generation time
-  const avgSceneTime = successfulScenes.length > 0
-    ? successfulScenes.reduce((sum, s) => sum + s.time, 0) / successfulScenes.length
-    : 0;
-
-  console.log(`\n✨ Storyboard generation complete!`);
-  console.log(`📊 Summary:`);
-  console.log(`   - Total time: ${(totalTime / 1000).toFixed(1)}s`);
-  console.log(`   - Scenes generated: ${successfulScenes.length}/${sceneResults.length}`);
-  console.log(`   - Average scene time: ${(avgSceneTime / 1000).toFixed(1)}s`);
-  console.log(`   - Success rate: ${((successfulScenes.length / sceneResults.length) * 100).toFixed(0)}%`);
-  console.log(`📁 Output: ${outputPath}\n`);
-
-  return {
-    videoPath: outputPath,
-    totalTime,
-    sceneTimes: sceneResults.map((r) => ({
-      scene: r.index + 1,
-      time: r.time,
-    })),
-    successCount: successfulScenes.length,
-    failureCount: sceneResults.length - successfulScenes.length,
-  };
 }
+
+/**
+ * Tool definition for generate_storyboard_video
+ */
+export const storyboardVideoTool: ToolDefinition = tool({
+  description:
+    'Generate a multi-scene storyboard video. Creates scenes and stitches them with transitions. ' +
+    'Supports character consistency. Requires FFmpeg.',
+  args: {
+    scenes: tool.schema.array(tool.schema.string()).describe('Array of scene descriptions'),
+    style: tool.schema.string().optional().describe('Visual style for all scenes'),
+    characterDescription: tool.schema.string().optional().describe('Main character description for consistency'),
+    referenceImages: tool.schema.array(tool.schema.string()).optional().describe('Paths to reference images (max 3)'),
+    aspectRatio: tool.schema.enum(['16:9', '9:16']).optional().describe('Aspect ratio (default: 16:9)'),
+    transition: tool.schema
+      .enum(TRANSITIONS)
+      .optional()
+      .describe('Transition type: cut, crossfade, fade (through black) or an FFmpeg xfade effect such as wipeleft, slideup, circleopen, dissolve or pixelize (default: crossfade)'),
+    transitionDuration: tool.schema.number().optional().describe('Transition duration in seconds (default: 0.5)'),
+    transitions: tool.schema
+      .array(
+        tool.schema.object({
+          scene: tool.schema.number().describe('Scene the transition leads into (2 = between scenes 1 and 2)'),
+          transition: tool.schema.enum(TRANSITIONS).optional().describe('Transition type for this boundary'),
+          duration: tool.schema.number().optional().describe('Transition duration in seconds for this boundary'),
+        })
+      )
+      .optional()
+      .describe('Per-boundary transition and duration overrides'),
+    backgroundMusic: tool.schema.string().optional().describe('Path to background music audio file'),
+    musicVolume: tool.schema.number().optional().describe('Background music volume 0.0-1.0 (default: 0.3)'),
+    outputPath: tool.schema.string().optional().describe('Path where the final video should be saved'),
+  },
+  async execute(args, context) {
+    return runTool(async ({ retry, warn }) => {
+      const logger = createLogger('generate_storyboard_video', { sessionID: context.sessionID });
+      const result = await generateStoryboardVideo({
+        apiKey: getApiKey(),
+        scenes: args.scenes,
+        style: args.style,
+        characterDescription: args.characterDescription,
+        referenceImages: args.referenceImages,
+        aspectRatio: args.aspectRatio as '16:9' | '9:16' | undefined,
+        transition: args.transition,
+        transitionDuration: args.transitionDuration,
+        transitions: args.transitions,
+        backgroundMusic: args.backgroundMusic,
+        musicVolume: args.musicVolume,
+        outputPath: args.outputPath,
+        retry,
+        signal: context.abort,
+        logger,
+        onProgress: (event) =>
+          context.metadata?.({ title: describeStoryboardProgress(event), metadata: { ...event, jobId: logger.jobId } }),
+      });
+      for (const scene of result.sceneTimes) {
+        if (scene.error) {
+          warn(`Scene ${scene.scene} failed and was left out: ${scene.error}`);
+        }
+      }
+      return {
+        summary: `Generated ${result.successCount}-scene storyboard video ${result.videoPath}`,
+        files: [result.videoPath],
+        data: {
+          totalTime: `${(result.totalTime / 1000).toFixed(1)}s`,
+          scenesGenerated: result.successCount,
+          scenesFailed: result.failureCount,
+          scenes: result.sceneTimes,
+          jobId: result.jobId,
+        },
+      };
+    });
+  },
+});
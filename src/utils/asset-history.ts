@@ -0,0 +1,153 @@
+/**
+ * Asset History
+ *
+ * Keeps every saved version of a logical asset (see ./manifest.ts for IDs) so
+ * a bad regeneration or edit can be rolled back. Each save copies the file and
+ * its provenance sidecar into the history store and appends to the asset's
+ * version log:
+ *
+ *   <output dir>/.history/<asset id>/v1.png
+ *   <output dir>/.history/<asset id>/v1.png.provenance.json
+ *   <output dir>/.history/<asset id>/versions.json
+ */
+
+import { copyFile, mkdir, readFile, stat } from 'fs/promises';
+import { existsSync } from 'fs';
+import { extname, isAbsolute, join, relative, resolve } from 'path';
+import { PathSafetyError } from './path-safety.js';
+import { getSidecarPath } from './provenance.js';
+import type { ManifestRecord } from './manifest.js';
+import { createWriteQueue, writeFileAtomic } from './write-queue.js';
+
+export interface AssetVersion {
+  version: number;
+  /** Snapshot file name inside the asset's history directory */
+  file: string;
+  sha256: string;
+  bytes: number;
+  /** ISO timestamp of the save */
+  createdAt: string;
+  tool?: string;
+  prompt?: string;
+  /** Version this one was restored from */
+  restoredFrom?: number;
+}
+
+interface VersionLog {
+  versions: AssetVersion[];
+}
+
+/** Serializes writes within this process so concurrent saves don't clobber each other */
+const writeQueue = createWriteQueue();
+
+/**
+ * Get the history directory of one asset
+ *
+ * @param historyDir History store root
+ * @param id Logical asset ID
+ * @returns Directory holding the asset's snapshots and version log
+ * @throws PathSafetyError if the ID would resolve outside the history store
+ */
+export function getAssetHistoryDir(historyDir: string, id: string): string {
+  const dir = resolve(historyDir, id.replace(/^[/\\]+/, '').replace(/:/g, '_'));
+  const relativePath = relative(resolve(historyDir), dir);
+  // IDs come from tool args, so `..` must not climb out of the store
+  if (!relativePath || relativePath.startsWith('..') || isAbsolute(relativePath) || id.split(/[/\\]/).includes('..')) {
+    throw new PathSafetyError(`Invalid asset ID: ${id}`, 'OUTSIDE_WORKSPACE', dir);
+  }
+  return dir;
+}
+
+async function readVersionLog(path: string): Promise<VersionLog> {
+  try {
+    const parsed = JSON.parse(await readFile(path, 'utf-8')) as Partial<VersionLog>;
+    return { versions: Array.isArray(parsed.versions) ? parsed.versions : [] };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { versions: [] };
+    }
+    throw new Error(`Failed to read version log ${path}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Snapshot a saved asset as its next version
+ *
+ * @param historyDir History store root
+ * @param id Logical asset ID
+ * @param assetPath Path the asset was written to
+ * @param record Hash, save time and provenance of the asset
+ * @param restoredFrom Version the asset was restored from, if any
+ * @returns The new version
+ */
+export function recordVersion(
+  historyDir: string,
+  id: string,
+  assetPath: string,
+  record: ManifestRecord,
+  restoredFrom?: number
+): Promise<AssetVersion> {
+  return writeQueue.run(async () => {
+    const dir = getAssetHistoryDir(historyDir, id);
+    const logPath = join(dir, 'versions.json');
+    const log = await readVersionLog(logPath);
+    const number = (log.versions[log.versions.length - 1]?.version ?? 0) + 1;
+
+    const file = `v${number}${extname(assetPath)}`;
+    await mkdir(dir, { recursive: true });
+    await copyFile(assetPath, join(dir, file));
+    if (existsSync(getSidecarPath(assetPath))) {
+      await copyFile(getSidecarPath(assetPath), getSidecarPath(join(dir, file)));
+    }
+
+    const version: AssetVersion = {
+      version: number,
+      file,
+      sha256: record.sha256,
+      bytes: (await stat(assetPath)).size,
+      createdAt: record.createdAt,
+      ...(record.tool && { tool: record.tool }),
+      ...(record.prompt !== undefined && { prompt: record.prompt }),
+      ...(restoredFrom !== undefined && { restoredFrom }),
+    };
+    log.versions.push(version);
+    await writeFileAtomic(logPath, JSON.stringify(log, null, 2));
+    return version;
+  });
+}
+
+/**
+ * List the saved versions of an asset
+ *
+ * @param historyDir History store root
+ * @param id Logical asset ID
+ * @returns Versions, oldest first (empty when the asset has no history)
+ */
+export async function listVersions(historyDir: string, id: string): Promise<AssetVersion[]> {
+  await writeQueue.idle();
+  const log = await readVersionLog(join(getAssetHistoryDir(historyDir, id), 'versions.json'));
+  return log.versions;
+}
+
+/**
+ * Look up one version of an asset
+ *
+ * @param historyDir History store root
+ * @param id Logical asset ID
+ * @param version Version number
+ * @returns The version and the path of its snapshot
+ * @throws Error when the version doesn't exist
+ */
+export async function getVersion(
+  historyDir: string,
+  id: string,
+  version: number
+): Promise<AssetVersion & { path: string }> {
+  const versions = await listVersions(historyDir, id);
+  const found = versions.find((v) => v.version === version);
+  if (!found) {
+    const available = versions.map((v) => v.version).join(', ') || 'none';
+    throw new Error(`Version ${version} of ${id} not found. Available versions: ${available}`);
+  }
+  return { ...found, path: join(getAssetHistoryDir(historyDir, id), found.file) };
+}
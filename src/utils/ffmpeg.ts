@@ -1,18 +1,321 @@
 /**
  * FFmpeg Utility Module
  *
- * Provides video processing operations using FFmpeg
+ * Provides video processing operations using FFmpeg. Commands are spawned with
+ * argument arrays rather than shell strings, so paths are never parsed by a
+ * shell, and file paths are passed with the file: protocol so names starting
+ * with "-" or looking like a protocol ("concat:...") are taken literally.
  */
 
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { spawn } from 'child_process';
 import { existsSync } from 'fs';
+import { basename, join } from 'path';
 
-const execAsync = promisify(exec);
+/** Bytes of stderr kept for error messages; FFmpeg can write megabytes of it */
+const STDERR_LIMIT = 16 * 1024;
+
+export interface RunOptions {
+  /** Kills the process when aborted */
+  signal?: AbortSignal;
+}
+
+export interface RunResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface FfmpegRunOptions extends RunOptions {
+  /** Called for each progress report; adds -progress pipe:1 to the command */
+  onProgress?: (progress: FfmpegProgress) => void;
+  /** Expected output duration in seconds, needed for percent and ETA */
+  duration?: number;
+}
+
+/**
+ * One progress report from FFmpeg's -progress output
+ */
+export interface FfmpegProgress {
+  /** Seconds of output rendered so far */
+  outTime: number;
+  /** Percent of the expected duration rendered (when the duration is known) */
+  percent?: number;
+  /** Frames encoded per second */
+  fps?: number;
+  /** Render speed relative to real time (2 = twice as fast) */
+  speed?: number;
+  /** Estimated seconds until done (when the duration and speed are known) */
+  etaSeconds?: number;
+  /** Whether this is the final report */
+  done: boolean;
+}
+
+/**
+ * FFmpeg or FFprobe could not be started or exited with an error
+ */
+export class FfmpegError extends Error {
+  /** Exit code, or null when the process didn't start or was killed */
+  readonly exitCode: number | null;
+  /** Tail of the process's stderr */
+  readonly stderr: string;
+
+  constructor(message: string, exitCode: number | null, stderr: string, options: { cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'FfmpegError';
+    this.exitCode = exitCode;
+    this.stderr = stderr;
+  }
+}
+
+/**
+ * FFmpeg xfade transitions (https://ffmpeg.org/ffmpeg-filters.html#xfade)
+ *
+ * xfade's own "fade" is exposed as "crossfade", since "fade" here means a dip
+ * to black. fadefast and fadeslow need FFmpeg 6.1; the wind, cover and reveal
+ * transitions need FFmpeg 7.0.
+ */
+export const XFADE_TRANSITIONS = [
+  'wipeleft', 'wiperight', 'wipeup', 'wipedown',
+  'wipetl', 'wipetr', 'wipebl', 'wipebr',
+  'slideleft', 'slideright', 'slideup', 'slidedown',
+  'smoothleft', 'smoothright', 'smoothup', 'smoothdown',
+  'coverleft', 'coverright', 'coverup', 'coverdown',
+  'revealleft', 'revealright', 'revealup', 'revealdown',
+  'circlecrop', 'rectcrop', 'circleopen', 'circleclose',
+  'vertopen', 'vertclose', 'horzopen', 'horzclose',
+  'diagtl', 'diagtr', 'diagbl', 'diagbr',
+  'hlslice', 'hrslice', 'vuslice', 'vdslice',
+  'hlwind', 'hrwind', 'vuwind', 'vdwind',
+  'fadeblack', 'fadewhite', 'fadegrays', 'fadefast', 'fadeslow',
+  'distance', 'radial', 'dissolve', 'pixelize', 'hblur',
+  'squeezeh', 'squeezev', 'zoomin',
+] as const;
+
+export type XfadeTransition = (typeof XFADE_TRANSITIONS)[number];
+
+/** Every transition concatenateVideos() accepts */
+export const TRANSITIONS = ['cut', 'crossfade', 'fade', ...XFADE_TRANSITIONS] as const;
+
+export type Transition = (typeof TRANSITIONS)[number];
+
+/**
+ * Transition at one boundary between videos, overriding the defaults
+ */
+export interface BoundaryTransition {
+  transition?: Transition;
+  /** Transition duration in seconds */
+  duration?: number;
+}
 
 export interface ConcatenateOptions {
-  transition?: 'cut' | 'crossfade' | 'fade';
+  transition?: Transition;
   transitionDuration?: number;
+  /** Per-boundary overrides; boundaries[0] is between the first and second video */
+  boundaries?: Array<BoundaryTransition | undefined>;
+  /** Directory for intermediate files such as the concat list (default: next to the output) */
+  workDir?: string;
+  /** Called as FFmpeg renders the output */
+  onProgress?: (progress: FfmpegProgress) => void;
+}
+
+/**
+ * Streams of a media file, as reported by FFprobe
+ */
+export interface MediaInfo {
+  /** Duration in seconds */
+  duration: number;
+  width: number;
+  height: number;
+  /** Frame rate as FFprobe reports it (e.g. "24/1", "30000/1001") */
+  frameRate: string;
+  hasAudio: boolean;
+}
+
+/**
+ * Filter graph labels of one input's video and audio (e.g. "[0:v]", "[0:a]")
+ */
+export interface StreamLabels {
+  video: string;
+  audio: string;
+}
+
+export interface AddAudioOptions {
+  /** Called as FFmpeg renders the output */
+  onProgress?: (progress: FfmpegProgress) => void;
+}
+
+export interface TestVideoOptions {
+  duration?: number;
+  width?: number;
+  height?: number;
+  /** Background color as a 6-digit hex string (without #) */
+  color?: string;
+  /** Frequency of the generated sine tone in Hz */
+  frequency?: number;
+}
+
+/**
+ * Run a command and collect its output
+ *
+ * stdout is kept in full (FFprobe's JSON is small; FFmpeg writes media to
+ * files, not stdout); stderr is trimmed to its last STDERR_LIMIT bytes.
+ */
+async function run(
+  command: string,
+  args: string[],
+  options: RunOptions & { onStdout?: (chunk: string) => void } = {}
+): Promise<RunResult> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'], signal: options.signal });
+    const stdout: Buffer[] = [];
+    let stderr = '';
+
+    // Streamed stdout (progress reports) is handed off instead of kept
+    child.stdout?.on('data', (chunk: Buffer) =>
+      options.onStdout ? options.onStdout(chunk.toString()) : stdout.push(chunk)
+    );
+    child.stderr?.on('data', (chunk: Buffer) => {
+      stderr += chunk.toString();
+      if (stderr.length > STDERR_LIMIT * 2) {
+        stderr = stderr.slice(-STDERR_LIMIT);
+      }
+    });
+
+    child.on('error', (error) => {
+      reject(new FfmpegError(`Failed to run ${command}: ${error.message}`, null, stderr, { cause: error }));
+    });
+    child.on('close', (code, signal) => {
+      const tail = stderr.slice(-STDERR_LIMIT).trim();
+      if (code === 0) {
+        resolve({ stdout: Buffer.concat(stdout).toString(), stderr: tail });
+        return;
+      }
+      const reason = code === null ? `was killed by ${signal}` : `exited with code ${code}`;
+      reject(new FfmpegError(`${command} ${reason}${tail ? `: ${lastLines(tail)}` : ''}`, code, tail));
+    });
+  });
+}
+
+/**
+ * Last few lines of stderr, which is where FFmpeg puts the actual error
+ */
+function lastLines(text: string, count: number = 5): string {
+  return text.split(/\r?\n/).slice(-count).join('\n');
+}
+
+/**
+ * Run ffmpeg with an argument array
+ *
+ * @param args Arguments after "ffmpeg"; -hide_banner and -nostdin are added
+ * @param options Run options
+ * @returns Captured output (stdout is empty when onProgress is set)
+ */
+export async function runFfmpeg(args: string[], options: FfmpegRunOptions = {}): Promise<RunResult> {
+  const { onProgress, duration, ...runOptions } = options;
+  if (!onProgress) {
+    return run('ffmpeg', ['-hide_banner', '-nostdin', ...args], runOptions);
+  }
+  return run('ffmpeg', ['-hide_banner', '-nostdin', '-progress', 'pipe:1', '-nostats', ...args], {
+    ...runOptions,
+    onStdout: createProgressParser(onProgress, duration),
+  });
+}
+
+/**
+ * Parse FFmpeg's -progress output
+ *
+ * FFmpeg writes blocks of key=value lines, each ending with
+ * progress=continue (or progress=end for the last one):
+ *
+ *   fps=24.00
+ *   out_time_us=2500000
+ *   speed=1.5x
+ *   progress=continue
+ *
+ * @param onProgress Called once per block
+ * @param duration Expected output duration in seconds, for percent and ETA
+ * @returns Function to feed stdout chunks to, split anywhere
+ */
+export function createProgressParser(
+  onProgress: (progress: FfmpegProgress) => void,
+  duration?: number
+): (chunk: string) => void {
+  let pending = '';
+  let block: Record<string, string> = {};
+
+  return (chunk) => {
+    pending += chunk;
+    const lines = pending.split(/\r?\n/);
+    pending = lines.pop() ?? '';
+
+    for (const line of lines) {
+      const separator = line.indexOf('=');
+      if (separator === -1) {
+        continue;
+      }
+      const key = line.slice(0, separator).trim();
+      block[key] = line.slice(separator + 1).trim();
+      if (key === 'progress') {
+        onProgress(toProgress(block, duration));
+        block = {};
+      }
+    }
+  };
+}
+
+function toProgress(block: Record<string, string>, duration?: number): FfmpegProgress {
+  // out_time_ms is also in microseconds despite its name; both are N/A before the first frame
+  const outTimeUs = Number(block.out_time_us ?? block.out_time_ms);
+  const fps = parseFloat(block.fps ?? '');
+  const speed = parseFloat(block.speed ?? '');
+  const done = block.progress === 'end';
+
+  const progress: FfmpegProgress = {
+    outTime: Number.isFinite(outTimeUs) && outTimeUs > 0 ? outTimeUs / 1e6 : 0,
+    done,
+  };
+  if (!isNaN(fps)) {
+    progress.fps = fps;
+  }
+  if (speed > 0) {
+    progress.speed = speed;
+  }
+  if (duration && duration > 0) {
+    progress.percent = done ? 100 : Math.min(100, (progress.outTime / duration) * 100);
+    if (done) {
+      progress.etaSeconds = 0;
+    } else if (progress.speed) {
+      progress.etaSeconds = Math.max(0, duration - progress.outTime) / progress.speed;
+    }
+  }
+  return progress;
+}
+
+/**
+ * Run ffprobe with an argument array
+ *
+ * @param args Arguments after "ffprobe"
+ * @param options Run options
+ * @returns Captured output
+ */
+export async function runFfprobe(args: string[], options: RunOptions = {}): Promise<RunResult> {
+  return run('ffprobe', args, options);
+}
+
+/**
+ * Pass a path to FFmpeg as a plain file, never as an option or protocol
+ */
+function fileArg(path: string): string {
+  return `file:${path}`;
+}
+
+/**
+ * Quote a path for a concat demuxer list ('...' with ' escaped as '\'')
+ */
+function concatListEntry(path: string): string {
+  if (/[\r\n]/.test(path)) {
+    throw new Error(`Video path contains a line break: ${JSON.stringify(path)}`);
+  }
+  return `file '${fileArg(path).replace(/'/g, "'\\''")}'`;
 }
 
 /**
@@ -20,7 +323,7 @@ export interface ConcatenateOptions {
  */
 export async function checkFfmpegInstalled(): Promise<boolean> {
   try {
-    await execAsync('ffmpeg -version');
+    await runFfmpeg(['-version']);
     return true;
   } catch {
     return false;
@@ -36,9 +339,12 @@ export async function getVideoDuration(videoPath: string): Promise<number> {
   }
 
   try {
-    const { stdout } = await execAsync(
-      `ffprobe -v error -show_entries format=duration -of default=noprint_wrappers=1:nokey=1 "${videoPath}"`
-    );
+    const { stdout } = await runFfprobe([
+      '-v', 'error',
+      '-show_entries', 'format=duration',
+      '-of', 'default=noprint_wrappers=1:nokey=1',
+      fileArg(videoPath),
+    ]);
     const duration = parseFloat(stdout.trim());
     if (isNaN(duration)) {
       throw new Error(`Failed to parse video duration: ${stdout}`);
@@ -49,6 +355,126 @@ export async function getVideoDuration(videoPath: string): Promise<number> {
   }
 }
 
+/**
+ * Get the dimensions and duration of a video
+ */
+export async function getVideoInfo(
+  videoPath: string
+): Promise<{ width: number; height: number; duration: number }> {
+  if (!existsSync(videoPath)) {
+    throw new Error(`Video file not found: ${videoPath}`);
+  }
+
+  try {
+    const { stdout } = await runFfprobe([
+      '-v', 'error',
+      '-select_streams', 'v:0',
+      '-show_entries', 'stream=width,height:format=duration',
+      '-of', 'json',
+      fileArg(videoPath),
+    ]);
+    const info = JSON.parse(stdout) as {
+      streams?: Array<{ width?: number; height?: number }>;
+      format?: { duration?: string };
+    };
+    const stream = info.streams?.[0];
+    const duration = parseFloat(info.format?.duration ?? '');
+    if (!stream?.width || !stream.height || isNaN(duration)) {
+      throw new Error(`Failed to parse video info: ${stdout}`);
+    }
+    return { width: stream.width, height: stream.height, duration };
+  } catch (error) {
+    throw new Error(`Failed to get video info: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Probe a video's duration, picture format and whether it has sound
+ */
+export async function probeVideo(videoPath: string): Promise<MediaInfo> {
+  if (!existsSync(videoPath)) {
+    throw new Error(`Video file not found: ${videoPath}`);
+  }
+
+  try {
+    const { stdout } = await runFfprobe([
+      '-v', 'error',
+      '-show_entries', 'stream=codec_type,width,height,r_frame_rate:format=duration',
+      '-of', 'json',
+      fileArg(videoPath),
+    ]);
+    const info = JSON.parse(stdout) as {
+      streams?: Array<{ codec_type?: string; width?: number; height?: number; r_frame_rate?: string }>;
+      format?: { duration?: string };
+    };
+    const video = info.streams?.find(stream => stream.codec_type === 'video');
+    const duration = parseFloat(info.format?.duration ?? '');
+    if (!video?.width || !video.height || isNaN(duration)) {
+      throw new Error(`No video stream found: ${stdout}`);
+    }
+    return {
+      duration,
+      width: video.width,
+      height: video.height,
+      // 0/0 means FFprobe couldn't tell; normalization then falls back to 24 fps
+      frameRate: video.r_frame_rate && !video.r_frame_rate.startsWith('0/') ? video.r_frame_rate : '24/1',
+      hasAudio: info.streams?.some(stream => stream.codec_type === 'audio') ?? false,
+    };
+  } catch (error) {
+    throw new Error(`Failed to probe video: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Extract a single frame of a video as an image (e.g. a poster)
+ */
+export async function extractFrame(
+  videoPath: string,
+  outputPath: string,
+  atSeconds: number = 0
+): Promise<void> {
+  if (!existsSync(videoPath)) {
+    throw new Error(`Video file not found: ${videoPath}`);
+  }
+
+  try {
+    await runFfmpeg(['-ss', String(atSeconds), '-i', fileArg(videoPath), '-frames:v', '1', '-y', fileArg(outputPath)]);
+  } catch (error) {
+    throw new Error(`Failed to extract frame: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Render a synthetic video (solid color + sine tone) using FFmpeg's lavfi sources
+ */
+export async function createTestVideo(
+  outputPath: string,
+  options: TestVideoOptions = {}
+): Promise<void> {
+  const {
+    duration = 4,
+    width = 320,
+    height = 180,
+    color = '000000',
+    frequency = 440,
+  } = options;
+
+  if (duration <= 0 || width <= 0 || height <= 0 || !/^[0-9a-f]{6}$/i.test(color)) {
+    throw new Error(`Invalid test video parameters: duration=${duration}, size=${width}x${height}, color=${color}`);
+  }
+
+  try {
+    await runFfmpeg([
+      '-f', 'lavfi', '-i', `color=c=0x${color}:s=${width}x${height}:d=${duration}:r=24`,
+      '-f', 'lavfi', '-i', `sine=frequency=${frequency}:duration=${duration}`,
+      '-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-c:a', 'aac', '-shortest',
+      '-y', fileArg(outputPath),
+    ]);
+  } catch (error) {
+    throw new Error(`Failed to create test video: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
 /**
  * Trim a video from startTime for the specified duration
  */
@@ -67,9 +493,12 @@ export async function trimVideo(
   }
 
   try {
-    await execAsync(
-      `ffmpeg -i "${videoPath}" -ss ${startTime} -t ${duration} -c copy "${outputPath}" -y`
-    );
+    await runFfmpeg([
+      '-i', fileArg(videoPath),
+      '-ss', String(startTime), '-t', String(duration),
+      '-c', 'copy',
+      '-y', fileArg(outputPath),
+    ]);
   } catch (error) {
     throw new Error(`Failed to trim video: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -82,7 +511,8 @@ export async function addAudioTrack(
   videoPath: string,
   audioPath: string,
   outputPath: string,
-  volume: number = 1.0
+  volume: number = 1.0,
+  options: AddAudioOptions = {}
 ): Promise<void> {
   if (!existsSync(videoPath)) {
     throw new Error(`Video file not found: ${videoPath}`);
@@ -97,10 +527,23 @@ export async function addAudioTrack(
   }
 
   try {
+    // The mix is as long as the video (duration=first)
+    const { duration, hasAudio } = await probeVideo(videoPath);
+    // A video without sound is mixed with silence of its length, so the
+    // background keeps the same level and stops with the video
+    const videoAudio = hasAudio
+      ? '[0:a]'
+      : `anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${seconds(duration)}[a0];[a0]`;
+
     // Mix video audio with background audio, adjust volume of background
-    await execAsync(
-      `ffmpeg -i "${videoPath}" -i "${audioPath}" -filter_complex "[1:a]volume=${volume}[a1];[0:a][a1]amix=inputs=2:duration=first[aout]" -map 0:v -map "[aout]" -c:v copy -c:a aac "${outputPath}" -y`
-    );
+    await runFfmpeg([
+      '-i', fileArg(videoPath),
+      '-i', fileArg(audioPath),
+      '-filter_complex', `[1:a]volume=${volume}[a1];${videoAudio}[a1]amix=inputs=2:duration=first[aout]`,
+      '-map', '0:v', '-map', '[aout]',
+      '-c:v', 'copy', '-c:a', 'aac',
+      '-y', fileArg(outputPath),
+    ], { onProgress: options.onProgress, duration });
   } catch (error) {
     throw new Error(`Failed to add audio track: ${error instanceof Error ? error.message : String(error)}`);
   }
@@ -125,51 +568,249 @@ export async function concatenateVideos(
     }
   }
 
-  const { transition = 'crossfade', transitionDuration = 0.5 } = options;
+  const { transition = 'crossfade', transitionDuration = 0.5, boundaries = [], workDir, onProgress } = options;
 
   try {
-    if (transition === 'cut') {
+    const resolved = resolveBoundaries(videoPaths.length, transition, transitionDuration, boundaries);
+    const first = resolved[0];
+
+    if (first ? resolved.every(b => b.transition === 'cut') : transition === 'cut') {
       // Simple concatenation without transitions
-      await concatenateWithCut(videoPaths, outputPath);
-    } else if (transition === 'crossfade') {
-      // Crossfade transition between videos
-      await concatenateWithCrossfade(videoPaths, outputPath, transitionDuration);
-    } else if (transition === 'fade') {
+      await concatenateWithCut(videoPaths, outputPath, resolved, workDir, onProgress);
+    } else if (first && resolved.every(b => b.transition === 'fade' && b.duration === first.duration)) {
       // Fade to black transition between videos
-      await concatenateWithFade(videoPaths, outputPath, transitionDuration);
+      await concatenateWithFade(videoPaths, outputPath, first.duration, onProgress);
     } else {
-      throw new Error(`Unknown transition type: ${transition}`);
+      // Crossfades, xfade effects, or a mix of transitions
+      await concatenateWithTransitions(videoPaths, outputPath, resolved, onProgress);
     }
   } catch (error) {
     throw new Error(`Failed to concatenate videos: ${error instanceof Error ? error.message : String(error)}`);
   }
 }
 
+/**
+ * Check whether a name is a supported transition
+ */
+export function isTransition(name: string): name is Transition {
+  return (TRANSITIONS as readonly string[]).includes(name);
+}
+
+/**
+ * Apply per-boundary overrides to the default transition
+ *
+ * @returns One validated transition per boundary (videoCount - 1)
+ */
+function resolveBoundaries(
+  videoCount: number,
+  transition: string,
+  transitionDuration: number,
+  boundaries: Array<BoundaryTransition | undefined>
+): Array<Required<BoundaryTransition>> {
+  if (!isTransition(transition)) {
+    throw new Error(`Unknown transition type: ${transition}`);
+  }
+  if (boundaries.length > Math.max(videoCount - 1, 0)) {
+    throw new Error(`Got ${boundaries.length} boundary transition(s) for ${videoCount} video(s)`);
+  }
+
+  return Array.from({ length: Math.max(videoCount - 1, 0) }, (_, i) => {
+    const name: string = boundaries[i]?.transition ?? transition;
+    const duration = boundaries[i]?.duration ?? transitionDuration;
+    if (!isTransition(name)) {
+      throw new Error(`Unknown transition type: ${name}`);
+    }
+    if (!(duration > 0) && name !== 'cut') {
+      throw new Error(`Transition duration must be positive, got: ${duration}`);
+    }
+    return { transition: name, duration };
+  });
+}
+
+/**
+ * Probe every input, in order
+ */
+async function probeAll(videoPaths: string[]): Promise<MediaInfo[]> {
+  const media: MediaInfo[] = [];
+  for (const videoPath of videoPaths) {
+    media.push(await probeVideo(videoPath));
+  }
+  return media;
+}
+
+/**
+ * Check whether clips can be joined by stream copy
+ *
+ * The concat demuxer copies packets as they are, so every clip needs the
+ * first one's frame size and rate and the same audio streams.
+ */
+function haveSameFormat(media: MediaInfo[]): boolean {
+  const [first, ...rest] = media;
+  return rest.every(
+    m =>
+      m.width === first?.width &&
+      m.height === first.height &&
+      m.frameRate === first.frameRate &&
+      m.hasAudio === first.hasAudio
+  );
+}
+
 /**
  * Concatenate videos with simple cut (no transition)
+ *
+ * Clips that all share one format are joined by stream copy; otherwise they
+ * go through the normalizing filter graph of concatenateWithTransitions.
  */
-async function concatenateWithCut(videoPaths: string[], outputPath: string): Promise<void> {
+async function concatenateWithCut(
+  videoPaths: string[],
+  outputPath: string,
+  boundaries: Array<Required<BoundaryTransition>>,
+  workDir?: string,
+  onProgress?: (progress: FfmpegProgress) => void
+): Promise<void> {
+  const concatContent = videoPaths.map(concatListEntry).join('\n');
+  const media = await probeAll(videoPaths);
+  if (!haveSameFormat(media)) {
+    await concatenateWithTransitions(videoPaths, outputPath, boundaries, onProgress, media);
+    return;
+  }
+
   // Create a temporary concat file
-  const concatListPath = outputPath + '.concat.txt';
+  const concatListPath = workDir
+    ? join(workDir, `${basename(outputPath)}.concat.txt`)
+    : outputPath + '.concat.txt';
   const fs = await import('fs/promises');
 
-  const concatContent = videoPaths.map(path => `file '${path}'`).join('\n');
   await fs.writeFile(concatListPath, concatContent);
 
   try {
-    await execAsync(
-      `ffmpeg -f concat -safe 0 -i "${concatListPath}" -c copy "${outputPath}" -y`
-    );
+    await runFfmpeg([
+      '-f', 'concat', '-safe', '0',
+      '-i', fileArg(concatListPath),
+      '-c', 'copy',
+      '-y', fileArg(outputPath),
+    ], { onProgress, duration: media.reduce((sum, m) => sum + m.duration, 0) });
   } finally {
     // Clean up concat file
     await fs.unlink(concatListPath).catch(() => {});
   }
 }
 
-async function concatenateWithCrossfade(
+/**
+ * Labels of the inputs' own streams ([0:v], [0:a], [1:v], ...)
+ */
+function rawInputs(count: number): StreamLabels[] {
+  return Array.from({ length: count }, (_, i) => ({ video: `[${i}:v]`, audio: `[${i}:a]` }));
+}
+
+/**
+ * Build filters that bring every input to one format before joining
+ *
+ * xfade and concat need identical frame sizes, frame rates and time bases, so
+ * each input is scaled (letterboxed where the aspect ratio differs) to the
+ * first input's size, resampled to its frame rate and converted to yuv420p.
+ * Audio is converted to 48 kHz stereo; inputs without audio get silence
+ * (anullsrc) of their own length so acrossfade and concat have a stream to use.
+ *
+ * @param inputs Probed inputs, in order
+ * @returns Filters to put first in the graph, and the labels of the results
+ */
+export function buildInputFilters(inputs: MediaInfo[]): { filters: string[]; labels: StreamLabels[] } {
+  const first = inputs[0];
+  if (!first) {
+    return { filters: [], labels: [] };
+  }
+  const { width, height, frameRate } = first;
+  const audioFormat = 'aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo';
+  const filters: string[] = [];
+
+  const labels = inputs.map((input, i) => {
+    filters.push(
+      `[${i}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${frameRate},format=yuv420p[in${i}v]`,
+      input.hasAudio
+        ? `[${i}:a]${audioFormat}[in${i}a]`
+        : `anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=${seconds(input.duration)},${audioFormat}[in${i}a]`
+    );
+    return { video: `[in${i}v]`, audio: `[in${i}a]` };
+  });
+
+  return { filters, labels };
+}
+
+/**
+ * Build the filter graph for a chain of transitions
+ *
+ * Videos are joined one boundary at a time onto the output so far:
+ * - cut: concat
+ * - fade: dip to black and silence (see buildFadeFilter), then concat
+ * - crossfade and xfade effects: xfade overlapping the clips, acrossfade for audio
+ *
+ * Transitions are shortened where a clip is too short to hold them.
+ *
+ * @param durations Duration of each input in seconds
+ * @param boundaries Transition at each boundary (durations.length - 1)
+ * @param inputs Stream labels of each input (default: the inputs' own streams)
+ * @returns filter_complex value producing [outv] and [outa], and the output duration
+ */
+export function buildTransitionFilter(
+  durations: number[],
+  boundaries: Array<Required<BoundaryTransition>>,
+  inputs: StreamLabels[] = rawInputs(durations.length)
+): { filter: string; duration: number } {
+  const filters: string[] = [];
+  let video = inputs[0]?.video ?? '[0:v]';
+  let audio = inputs[0]?.audio ?? '[0:a]';
+  let length = durations[0] ?? 0;
+
+  boundaries.forEach(({ transition, duration }, index) => {
+    const i = index + 1;
+    const next = durations[i] ?? 0;
+    const { video: nextVideo, audio: nextAudio } = inputs[i] ?? { video: `[${i}:v]`, audio: `[${i}:a]` };
+    const isLast = i === boundaries.length;
+    const outVideo = isLast ? '[outv]' : `[v${i}]`;
+    const outAudio = isLast ? '[outa]' : `[a${i}]`;
+
+    if (transition === 'cut') {
+      filters.push(`${video}${audio}${nextVideo}${nextAudio}concat=n=2:v=1:a=1${outVideo}${outAudio}`);
+      length += next;
+    } else if (transition === 'fade') {
+      const fade = seconds(Math.min(duration / 2, length, next));
+      const fadeOutAt = seconds(length - Number(fade));
+      filters.push(
+        `${video}fade=t=out:st=${fadeOutAt}:d=${fade}[fo${i}v]`,
+        `${audio}afade=t=out:st=${fadeOutAt}:d=${fade}[fo${i}a]`,
+        `${nextVideo}fade=t=in:st=0:d=${fade}[fi${i}v]`,
+        `${nextAudio}afade=t=in:st=0:d=${fade}[fi${i}a]`,
+        `[fo${i}v][fo${i}a][fi${i}v][fi${i}a]concat=n=2:v=1:a=1${outVideo}${outAudio}`
+      );
+      length += next;
+    } else {
+      const overlap = Math.min(duration, length, next);
+      const effect = transition === 'crossfade' ? 'fade' : transition;
+      filters.push(
+        `${video}${nextVideo}xfade=transition=${effect}:duration=${seconds(overlap)}:offset=${seconds(length - overlap)}${outVideo}`,
+        `${audio}${nextAudio}acrossfade=d=${seconds(overlap)}${outAudio}`
+      );
+      length += next - overlap;
+    }
+
+    video = outVideo;
+    audio = outAudio;
+  });
+
+  return { filter: filters.join(';'), duration: length };
+}
+
+/**
+ * Concatenate videos with per-boundary transitions in one filter graph
+ */
+async function concatenateWithTransitions(
   videoPaths: string[],
   outputPath: string,
-  transitionDuration: number
+  boundaries: Array<Required<BoundaryTransition>>,
+  onProgress?: (progress: FfmpegProgress) => void,
+  probed?: MediaInfo[]
 ): Promise<void> {
   if (videoPaths.length === 1) {
     const fs = await import('fs/promises');
@@ -181,40 +822,73 @@ async function concatenateWithCrossfade(
     return;
   }
 
-  const durations: number[] = [];
-  for (const videoPath of videoPaths) {
-    const dur = await getVideoDuration(videoPath);
-    durations.push(dur);
-  }
-
-  let filterComplex = '';
-  let audioFilterComplex = '';
-  let currentVideoLabel = '[0:v]';
-  let currentAudioLabel = '[0:a]';
-  let cumulativeOffset = durations[0]! - transitionDuration;
-
-  for (let i = 1; i < videoPaths.length; i++) {
-    const isLast = i === videoPaths.length - 1;
-    const nextVideoLabel = isLast ? '[outv]' : `[v${i}]`;
-    const nextAudioLabel = isLast ? '[outa]' : `[a${i}]`;
-    
-    filterComplex += `${currentVideoLabel}[${i}:v]xfade=transition=fade:duration=${transitionDuration}:offset=${cumulativeOffset}${nextVideoLabel};`;
-    audioFilterComplex += `${currentAudioLabel}[${i}:a]acrossfade=d=${transitionDuration}${nextAudioLabel};`;
-    
-    currentVideoLabel = nextVideoLabel;
-    currentAudioLabel = nextAudioLabel;
-    
-    if (!isLast) {
-      cumulativeOffset += durations[i]! - transitionDuration;
+  const media = probed ?? (await probeAll(videoPaths));
+  const prepared = buildInputFilters(media);
+  const { filter, duration } = buildTransitionFilter(
+    media.map(m => m.duration),
+    boundaries,
+    prepared.labels
+  );
+
+  await runFfmpeg([
+    ...videoPaths.flatMap(path => ['-i', fileArg(path)]),
+    '-filter_complex', [...prepared.filters, filter].join(';'),
+    '-map', '[outv]', '-map', '[outa]',
+    '-y', fileArg(outputPath),
+  ], { onProgress, duration });
+}
+
+/**
+ * Build the filter graph for a fade-through-black between clips
+ *
+ * Each boundary dips to black (and silence) over transitionDuration: the
+ * outgoing clip fades out over the first half and the next clip fades in over
+ * the second. Clips are joined end to end, so the output is as long as the
+ * inputs together. Fades are shortened on clips too short to hold them.
+ *
+ * @param durations Duration of each input in seconds
+ * @param transitionDuration Length of each dip to black in seconds
+ * @param inputs Stream labels of each input (default: the inputs' own streams)
+ * @returns filter_complex value producing [outv] and [outa]
+ */
+export function buildFadeFilter(
+  durations: number[],
+  transitionDuration: number,
+  inputs: StreamLabels[] = rawInputs(durations.length)
+): string {
+  const last = durations.length - 1;
+  const filters: string[] = [];
+  const segments: string[] = [];
+
+  durations.forEach((duration, i) => {
+    const fadesIn = i > 0;
+    const fadesOut = i < last;
+    const fade = Math.min(transitionDuration / 2, duration / (fadesIn && fadesOut ? 2 : 1));
+    const video: string[] = [];
+    const audio: string[] = [];
+
+    if (fadesIn) {
+      video.push(`fade=t=in:st=0:d=${seconds(fade)}`);
+      audio.push(`afade=t=in:st=0:d=${seconds(fade)}`);
+    }
+    if (fadesOut) {
+      video.push(`fade=t=out:st=${seconds(duration - fade)}:d=${seconds(fade)}`);
+      audio.push(`afade=t=out:st=${seconds(duration - fade)}:d=${seconds(fade)}`);
     }
-  }
 
-  const fullFilter = filterComplex + audioFilterComplex.slice(0, -1);
-  const inputs = videoPaths.map(path => `-i "${path}"`).join(' ');
+    const input = inputs[i] ?? { video: `[${i}:v]`, audio: `[${i}:a]` };
+    filters.push(`${input.video}${video.join(',')}[v${i}]`, `${input.audio}${audio.join(',')}[a${i}]`);
+    segments.push(`[v${i}][a${i}]`);
+  });
 
-  await execAsync(
-    `ffmpeg ${inputs} -filter_complex "${fullFilter}" -map "[outv]" -map "[outa]" "${outputPath}" -y`
-  );
+  return [...filters, `${segments.join('')}concat=n=${durations.length}:v=1:a=1[outv][outa]`].join(';');
+}
+
+/**
+ * Format seconds for a filter argument without float noise (4.754999 -> 4.755)
+ */
+function seconds(value: number): string {
+  return String(Number(value.toFixed(3)));
 }
 
 /**
@@ -223,7 +897,8 @@ async function concatenateWithCrossfade(
 async function concatenateWithFade(
   videoPaths: string[],
   outputPath: string,
-  duration: number
+  duration: number,
+  onProgress?: (progress: FfmpegProgress) => void
 ): Promise<void> {
   if (videoPaths.length === 1) {
     // No transition needed for single video
@@ -236,31 +911,15 @@ async function concatenateWithFade(
     return;
   }
 
-  // For fade transition, we fade out each clip and fade in the next
-  // This is complex with FFmpeg, using a simpler concatenation approach
-  const inputs = videoPaths.map(path => `-i "${path}"`).join(' ');
-
-  // Build filter to fade out and fade in
-  let filterComplex = '';
-  for (let i = 0; i < videoPaths.length; i++) {
-    if (i < videoPaths.length - 1) {
-      // Fade out at the end of each video except the last
-      filterComplex += `[${i}:v]fade=t=out:st=0:d=${duration}[v${i}out];`;
-      // Fade in at the start of next video
-      filterComplex += `[${i + 1}:v]fade=t=in:st=0:d=${duration}[v${i + 1}in];`;
-    }
-  }
-
-  // Concatenate the faded segments
-  const concatInputs = videoPaths.map((_, i) => {
-    if (i === 0) return '[v0out]';
-    if (i === videoPaths.length - 1) return `[v${i}in]`;
-    return `[v${i}out][v${i}in]`;
-  }).join('');
-
-  filterComplex += `${concatInputs}concat=n=${videoPaths.length}:v=1:a=0[outv]`;
-
-  await execAsync(
-    `ffmpeg ${inputs} -filter_complex "${filterComplex}" -map "[outv]" "${outputPath}" -y`
-  );
+  // Fade-outs are timed from the end of each clip
+  const media = await probeAll(videoPaths);
+  const durations = media.map(m => m.duration);
+  const prepared = buildInputFilters(media);
+
+  await runFfmpeg([
+    ...videoPaths.flatMap(path => ['-i', fileArg(path)]),
+    '-filter_complex', [...prepared.filters, buildFadeFilter(durations, duration, prepared.labels)].join(';'),
+    '-map', '[outv]', '-map', '[outa]',
+    '-y', fileArg(outputPath),
+  ], { onProgress, duration: durations.reduce((sum, d) => sum + d, 0) });
 }
@@ -2,7 +2,9 @@
  * File Handler Utility
  *
  * Handles file operations for images, videos, and assets:
- * - Saving generated images and videos
+ * - Saving generated images and videos, with their provenance
+ * - Keeping the asset manifest and version history up to date
+ * - Keeping writes inside the workspace and honoring the overwrite policy
  * - Loading images from disk
  * - Directory management
  * - Filename sanitization
@@ -10,7 +12,26 @@
 
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { existsSync } from 'fs';
+import { getProjectConfig, getProjectDir } from '../config/project-config.js';
+import {
+  buildProvenance,
+  getSidecarPath,
+  readProvenance,
+  sha256,
+  stampAsset,
+  writeProvenanceSidecar,
+  type ProvenanceInput,
+} from './provenance.js';
+import {
+  getAssetId,
+  readManifest,
+  recordManifestEntry,
+  resolveManifestPath,
+  type ManifestRecord,
+} from './manifest.js';
+import { getVersion, recordVersion, type AssetVersion } from './asset-history.js';
+import { assertWritablePath, isInside, type OverwritePolicy } from './path-safety.js';
+import type { TempWorkspace } from './temp-workspace.js';
 
 /**
  * Save image buffer to disk
@@ -19,28 +40,22 @@ import { existsSync } from 'fs';
  * @param outputDir Directory to save to
  * @param prompt Prompt used to generate the image
  * @param index Index for batch generations
+ * @param provenance How the image was made; recorded in a sidecar and PNG text chunks
  * @returns Path to saved file
  */
 export async function saveImage(
   buffer: Buffer,
   outputDir: string,
   prompt: string,
-  index: number = 0
+  index: number = 0,
+  provenance?: ProvenanceInput
 ): Promise<string> {
-  // Ensure output directory exists
-  await ensureDirectory(outputDir);
-
   // Generate filename from prompt
-  const baseFilename = generateFilename(prompt);
+  const baseFilename = applyNamingTemplate(generateFilename(prompt));
   const filename = index > 0 ? `${baseFilename}_${index}.png` : `${baseFilename}.png`;
 
-  // Handle duplicate filenames
-  const filepath = await getUniqueFilepath(outputDir, filename);
-
-  // Write file
-  await fs.writeFile(filepath, buffer);
-
-  return filepath;
+  // Write file; an earlier save under the same name is handled by the overwrite policy
+  return writeAsset(path.join(outputDir, filename), buffer, provenance);
 }
 
 /**
@@ -49,32 +64,201 @@ export async function saveImage(
  * @param buffer Video data
  * @param outputDir Directory to save to (optional)
  * @param prompt Prompt used to generate the video
+ * @param provenance How the video was made; recorded in a sidecar
  * @returns Path to saved file
  */
 export async function saveVideo(
   buffer: Buffer,
   outputDir: string | undefined,
-  prompt: string
+  prompt: string,
+  provenance?: ProvenanceInput
 ): Promise<string> {
   // Use provided directory or default
   const dir = outputDir || getOutputDir();
 
-  // Ensure output directory exists
-  await ensureDirectory(dir);
-
   // Generate filename from prompt
-  const baseFilename = generateFilename(prompt);
+  const baseFilename = applyNamingTemplate(generateFilename(prompt));
   const filename = `${baseFilename}.mp4`;
 
-  // Handle duplicate filenames
-  const filepath = await getUniqueFilepath(dir, filename);
+  // Write file; an earlier save under the same name is handled by the overwrite policy
+  return writeAsset(path.join(dir, filename), buffer, provenance);
+}
+
+/**
+ * Write a generated asset to an exact path
+ *
+ * The path is checked with checkOutputPath() first. With provenance, PNG
+ * images get the record embedded as text chunks and a
+ * `<file>.provenance.json` sidecar is written next to the asset. Every asset
+ * is recorded in the manifest and, unless the policy is "replace",
+ * snapshotted as a new version in the asset history.
+ *
+ * @param filepath Destination path
+ * @param buffer Asset data
+ * @param provenance How the asset was made
+ * @param overwrite Overwrite policy (default: from the project config)
+ * @param sidecar Write the sidecar (default: true). Turn it off inside
+ *   platform bundles such as Android res/ directories, which only accept their
+ *   own file types; PNGs still carry the record in their text chunks.
+ * @returns Path to saved file
+ * @throws PathSafetyError when the path is outside the workspace or may not be overwritten
+ */
+export async function writeAsset(
+  filepath: string,
+  buffer: Buffer,
+  provenance?: ProvenanceInput,
+  overwrite: OverwritePolicy = getOverwritePolicy(),
+  sidecar: boolean = true
+): Promise<string> {
+  await checkOutputPath(filepath, overwrite);
+  await ensureDirectory(path.dirname(filepath));
 
-  // Write file
-  await fs.writeFile(filepath, buffer);
+  if (!provenance) {
+    await fs.writeFile(filepath, buffer);
+    // Drop the sidecar of an earlier version so it can't be mistaken for this one's
+    await fs.rm(getSidecarPath(filepath), { force: true });
+    await trackAsset(filepath, { sha256: sha256(buffer), createdAt: new Date().toISOString() }, overwrite);
+    return filepath;
+  }
 
+  const { data, provenance: record } = await stampAsset(buffer, provenance);
+  await fs.writeFile(filepath, data);
+  if (sidecar) {
+    await writeProvenanceSidecar(filepath, record);
+  } else {
+    await fs.rm(getSidecarPath(filepath), { force: true });
+  }
+  await trackAsset(filepath, record, overwrite);
   return filepath;
 }
 
+/**
+ * Record a written asset in the manifest and, unless replacing, snapshot it in the history
+ */
+async function trackAsset(
+  filepath: string,
+  record: ManifestRecord,
+  overwrite: OverwritePolicy,
+  restoredFrom?: number
+): Promise<AssetVersion | undefined> {
+  const manifestPath = getManifestPath();
+  const id = getAssetId(manifestPath, filepath);
+  const version =
+    overwrite === 'replace' ? undefined : await recordVersion(getHistoryDir(), id, filepath, record, restoredFrom);
+  await recordManifestEntry(manifestPath, id, filepath, record, version?.version);
+  return version;
+}
+
+/**
+ * Roll an asset back to an earlier version
+ *
+ * The snapshot and its sidecar are copied back to the asset's path and
+ * recorded as a new version, so the rollback itself can be undone.
+ *
+ * @param id Logical asset ID
+ * @param version Version to restore
+ * @returns Restored path and the new version
+ */
+export async function restoreAssetVersion(
+  id: string,
+  version: number
+): Promise<{ path: string; version: AssetVersion }> {
+  const manifestPath = getManifestPath();
+  const entry = (await readManifest(manifestPath)).assets[id];
+  if (!entry) {
+    throw new Error(`Unknown asset ID: ${id}`);
+  }
+
+  const snapshot = await getVersion(getHistoryDir(), id, version);
+  const assetPath = resolveManifestPath(manifestPath, entry.path);
+  await ensureDirectory(path.dirname(assetPath));
+  await fs.copyFile(snapshot.path, assetPath);
+
+  const provenance = await readProvenance(snapshot.path);
+  if (provenance) {
+    await writeProvenanceSidecar(assetPath, provenance);
+  } else {
+    await fs.rm(getSidecarPath(assetPath), { force: true });
+  }
+
+  const record = { ...provenance, sha256: snapshot.sha256, createdAt: new Date().toISOString() };
+  return { path: assetPath, version: (await trackAsset(assetPath, record, 'version', version))! };
+}
+
+/**
+ * Record provenance for an asset written by something else (e.g. FFmpeg)
+ *
+ * Only the sidecar, history and manifest are written; the asset itself is left
+ * untouched. Check the path with checkOutputPath() before writing the asset.
+ *
+ * @param filepath Asset path
+ * @param provenance How the asset was made
+ * @returns Path of the sidecar
+ */
+export async function recordProvenance(filepath: string, provenance: ProvenanceInput): Promise<string> {
+  const record = { ...(await buildProvenance(provenance)), sha256: sha256(await fs.readFile(filepath)) };
+  const sidecarPath = await writeProvenanceSidecar(filepath, record);
+  await trackAsset(filepath, record, getOverwritePolicy());
+  return sidecarPath;
+}
+
+/**
+ * Get the directory outputs must stay inside
+ *
+ * Order: NANOBANANA_WORKSPACE_ROOT, the config's workspaceRoot, the project directory
+ *
+ * @returns Workspace root
+ */
+export function getWorkspaceRoot(): string {
+  return process.env.NANOBANANA_WORKSPACE_ROOT || getProjectConfig().workspaceRoot || getProjectDir();
+}
+
+/**
+ * Get the overwrite policy from the project config
+ *
+ * @returns Configured policy, or "version" (overwrite and keep history)
+ */
+export function getOverwritePolicy(): OverwritePolicy {
+  return getProjectConfig().overwrite ?? 'version';
+}
+
+/**
+ * Check that an output file may be written
+ *
+ * Writes are allowed inside the workspace root, OUTPUT_DIR, the config's
+ * output directories that are inside the workspace (or all of them with
+ * allowExternalOutputDirs) and the calling job's temp workspace. Symlinks are
+ * resolved first, so a link inside the workspace can't be used to write
+ * outside it.
+ *
+ * @param filepath Destination path
+ * @param overwrite Overwrite policy (default: from the project config)
+ * @param tempWorkspace Temp workspace of the calling job, if it has one
+ * @throws PathSafetyError (OUTSIDE_WORKSPACE or FILE_EXISTS) when the write is refused
+ */
+export async function checkOutputPath(
+  filepath: string,
+  overwrite: OverwritePolicy = getOverwritePolicy(),
+  tempWorkspace?: TempWorkspace
+): Promise<void> {
+  const workspaceRoot = path.resolve(getWorkspaceRoot());
+  const config = getProjectConfig();
+  // OUTPUT_DIR is set by the user; a config file can arrive with a cloned
+  // repository, so its directories only count outside the workspace when it opts in
+  const configDirs = [config.outputDir, ...Object.values(config.outputDirs ?? {})].filter(
+    (dir): dir is string => !!dir
+  );
+  const roots = [
+    workspaceRoot,
+    ...(process.env.OUTPUT_DIR ? [process.env.OUTPUT_DIR] : []),
+    ...(config.allowExternalOutputDirs
+      ? configDirs
+      : configDirs.filter((dir) => isInside(path.resolve(dir), workspaceRoot))),
+    ...(tempWorkspace ? [tempWorkspace.dir] : []),
+  ];
+  await assertWritablePath(filepath, roots, overwrite);
+}
+
 /**
  * Load image from disk
  *
@@ -109,6 +293,20 @@ export async function ensureDirectory(dirPath: string): Promise<void> {
   }
 }
 
+/**
+ * Create an output directory once its location is allowed
+ *
+ * Only the location is checked; files written into the directory still go
+ * through the overwrite policy.
+ *
+ * @param dirPath Directory path, often from tool arguments
+ * @throws PathSafetyError (OUTSIDE_WORKSPACE) before anything is created
+ */
+export async function ensureOutputDirectory(dirPath: string): Promise<void> {
+  await checkOutputPath(dirPath, 'replace');
+  await ensureDirectory(dirPath);
+}
+
 /**
  * Generate sanitized filename from prompt
  *
@@ -140,39 +338,69 @@ export function generateFilename(prompt: string): string {
 }
 
 /**
- * Get output directory from environment or default
+ * Apply the project naming template to a base filename
  *
- * @returns Output directory path
+ * @param name Sanitized base filename
+ * @returns Filename from the `naming.template` config, or name unchanged
  */
-export function getOutputDir(): string {
-  return process.env.OUTPUT_DIR || './generated-assets';
+export function applyNamingTemplate(name: string): string {
+  const template = getProjectConfig().naming?.template;
+  if (!template) {
+    return name;
+  }
+
+  const now = new Date();
+  return template
+    .replace(/\{name\}/g, name)
+    .replace(/\{date\}/g, now.toISOString().slice(0, 10))
+    .replace(/\{timestamp\}/g, String(now.getTime()));
 }
 
 /**
- * Get unique filepath by adding incrementing suffix if file exists
+ * Get the path for a tool that writes a single file when no outputPath was given
  *
- * @param dirPath Directory path
- * @param filename Desired filename
- * @returns Unique filepath
+ * @param tool Tool name
+ * @param filename File name to use
+ * @returns Path in the tool's output directory (created if needed)
  */
-async function getUniqueFilepath(dirPath: string, filename: string): Promise<string> {
-  const filepath = path.join(dirPath, filename);
-
-  if (!existsSync(filepath)) {
-    return filepath;
-  }
-
-  // File exists, add incrementing suffix
-  const ext = path.extname(filename);
-  const basename = path.basename(filename, ext);
+export async function getDefaultOutputPath(tool: string, filename: string): Promise<string> {
+  const dir = getOutputDir(tool);
+  await ensureDirectory(dir);
+  return path.join(dir, filename);
+}
 
-  let counter = 1;
-  let uniqueFilepath = path.join(dirPath, `${basename}_${counter}${ext}`);
+/**
+ * Get output directory from config, environment or default
+ *
+ * Order: per-tool config, OUTPUT_DIR, the config's outputDir, ./generated-assets
+ *
+ * @param tool Tool the output is for
+ * @returns Output directory path
+ */
+export function getOutputDir(tool?: string): string {
+  const config = getProjectConfig();
+  return (
+    (tool && config.outputDirs?.[tool]) ||
+    process.env.OUTPUT_DIR ||
+    config.outputDir ||
+    './generated-assets'
+  );
+}
 
-  while (existsSync(uniqueFilepath)) {
-    counter++;
-    uniqueFilepath = path.join(dirPath, `${basename}_${counter}${ext}`);
-  }
+/**
+ * Get the path of the asset manifest
+ *
+ * @returns manifest.json in the default output directory
+ */
+export function getManifestPath(): string {
+  return path.join(getOutputDir(), 'manifest.json');
+}
 
-  return uniqueFilepath;
+/**
+ * Get the root of the asset history store
+ *
+ * @returns .history in the default output directory
+ */
+export function getHistoryDir(): string {
+  return path.join(getOutputDir(), '.history');
 }
@@ -6,9 +6,11 @@
  * - Cropping
  * - Format conversion
  * - Optimization
+ * - Side-by-side comparisons
  */
 
 import sharp, { type Sharp } from 'sharp';
+import { escapeXml } from './markup.js';
 
 export interface ResizeOptions {
   /** Fit mode (cover, contain, fill, inside, outside) */
@@ -19,6 +21,17 @@ export interface ResizeOptions {
   background?: string;
 }
 
+export interface SideBySideOptions {
+  /** Caption drawn above each image */
+  labels?: [string, string];
+  /** Height both images are scaled to (default: the taller image, at most 1024) */
+  height?: number;
+  /** Space around and between the images in pixels (default: 16) */
+  gap?: number;
+  /** Canvas color (default: #ffffff) */
+  background?: string;
+}
+
 export interface CropRegion {
   /** Left position */
   left: number;
@@ -208,3 +221,59 @@ export async function resizeToSizes(
     throw new Error('Batch resize failed');
   }
 }
+
+/**
+ * Place two images next to each other on one canvas
+ *
+ * Both images are scaled to the same height, keeping their aspect ratios.
+ *
+ * @param left Left image buffer
+ * @param right Right image buffer
+ * @param options Labels, height, spacing and background
+ * @returns PNG image buffer
+ */
+export async function sideBySide(
+  left: Buffer,
+  right: Buffer,
+  options: SideBySideOptions = {}
+): Promise<Buffer> {
+  try {
+    const { labels, gap = 16, background = '#ffffff' } = options;
+    const [leftMeta, rightMeta] = await Promise.all([getMetadata(left), getMetadata(right)]);
+    const height = options.height ?? Math.min(Math.max(leftMeta.height, rightMeta.height), 1024);
+
+    const [leftImage, rightImage] = await Promise.all(
+      [left, right].map((buffer) => sharp(buffer).resize({ height }).png().toBuffer({ resolveWithObject: true }))
+    );
+    const leftWidth = leftImage!.info.width;
+    const rightWidth = rightImage!.info.width;
+
+    const labelHeight = labels ? 40 : 0;
+    const width = leftWidth + rightWidth + gap * 3;
+    const top = gap + labelHeight;
+
+    const layers: sharp.OverlayOptions[] = [
+      { input: leftImage!.data, left: gap, top },
+      { input: rightImage!.data, left: gap * 2 + leftWidth, top },
+    ];
+    if (labels) {
+      const text = (label: string, x: number) =>
+        `<text x="${x}" y="${gap + 26}" font-family="sans-serif" font-size="22" fill="#333333">${escapeXml(label)}</text>`;
+      const svg = `<svg width="${width}" height="${labelHeight + gap}" xmlns="http://www.w3.org/2000/svg">` +
+        `${text(labels[0], gap)}${text(labels[1], gap * 2 + leftWidth)}</svg>`;
+      layers.push({ input: Buffer.from(svg), left: 0, top: 0 });
+    }
+
+    return await sharp({
+      create: { width, height: height + top + gap, channels: 4, background },
+    })
+      .composite(layers)
+      .png()
+      .toBuffer();
+  } catch (error) {
+    if (error instanceof Error) {
+      throw new Error(`Side-by-side comparison failed: ${error.message}`);
+    }
+    throw new Error('Side-by-side comparison failed');
+  }
+}
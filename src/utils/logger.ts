@@ -0,0 +1,99 @@
+/**
+ * Logger
+ *
+ * Leveled, structured logging for tools. Every record is one JSON line so it
+ * can be filtered and parsed instead of mixing emoji text into opencode's
+ * output:
+ *
+ *   {"time":"2026-01-05T10:00:00.000Z","level":"info","job":"generate_storyboard_video","jobId":"3f2a9c1e","msg":"Scene completed","scene":2,"total":5}
+ *
+ * Each tool call creates its own logger, and every record it writes carries
+ * the same jobId so the lines of one job can be picked out of a shared log.
+ *
+ * - NANOBANANA_LOG_LEVEL: debug, info, warn (default), error or silent
+ * - NANOBANANA_LOG_FILE: append records to this file instead of stderr
+ */
+
+import { randomUUID } from 'crypto';
+import { appendFileSync } from 'fs';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  /** Correlation ID shared by every record of this job */
+  readonly jobId: string;
+  debug(msg: string, fields?: LogFields): void;
+  info(msg: string, fields?: LogFields): void;
+  warn(msg: string, fields?: LogFields): void;
+  error(msg: string, fields?: LogFields): void;
+  /** Logger for the same job that adds fields to every record */
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel | 'silent', number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+/**
+ * Get the minimum level that is written
+ *
+ * @returns NANOBANANA_LOG_LEVEL, or warn when unset or unknown
+ */
+export function getLogLevel(): LogLevel | 'silent' {
+  const level = process.env.NANOBANANA_LOG_LEVEL?.toLowerCase();
+  return level && level in LEVELS ? (level as LogLevel | 'silent') : 'warn';
+}
+
+/**
+ * Serialize a record, turning errors into their name and message
+ */
+function serialize(record: LogFields): string {
+  return JSON.stringify(record, (_key, value: unknown) =>
+    value instanceof Error ? { name: value.name, message: value.message } : value
+  );
+}
+
+function write(line: string): void {
+  const file = process.env.NANOBANANA_LOG_FILE;
+  if (file) {
+    try {
+      appendFileSync(file, line + '\n');
+      return;
+    } catch {
+      // Fall back to stderr so the record isn't lost
+    }
+  }
+  process.stderr.write(line + '\n');
+}
+
+/**
+ * Create a logger for one job
+ *
+ * @param job Job name, usually the tool name
+ * @param fields Fields added to every record
+ * @param jobId Correlation ID (default: a new random ID)
+ * @returns Logger
+ */
+export function createLogger(job: string, fields: LogFields = {}, jobId: string = randomUUID().slice(0, 8)): Logger {
+  const log = (level: LogLevel, msg: string, extra?: LogFields) => {
+    if (LEVELS[level] < LEVELS[getLogLevel()]) {
+      return;
+    }
+    write(serialize({ time: new Date().toISOString(), level, job, jobId, msg, ...fields, ...extra }));
+  };
+
+  return {
+    jobId,
+    debug: (msg, extra) => log('debug', msg, extra),
+    info: (msg, extra) => log('info', msg, extra),
+    warn: (msg, extra) => log('warn', msg, extra),
+    error: (msg, extra) => log('error', msg, extra),
+    child: (extra) => createLogger(job, { ...fields, ...extra }, jobId),
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Asset Manifest
+ *
+ * A lockfile for generated assets. Every save through file-handler records the
+ * asset under a logical ID with its content hash and generation inputs, so a
+ * pipeline can tell which files are missing, were edited by hand, or were made
+ * from sources that have since changed.
+ *
+ * Location: <output dir>/manifest.json (default: ./generated-assets/manifest.json)
+ */
+
+import { readFile } from 'fs/promises';
+import { dirname, extname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { sha256, type AssetProvenance, type ProvenanceSource } from './provenance.js';
+import { createWriteQueue, writeFileAtomic } from './write-queue.js';
+
+export interface ManifestEntry {
+  /** Asset file, relative to the manifest's directory when inside it */
+  path: string;
+  sha256: string;
+  tool?: string;
+  prompt?: string;
+  provider?: string;
+  model?: string;
+  options?: Record<string, unknown>;
+  /** Source files and their hashes at generation time */
+  inputs: ProvenanceSource[];
+  /** ISO timestamp of the last save */
+  updatedAt: string;
+  /** Current version in the asset history (see ./asset-history.ts) */
+  version?: number;
+}
+
+export interface AssetManifest {
+  version: 1;
+  /** Entries keyed by logical asset ID */
+  assets: Record<string, ManifestEntry>;
+}
+
+/**
+ * - ok: file matches the manifest and its inputs are unchanged
+ * - missing: file no longer exists
+ * - modified: file content differs from what was generated
+ * - stale: an input changed or disappeared since the asset was generated
+ */
+export type AssetStatus = 'ok' | 'missing' | 'modified' | 'stale';
+
+export interface AssetCheck {
+  id: string;
+  path: string;
+  status: AssetStatus;
+  /** Inputs that changed or disappeared (stale assets only) */
+  changedInputs?: string[];
+}
+
+export interface ManifestReport {
+  manifestPath: string;
+  counts: Record<AssetStatus, number>;
+  assets: AssetCheck[];
+}
+
+/** What is known about a saved asset; assets saved without provenance only have a hash */
+export type ManifestRecord = Pick<AssetProvenance, 'sha256' | 'createdAt'> & Partial<AssetProvenance>;
+
+/** Serializes writes within this process so concurrent saves don't clobber each other */
+const writeQueue = createWriteQueue();
+
+function toPosix(path: string): string {
+  return path.split(sep).join('/');
+}
+
+function toManifestPath(manifestPath: string, assetPath: string): string {
+  const relativePath = relative(dirname(resolve(manifestPath)), resolve(assetPath));
+  return relativePath.startsWith('..') || isAbsolute(relativePath) ? resolve(assetPath) : toPosix(relativePath);
+}
+
+/**
+ * Resolve a manifest entry's path
+ *
+ * @param manifestPath Manifest path
+ * @param entryPath Entry path, relative to the manifest or absolute
+ * @returns Path usable from the working directory
+ */
+export function resolveManifestPath(manifestPath: string, entryPath: string): string {
+  return isAbsolute(entryPath) ? entryPath : join(dirname(manifestPath), entryPath);
+}
+
+/**
+ * Get the logical ID of an asset
+ *
+ * The ID is the asset's path relative to the manifest without its extension
+ * (e.g. `app-icons/ios/AppIcon.appiconset/Icon-60@2x`), so regenerating an
+ * asset under the same name updates the same entry.
+ *
+ * @param manifestPath Manifest path
+ * @param assetPath Asset path
+ * @returns Logical asset ID
+ */
+export function getAssetId(manifestPath: string, assetPath: string): string {
+  const path = toManifestPath(manifestPath, assetPath);
+  return toPosix(path.slice(0, path.length - extname(path).length));
+}
+
+/**
+ * Read a manifest
+ *
+ * Assets are keyed by IDs from tool args, so they're kept in a null-prototype
+ * record where IDs such as `constructor` don't find inherited properties.
+ *
+ * @param manifestPath Manifest path
+ * @returns Manifest, empty when the file doesn't exist yet
+ */
+export async function readManifest(manifestPath: string): Promise<AssetManifest> {
+  const assets: AssetManifest['assets'] = Object.create(null);
+  try {
+    const parsed = JSON.parse(await readFile(manifestPath, 'utf-8')) as Partial<AssetManifest>;
+    return { version: 1, assets: Object.assign(assets, typeof parsed.assets === 'object' ? parsed.assets : {}) };
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return { version: 1, assets };
+    }
+    throw new Error(`Failed to read asset manifest ${manifestPath}: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Record a saved asset in the manifest
+ *
+ * @param manifestPath Manifest path
+ * @param id Logical asset ID (replaces any entry with the same ID)
+ * @param assetPath Path the asset was written to
+ * @param provenance Provenance of the asset (at least its hash and save time)
+ * @param version Version number in the asset history
+ */
+export function recordManifestEntry(
+  manifestPath: string,
+  id: string,
+  assetPath: string,
+  provenance: ManifestRecord,
+  version?: number
+): Promise<void> {
+  return writeQueue.run(async () => {
+    const manifest = await readManifest(manifestPath);
+    manifest.assets[id] = {
+      path: toManifestPath(manifestPath, assetPath),
+      sha256: provenance.sha256,
+      ...(provenance.tool && { tool: provenance.tool }),
+      ...(provenance.prompt !== undefined && { prompt: provenance.prompt }),
+      ...(provenance.provider && { provider: provenance.provider }),
+      ...(provenance.model && { model: provenance.model }),
+      ...(provenance.options && { options: provenance.options }),
+      inputs: provenance.inputs ?? [],
+      updatedAt: provenance.createdAt,
+      ...(version !== undefined && { version }),
+    };
+    await writeFileAtomic(manifestPath, JSON.stringify(manifest, null, 2));
+  });
+}
+
+async function hashFile(path: string): Promise<string | undefined> {
+  try {
+    return sha256(await readFile(path));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Check every asset in a manifest against the files on disk
+ *
+ * @param manifestPath Manifest path
+ * @param ids Only check these asset IDs (default: all)
+ * @returns Status of each asset and counts per status
+ * @throws Error when an ID is not in the manifest
+ */
+export async function verifyManifest(manifestPath: string, ids?: string[]): Promise<ManifestReport> {
+  await writeQueue.idle();
+  const manifest = await readManifest(manifestPath);
+
+  const unknown = (ids ?? []).filter((id) => !Object.hasOwn(manifest.assets, id));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown asset ID(s): ${unknown.join(', ')}`);
+  }
+
+  const assets: AssetCheck[] = [];
+  for (const id of ids ?? Object.keys(manifest.assets).sort()) {
+    const entry = manifest.assets[id]!;
+    const hash = await hashFile(resolveManifestPath(manifestPath, entry.path));
+
+    if (hash === undefined) {
+      assets.push({ id, path: entry.path, status: 'missing' });
+      continue;
+    }
+    if (hash !== entry.sha256) {
+      assets.push({ id, path: entry.path, status: 'modified' });
+      continue;
+    }
+
+    const changedInputs: string[] = [];
+    for (const input of entry.inputs) {
+      if ((await hashFile(input.path)) !== input.sha256) {
+        changedInputs.push(input.path);
+      }
+    }
+    assets.push(
+      changedInputs.length > 0
+        ? { id, path: entry.path, status: 'stale', changedInputs }
+        : { id, path: entry.path, status: 'ok' }
+    );
+  }
+
+  const counts: Record<AssetStatus, number> = { ok: 0, missing: 0, modified: 0, stale: 0 };
+  for (const asset of assets) {
+    counts[asset.status]++;
+  }
+  return { manifestPath, counts, assets };
+}
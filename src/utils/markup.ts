@@ -0,0 +1,16 @@
+/**
+ * Markup Utility
+ *
+ * Escaping for text placed in generated SVG and HTML (stamped labels, the
+ * asset gallery).
+ */
+
+/**
+ * Escape text for XML, SVG or HTML content and attribute values
+ *
+ * @param text Text to escape
+ * @returns Text with markup characters as numeric character references
+ */
+export function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
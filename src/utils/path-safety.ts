@@ -0,0 +1,125 @@
+/**
+ * Path Safety
+ *
+ * Output paths often come straight from tool arguments, so an agent could ask
+ * for a file anywhere on disk. Before anything is written the destination is
+ * checked against:
+ * - The allowed roots (the workspace, configured output directories inside it
+ *   and the plugin's temp workspaces), after resolving symlinks so a link
+ *   inside the workspace can't point out
+ * - The overwrite policy, when the file already exists
+ *
+ * Refusals throw a PathSafetyError whose code is reported in the tool result.
+ */
+
+import { lstat, readlink, realpath } from 'fs/promises';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+
+/**
+ * What to do when an output file already exists
+ * - never: refuse to write
+ * - version: overwrite and keep the earlier file in the asset history
+ * - replace: overwrite without adding a history version
+ */
+export type OverwritePolicy = 'never' | 'version' | 'replace';
+
+export type PathSafetyErrorCode = 'OUTSIDE_WORKSPACE' | 'FILE_EXISTS';
+
+export class PathSafetyError extends Error {
+  readonly code: PathSafetyErrorCode;
+  /** Path that was refused */
+  readonly path: string;
+
+  constructor(message: string, code: PathSafetyErrorCode, path: string) {
+    super(message);
+    this.name = 'PathSafetyError';
+    this.code = code;
+    this.path = path;
+  }
+}
+
+/** Symlinks followed before giving up, matching the usual OS limit */
+const MAX_SYMLINKS = 40;
+
+/**
+ * Resolve a path to where it really points, even if it doesn't exist yet
+ *
+ * Symlinks in the existing part of the path are resolved, including a
+ * dangling link at the end that a write would follow.
+ *
+ * @param target Path to resolve
+ * @returns Absolute path with every symlink resolved
+ */
+export async function resolveRealPath(target: string): Promise<string> {
+  let current = resolve(target);
+  const missing: string[] = [];
+
+  for (let links = 0; links <= MAX_SYMLINKS; ) {
+    try {
+      return join(await realpath(current), ...missing.reverse());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // A dangling symlink: follow it to where a write would land
+    const stats = await lstat(current).catch(() => undefined);
+    if (stats?.isSymbolicLink()) {
+      current = resolve(dirname(current), await readlink(current));
+      links++;
+      continue;
+    }
+
+    const parent = dirname(current);
+    if (parent === current) {
+      return join(current, ...missing.reverse());
+    }
+    missing.push(basename(current));
+    current = parent;
+  }
+  throw new Error(`Failed to resolve ${target}: too many symbolic links`);
+}
+
+/**
+ * Check whether a path is inside a directory (or is the directory)
+ */
+export function isInside(path: string, dir: string): boolean {
+  const rel = relative(dir, path);
+  return rel === '' || (rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel));
+}
+
+/**
+ * Check that a file may be written
+ *
+ * @param target Destination path
+ * @param roots Directories writes are allowed in
+ * @param overwrite Overwrite policy
+ * @throws PathSafetyError with code OUTSIDE_WORKSPACE or FILE_EXISTS
+ */
+export async function assertWritablePath(
+  target: string,
+  roots: string[],
+  overwrite: OverwritePolicy
+): Promise<void> {
+  const real = await resolveRealPath(target);
+  const realRoots = await Promise.all(roots.map(resolveRealPath));
+  if (!realRoots.some((root) => isInside(real, root))) {
+    const via = real === resolve(target) ? '' : ` (resolves to ${real})`;
+    throw new PathSafetyError(
+      `Refusing to write ${target}${via}: outside the workspace ${realRoots[0]}. ` +
+        'Choose a path inside the project, or set workspaceRoot in nanobanana.config.json.',
+      'OUTSIDE_WORKSPACE',
+      target
+    );
+  }
+
+  if (overwrite === 'never' && (await lstat(target).catch(() => undefined))) {
+    throw new PathSafetyError(
+      `Refusing to overwrite ${target}: the overwrite policy is "never". ` +
+        'Choose another path, or set overwrite to "version" or "replace".',
+      'FILE_EXISTS',
+      target
+    );
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * Asset Provenance
+ *
+ * Records how every generated asset was made so it can be reproduced or
+ * audited later:
+ * - A JSON sidecar next to the asset (`<file>.provenance.json`)
+ * - PNG tEXt/iTXt chunks embedded in images, so the record survives when the
+ *   image is copied without its sidecar
+ *
+ * Each record holds the prompt, tool, provider and model, options, source
+ * inputs with their SHA-256 hashes, timestamp and plugin version.
+ */
+
+import { createHash } from 'crypto';
+import { createRequire } from 'module';
+import { readFile, writeFile } from 'fs/promises';
+import { inflateSync } from 'zlib';
+
+/** What a tool knows about an asset it is about to save */
+export interface ProvenanceInput {
+  /** Tool that produced the asset */
+  tool: string;
+  prompt?: string;
+  /** Provider name (e.g. "gemini") */
+  provider?: string;
+  model?: string;
+  /** Generation options that affect the output (aspect ratio, style, ...) */
+  options?: Record<string, unknown>;
+  /** Paths of the source files the asset was made from */
+  inputs?: string[];
+}
+
+export interface ProvenanceSource {
+  path: string;
+  sha256: string;
+}
+
+/** Provenance record stored in the sidecar and PNG chunks */
+export interface AssetProvenance {
+  tool: string;
+  prompt?: string;
+  provider?: string;
+  model?: string;
+  options?: Record<string, unknown>;
+  inputs: ProvenanceSource[];
+  /** SHA-256 of the asset as written */
+  sha256: string;
+  /** ISO 8601 timestamp */
+  createdAt: string;
+  pluginVersion: string;
+}
+
+/** PNG text keyword holding the JSON provenance record */
+export const PROVENANCE_KEYWORD = 'nanobanana:provenance';
+
+/** Version of this plugin, from package.json */
+export const PLUGIN_VERSION: string = createRequire(import.meta.url)('../../package.json').version;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(buffer: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of buffer) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Hash a buffer
+ *
+ * @param buffer Data to hash
+ * @returns Hex SHA-256
+ */
+export function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/**
+ * Get the sidecar path for an asset
+ *
+ * @param assetPath Asset file path
+ * @returns Path of the JSON sidecar
+ */
+export function getSidecarPath(assetPath: string): string {
+  return `${assetPath}.provenance.json`;
+}
+
+/**
+ * Check whether a buffer holds a PNG image
+ *
+ * @param buffer File data
+ * @returns True when the buffer starts with the PNG signature
+ */
+export function isPng(buffer: Buffer): boolean {
+  return buffer.length > PNG_SIGNATURE.length && buffer.subarray(0, 8).equals(PNG_SIGNATURE);
+}
+
+/**
+ * Build a provenance record, hashing the source inputs
+ *
+ * @param input What the tool knows about the asset
+ * @returns Provenance record without the asset hash
+ */
+export async function buildProvenance(input: ProvenanceInput): Promise<Omit<AssetProvenance, 'sha256'>> {
+  const inputs = await Promise.all(
+    (input.inputs ?? []).map(async (path) => {
+      try {
+        return { path, sha256: sha256(await readFile(path)) };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new Error(`Failed to hash provenance input ${path}: ${message}`);
+      }
+    })
+  );
+
+  return {
+    tool: input.tool,
+    ...(input.prompt !== undefined && { prompt: input.prompt }),
+    ...(input.provider && { provider: input.provider }),
+    ...(input.model && { model: input.model }),
+    ...(input.options && { options: input.options }),
+    inputs,
+    createdAt: new Date().toISOString(),
+    pluginVersion: PLUGIN_VERSION,
+  };
+}
+
+/**
+ * Stamp an asset with its provenance before it is written
+ *
+ * PNG images get the record embedded; other files are returned unchanged.
+ *
+ * @param buffer Asset data
+ * @param input What the tool knows about the asset
+ * @returns Data to write and the record for its sidecar
+ */
+export async function stampAsset(
+  buffer: Buffer,
+  input: ProvenanceInput
+): Promise<{ data: Buffer; provenance: AssetProvenance }> {
+  const record = await buildProvenance(input);
+  const data = isPng(buffer) ? embedPngProvenance(buffer, record) : buffer;
+  return { data, provenance: { ...record, sha256: sha256(data) } };
+}
+
+function createChunk(type: string, data: Buffer): Buffer {
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(data.length);
+  const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(body));
+  return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Create a PNG text chunk
+ *
+ * Latin-1 text goes in a tEXt chunk; anything else in an uncompressed UTF-8
+ * iTXt chunk.
+ */
+function createTextChunk(keyword: string, text: string): Buffer {
+  const key = Buffer.from(keyword, 'latin1');
+  if (/^[\x00-\xff]*$/.test(text)) {
+    return createChunk('tEXt', Buffer.concat([key, Buffer.from([0]), Buffer.from(text, 'latin1')]));
+  }
+  // keyword \0, compression flag 0, method 0, empty language \0, empty translated keyword \0
+  return createChunk('iTXt', Buffer.concat([key, Buffer.from([0, 0, 0, 0, 0]), Buffer.from(text, 'utf8')]));
+}
+
+function readTextChunk(type: string, data: Buffer): [string, string] | undefined {
+  const keywordEnd = data.indexOf(0);
+  if (keywordEnd < 1) {
+    return undefined;
+  }
+  const keyword = data.subarray(0, keywordEnd).toString('latin1');
+
+  if (type === 'tEXt') {
+    return [keyword, data.subarray(keywordEnd + 1).toString('latin1')];
+  }
+
+  const compressed = data[keywordEnd + 1] === 1;
+  const languageEnd = data.indexOf(0, keywordEnd + 3);
+  const translatedEnd = languageEnd < 0 ? -1 : data.indexOf(0, languageEnd + 1);
+  if (translatedEnd < 0) {
+    return undefined;
+  }
+  const text = data.subarray(translatedEnd + 1);
+  return [keyword, (compressed ? inflateSync(text) : text).toString('utf8')];
+}
+
+/**
+ * Iterate the chunks of a PNG
+ *
+ * @param buffer PNG data
+ * @returns Chunk type, data and the byte range of the whole chunk
+ */
+function* readChunks(buffer: Buffer): Generator<{ type: string; data: Buffer; start: number; end: number }> {
+  let offset = PNG_SIGNATURE.length;
+  while (offset + 12 <= buffer.length) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.subarray(offset + 4, offset + 8).toString('latin1');
+    const end = offset + 12 + length;
+    if (end > buffer.length) {
+      throw new Error(`Failed to read PNG: chunk ${type} is truncated`);
+    }
+    yield { type, data: buffer.subarray(offset + 8, offset + 8 + length), start: offset, end };
+    offset = end;
+  }
+}
+
+/**
+ * Read the text chunks of a PNG
+ *
+ * @param buffer PNG data
+ * @returns Keyword to text for every tEXt and iTXt chunk
+ */
+export function readPngText(buffer: Buffer): Record<string, string> {
+  if (!isPng(buffer)) {
+    throw new Error('Failed to read PNG text: not a PNG image');
+  }
+
+  const entries: Record<string, string> = {};
+  for (const { type, data } of readChunks(buffer)) {
+    if (type === 'tEXt' || type === 'iTXt') {
+      const entry = readTextChunk(type, data);
+      if (entry) {
+        entries[entry[0]] = entry[1];
+      }
+    }
+  }
+  return entries;
+}
+
+/**
+ * Write text chunks into a PNG
+ *
+ * Existing tEXt/iTXt chunks with the same keywords are replaced. New chunks
+ * are placed right before IEND.
+ *
+ * @param buffer PNG data
+ * @param entries Keyword to text
+ * @returns New PNG data
+ */
+export function writePngText(buffer: Buffer, entries: Record<string, string>): Buffer {
+  if (!isPng(buffer)) {
+    throw new Error('Failed to write PNG text: not a PNG image');
+  }
+
+  const parts: Buffer[] = [PNG_SIGNATURE];
+  for (const chunk of readChunks(buffer)) {
+    if (chunk.type === 'IEND') {
+      for (const [keyword, text] of Object.entries(entries)) {
+        parts.push(createTextChunk(keyword, text));
+      }
+    } else if (chunk.type === 'tEXt' || chunk.type === 'iTXt') {
+      const entry = readTextChunk(chunk.type, chunk.data);
+      if (entry && entry[0] in entries) {
+        continue;
+      }
+    }
+    parts.push(buffer.subarray(chunk.start, chunk.end));
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Embed a provenance record in a PNG
+ *
+ * Adds the standard Software and Description keywords plus the full JSON
+ * record under PROVENANCE_KEYWORD.
+ *
+ * @param buffer PNG data
+ * @param record Provenance record (the asset hash can't be part of the asset)
+ * @returns New PNG data
+ */
+export function embedPngProvenance(buffer: Buffer, record: Omit<AssetProvenance, 'sha256'>): Buffer {
+  return writePngText(buffer, {
+    Software: `opencode-nanobanana ${record.pluginVersion}`,
+    ...(record.prompt && { Description: record.prompt }),
+    [PROVENANCE_KEYWORD]: JSON.stringify(record),
+  });
+}
+
+/**
+ * Write an asset's provenance sidecar
+ *
+ * @param assetPath Asset file path
+ * @param provenance Provenance record
+ * @returns Path of the sidecar
+ */
+export async function writeProvenanceSidecar(assetPath: string, provenance: AssetProvenance): Promise<string> {
+  const sidecarPath = getSidecarPath(assetPath);
+  await writeFile(sidecarPath, JSON.stringify(provenance, null, 2));
+  return sidecarPath;
+}
+
+/**
+ * Read an asset's provenance
+ *
+ * Prefers the sidecar and falls back to the record embedded in a PNG.
+ *
+ * @param assetPath Asset file path
+ * @returns Provenance record, or undefined when none was recorded
+ */
+export async function readProvenance(assetPath: string): Promise<AssetProvenance | undefined> {
+  try {
+    return JSON.parse(await readFile(getSidecarPath(assetPath), 'utf-8')) as AssetProvenance;
+  } catch {
+    // No sidecar; try the embedded record
+  }
+
+  try {
+    const buffer = await readFile(assetPath);
+    const embedded = isPng(buffer) ? readPngText(buffer)[PROVENANCE_KEYWORD] : undefined;
+    return embedded ? { ...JSON.parse(embedded), sha256: sha256(buffer) } : undefined;
+  } catch {
+    return undefined;
+  }
+}
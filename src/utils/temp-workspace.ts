@@ -0,0 +1,124 @@
+/**
+ * Temp Workspace
+ *
+ * Video pipelines write intermediates (downloaded scenes, stitched video,
+ * FFmpeg concat lists) before producing the final file. Each job gets its own
+ * directory under the system temp directory so those files never collide
+ * with another job's and can be removed in one go:
+ *
+ *   <tmp>/nanobanana-storyboard-XXXXXX/scene-0.mp4
+ *   <tmp>/nanobanana-storyboard-XXXXXX/stitched.mp4
+ *
+ * The directory is removed when the job succeeds, fails or is cancelled, and
+ * on process exit for jobs that never got to clean up. Set NANOBANANA_DEBUG=1
+ * to keep it for inspection.
+ */
+
+import { mkdtemp, rm } from 'fs/promises';
+import { rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, join } from 'path';
+import { createLogger } from './logger.js';
+
+export interface TempWorkspace {
+  /** Directory holding the job's intermediates */
+  readonly dir: string;
+  /** Intermediates handed out so far */
+  readonly files: readonly string[];
+  /**
+   * Get the path of an intermediate file
+   *
+   * @param name File name inside the workspace
+   * @returns Path inside the workspace, tracked for cleanup
+   */
+  file(name: string): string;
+  /**
+   * Remove the workspace, or keep it when debug mode is on
+   *
+   * Safe to call more than once.
+   */
+  dispose(): Promise<void>;
+}
+
+/** Workspaces not yet disposed, removed on process exit */
+const active = new Set<string>();
+let exitHandlerInstalled = false;
+
+/**
+ * Check whether intermediates should be kept
+ *
+ * @returns true when NANOBANANA_DEBUG is set to 1 or true
+ */
+export function isDebugMode(): boolean {
+  return /^(1|true)$/i.test(process.env.NANOBANANA_DEBUG ?? '');
+}
+
+function installExitHandler(): void {
+  if (exitHandlerInstalled) {
+    return;
+  }
+  exitHandlerInstalled = true;
+  process.once('exit', () => {
+    for (const dir of active) {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+}
+
+/**
+ * Create a temp workspace for one job
+ *
+ * @param job Short job name used in the directory name (e.g. "storyboard")
+ * @returns Workspace; call dispose() when the job ends, or use withTempWorkspace()
+ */
+export async function createTempWorkspace(job: string): Promise<TempWorkspace> {
+  const dir = await mkdtemp(join(tmpdir(), `nanobanana-${job}-`));
+  const files: string[] = [];
+  let disposed = false;
+
+  if (!isDebugMode()) {
+    active.add(dir);
+    installExitHandler();
+  }
+
+  return {
+    dir,
+    files,
+    file(name: string): string {
+      const path = join(dir, basename(name));
+      files.push(path);
+      return path;
+    },
+    async dispose(): Promise<void> {
+      if (disposed) {
+        return;
+      }
+      disposed = true;
+      if (isDebugMode()) {
+        createLogger(job).warn('Keeping intermediate files', { dir, files: files.length });
+        return;
+      }
+      active.delete(dir);
+      await rm(dir, { recursive: true, force: true }).catch(() => {});
+    },
+  };
+}
+
+/**
+ * Run a job in a temp workspace that is cleaned up however the job ends
+ *
+ * @param job Short job name used in the directory name
+ * @param body Job; receives the workspace
+ * @returns What the job returns
+ */
+export async function withTempWorkspace<T>(
+  job: string,
+  body: (workspace: TempWorkspace) => Promise<T>
+): Promise<T> {
+  const workspace = await createTempWorkspace(job);
+  try {
+    return await body(workspace);
+  } finally {
+    await workspace.dispose();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Write Queue
+ *
+ * State files (the asset manifest, version logs, the operation journal, the
+ * usage ledger) are read, updated and written back by concurrent tool calls.
+ * Each module keeps a write queue so updates within the process run one at a
+ * time, and whole-file writes go to a temp file that is renamed into place so
+ * a crash never leaves a truncated file.
+ */
+
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+export interface WriteQueue {
+  /**
+   * Run a write after every write queued before it
+   *
+   * A failed write is reported to its caller only; later writes still run.
+   *
+   * @param write Write to run
+   * @returns What the write returns
+   */
+  run<T>(write: () => Promise<T>): Promise<T>;
+  /**
+   * Wait for the writes queued so far, so a read sees them
+   */
+  idle(): Promise<void>;
+}
+
+/**
+ * Create a queue that serializes writes within this process
+ *
+ * @returns Empty write queue
+ */
+export function createWriteQueue(): WriteQueue {
+  let tail: Promise<unknown> = Promise.resolve();
+
+  return {
+    run<T>(write: () => Promise<T>): Promise<T> {
+      const next = tail.then(write);
+      tail = next.catch(() => {});
+      return next;
+    },
+    async idle(): Promise<void> {
+      await tail;
+    },
+  };
+}
+
+/**
+ * Replace a file's contents in one step
+ *
+ * The data is written to a temp file next to the target and renamed over it;
+ * the parent directory is created if needed.
+ *
+ * @param path File to write
+ * @param data New contents
+ */
+export async function writeFileAtomic(path: string, data: string): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.tmp`;
+  await writeFile(tempPath, data);
+  await rename(tempPath, path);
+}
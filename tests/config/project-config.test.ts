@@ -0,0 +1,174 @@
+/**
+ * Project Config Tests
+ *
+ * Tests for nanobanana.config discovery, validation and precedence
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  findConfigFile,
+  loadProjectConfig,
+  initProjectConfig,
+  resetProjectConfig,
+  getProjectConfig,
+  getDefaultStyle,
+  getBrandPrompt,
+} from '../../src/config/project-config.js';
+import { getOutputDir, applyNamingTemplate } from '../../src/utils/file-handler.js';
+
+describe('Project config', () => {
+  let root: string;
+  let nested: string;
+
+  const writeConfig = (config: unknown, filename = 'nanobanana.config.json') =>
+    writeFile(join(root, filename), typeof config === 'string' ? config : JSON.stringify(config));
+
+  beforeEach(async () => {
+    root = await mkdtemp(join(tmpdir(), 'nanobanana-config-'));
+    nested = join(root, 'packages', 'app');
+    await mkdir(join(root, '.git'));
+    await mkdir(nested, { recursive: true });
+  });
+
+  afterEach(async () => {
+    resetProjectConfig();
+    delete process.env.NANOBANANA_CONFIG;
+    delete process.env.OUTPUT_DIR;
+    vi.restoreAllMocks();
+    await rm(root, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should find the config in a parent directory', async () => {
+      await writeConfig({});
+
+      expect(findConfigFile(nested)).toBe(join(root, 'nanobanana.config.json'));
+    });
+
+    it('should stop at the repository root', async () => {
+      expect(findConfigFile(nested)).toBeUndefined();
+    });
+
+    it('should prefer NANOBANANA_CONFIG', async () => {
+      const path = join(nested, 'custom.json');
+      await writeFile(path, '{}');
+      await writeConfig({});
+      process.env.NANOBANANA_CONFIG = path;
+
+      expect(findConfigFile(root)).toBe(path);
+    });
+  });
+
+  describe('loadProjectConfig', () => {
+    it('should validate and resolve paths against the config file', async () => {
+      await writeConfig({
+        outputDir: 'assets',
+        outputDirs: { generate_readme_banner: 'docs/images' },
+        defaults: { aspectRatio: '16:9', styles: { generate_readme_banner: 'tech' } },
+        brand: { name: 'Acme', colors: ['#1E88E5', '#fff'] },
+        models: { tools: { mockup_to_code: { vision: 'gemini-2.5-pro' } } },
+        platforms: ['ios'],
+        naming: { template: '{date}-{name}' },
+      });
+
+      const { config, path } = await loadProjectConfig(nested);
+
+      expect(path).toBe(join(root, 'nanobanana.config.json'));
+      expect(config.outputDir).toBe(join(root, 'assets'));
+      expect(config.outputDirs).toEqual({ generate_readme_banner: join(root, 'docs/images') });
+      expect(config.models).toEqual({ tools: { mockup_to_code: { vision: 'gemini-2.5-pro' } } });
+      expect(config.platforms).toEqual(['ios']);
+    });
+
+    it('should load JavaScript configs', async () => {
+      await writeConfig('module.exports = { platforms: ["android"] };', 'nanobanana.config.js');
+
+      const { config } = await loadProjectConfig(root);
+
+      expect(config.platforms).toEqual(['android']);
+    });
+
+    it('should report every invalid field', async () => {
+      await writeConfig({
+        brand: { colors: ['blue'] },
+        defaults: { aspectRatio: '2:1' },
+        models: { audio: 'lyria' },
+        unknown: true,
+      });
+
+      const error = await loadProjectConfig(root).catch((e: Error) => e);
+
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).message).toContain('brand.colors.0: Expected a hex color');
+      expect((error as Error).message).toContain('defaults.aspectRatio');
+      expect((error as Error).message).toContain('Unknown capability "audio"');
+      expect((error as Error).message).toContain("Unrecognized key(s) in object: 'unknown'");
+    });
+
+    it('should reject naming templates without {name}', async () => {
+      await writeConfig({ naming: { template: '{date}' } });
+
+      await expect(loadProjectConfig(root)).rejects.toThrow('Template must include {name}');
+    });
+  });
+
+  describe('initProjectConfig', () => {
+    it('should make the loaded config active', async () => {
+      await writeConfig({ defaults: { styles: { generate_social_preview: 'bold' } }, brand: { colors: ['#000000'] } });
+
+      await initProjectConfig(nested);
+
+      expect(getDefaultStyle('generate_social_preview')).toBe('bold');
+      expect(getDefaultStyle('generate_readme_banner')).toBeUndefined();
+      expect(getBrandPrompt()).toBe(' Use the brand colors #000000.');
+    });
+
+    it('should surface an invalid config on use', async () => {
+      const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      await writeConfig('{ not json');
+
+      await initProjectConfig(root);
+
+      expect(() => getProjectConfig()).toThrow('Failed to read config file');
+      expect(stderr).toHaveBeenCalledWith(expect.stringContaining('"level":"error","job":"config"'));
+    });
+  });
+
+  describe('getOutputDir', () => {
+    it('should prefer per-tool config, then OUTPUT_DIR, then the config outputDir', async () => {
+      await writeConfig({ outputDir: 'assets', outputDirs: { edit_image: 'edits' } });
+      await initProjectConfig(root);
+
+      expect(getOutputDir('edit_image')).toBe(join(root, 'edits'));
+      expect(getOutputDir('restore_image')).toBe(join(root, 'assets'));
+
+      process.env.OUTPUT_DIR = '/tmp/out';
+      expect(getOutputDir('restore_image')).toBe('/tmp/out');
+      expect(getOutputDir('edit_image')).toBe(join(root, 'edits'));
+    });
+
+    it('should fall back to ./generated-assets', async () => {
+      await initProjectConfig(root);
+
+      expect(getOutputDir()).toBe('./generated-assets');
+    });
+  });
+
+  describe('applyNamingTemplate', () => {
+    it('should expand placeholders', async () => {
+      await writeConfig({ naming: { template: 'acme-{name}-{date}' } });
+      await initProjectConfig(root);
+
+      expect(applyNamingTemplate('banner')).toMatch(/^acme-banner-\d{4}-\d{2}-\d{2}$/);
+    });
+
+    it('should leave names unchanged without a template', async () => {
+      await initProjectConfig(root);
+
+      expect(applyNamingTemplate('banner')).toBe('banner');
+    });
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * Gemini Cassette
+ *
+ * Record/replay layer for GeminiProvider tests. Wraps the calls the provider
+ * makes (generateContent, generateVideos, getVideosOperation and the video
+ * download fetch) and stores them as JSON fixtures under
+ * tests/fixtures/cassettes.
+ *
+ * - replay (default): responses are served from the fixture byte-for-byte and
+ *   each request is checked against the recorded one
+ * - record (CASSETTE_MODE=record + GEMINI_API_KEY): calls go to the live API
+ *   and the fixture is rewritten when `save()` is called
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { createHash } from 'crypto';
+import { existsSync } from 'fs';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import type { GeminiClient } from '../../src/providers/gemini.js';
+
+export type CassetteMode = 'record' | 'replay';
+
+type Method = 'generateContent' | 'generateVideos' | 'getVideosOperation' | 'fetch';
+
+export interface FetchRecording {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  bodyBase64: string;
+}
+
+export interface Interaction {
+  method: Method;
+  /** Normalized request (inline binary data replaced by its sha256) */
+  request: unknown;
+  /** SDK response as JSON, or the raw HTTP response for fetch */
+  response: unknown;
+}
+
+export interface CassetteFile {
+  name: string;
+  recordedAt: string;
+  interactions: Interaction[];
+}
+
+export interface Cassette {
+  mode: CassetteMode;
+  client: GeminiClient;
+  fetch: typeof fetch;
+  /** Interactions loaded (replay) or captured so far (record) */
+  interactions: Interaction[];
+  /** Write the recording to disk (no-op in replay mode) */
+  save(): Promise<void>;
+  /** Throw if replay did not consume every recorded interaction */
+  assertConsumed(): void;
+}
+
+export interface CassetteOptions {
+  mode?: CassetteMode;
+  apiKey?: string;
+}
+
+export const CASSETTE_DIR = join(dirname(fileURLToPath(import.meta.url)), '..', 'fixtures', 'cassettes');
+
+/**
+ * Get the cassette mode from CASSETTE_MODE
+ */
+export function getCassetteMode(): CassetteMode {
+  return process.env.CASSETTE_MODE === 'record' ? 'record' : 'replay';
+}
+
+/**
+ * Replace inline base64 payloads with a digest so fixtures stay small and
+ * request matching does not depend on object identity
+ */
+export function normalizeRequest(value: unknown, key = ''): unknown {
+  if (typeof value === 'string') {
+    if (['data', 'imageBytes', 'videoBytes'].includes(key)) {
+      return `sha256:${createHash('sha256').update(value).digest('hex')}`;
+    }
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => normalizeRequest(item));
+  }
+  if (value && typeof value === 'object') {
+    if (key === 'operation') {
+      return { name: (value as { name?: string }).name };
+    }
+    const result: Record<string, unknown> = {};
+    for (const [k, v] of Object.entries(value)) {
+      if (v !== undefined && k !== 'abortSignal') {
+        result[k] = normalizeRequest(v, k);
+      }
+    }
+    return result;
+  }
+  return value;
+}
+
+function toJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value)) as T;
+}
+
+/**
+ * Open a cassette by name
+ *
+ * @param name Fixture name (without .json)
+ * @param options Mode override and API key for recording
+ */
+export async function useCassette(name: string, options: CassetteOptions = {}): Promise<Cassette> {
+  const mode = options.mode ?? getCassetteMode();
+  const filePath = join(CASSETTE_DIR, `${name}.json`);
+
+  if (mode === 'record') {
+    return createRecorder(name, filePath, options.apiKey ?? process.env.GEMINI_API_KEY ?? '');
+  }
+
+  if (!existsSync(filePath)) {
+    throw new Error(
+      `Cassette "${name}" not found at ${filePath}. Record it with CASSETTE_MODE=record and GEMINI_API_KEY set.`
+    );
+  }
+
+  const file = JSON.parse(await readFile(filePath, 'utf-8')) as CassetteFile;
+  return createPlayer(file);
+}
+
+function createRecorder(name: string, filePath: string, apiKey: string): Cassette {
+  if (!apiKey) {
+    throw new Error('Recording a cassette requires GEMINI_API_KEY');
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const interactions: Interaction[] = [];
+
+  const client: GeminiClient = {
+    models: {
+      generateContent: async (params) => {
+        const response = await ai.models.generateContent(params);
+        interactions.push({ method: 'generateContent', request: normalizeRequest(params), response: toJson(response) });
+        return response;
+      },
+      generateVideos: async (params) => {
+        const response = await ai.models.generateVideos(params);
+        interactions.push({ method: 'generateVideos', request: normalizeRequest(params), response: toJson(response) });
+        return response;
+      },
+    },
+    operations: {
+      getVideosOperation: async (params) => {
+        const response = await ai.operations.getVideosOperation(params);
+        interactions.push({ method: 'getVideosOperation', request: normalizeRequest(params), response: toJson(response) });
+        return response;
+      },
+    },
+  };
+
+  const recordingFetch: typeof fetch = async (input, init) => {
+    const response = await fetch(input, init);
+    const body = Buffer.from(await response.arrayBuffer());
+    const recording: FetchRecording = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: { 'content-type': response.headers.get('content-type') ?? 'application/octet-stream' },
+      bodyBase64: body.toString('base64'),
+    };
+    interactions.push({ method: 'fetch', request: { url: String(input) }, response: recording });
+    return new Response(body, { status: recording.status, statusText: recording.statusText, headers: recording.headers });
+  };
+
+  return {
+    mode: 'record',
+    client,
+    fetch: recordingFetch,
+    interactions,
+    async save() {
+      const file: CassetteFile = { name, recordedAt: new Date().toISOString(), interactions };
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(filePath, JSON.stringify(file, null, 2) + '\n');
+    },
+    assertConsumed() {},
+  };
+}
+
+function createPlayer(file: CassetteFile): Cassette {
+  let position = 0;
+
+  const next = (method: Method, request: unknown): unknown => {
+    const interaction = file.interactions[position];
+    if (!interaction) {
+      throw new Error(`Cassette "${file.name}" has no interaction #${position + 1} for ${method}`);
+    }
+    const actual = JSON.stringify(request);
+    const expected = JSON.stringify(interaction.request);
+    if (interaction.method !== method || actual !== expected) {
+      throw new Error(
+        `Cassette "${file.name}" mismatch at interaction #${position + 1}:\n` +
+          `  expected ${interaction.method} ${expected}\n` +
+          `  received ${method} ${actual}\n` +
+          'Re-record with CASSETTE_MODE=record if the request changed intentionally.'
+      );
+    }
+    position++;
+    return toJson(interaction.response);
+  };
+
+  const client = {
+    models: {
+      generateContent: async (params: unknown) => next('generateContent', normalizeRequest(params)),
+      generateVideos: async (params: unknown) => next('generateVideos', normalizeRequest(params)),
+    },
+    operations: {
+      getVideosOperation: async (params: unknown) => next('getVideosOperation', normalizeRequest(params)),
+    },
+  } as unknown as GeminiClient;
+
+  const replayFetch: typeof fetch = async (input) => {
+    const recording = next('fetch', { url: String(input) }) as FetchRecording;
+    return new Response(Buffer.from(recording.bodyBase64, 'base64'), {
+      status: recording.status,
+      statusText: recording.statusText,
+      headers: recording.headers,
+    });
+  };
+
+  return {
+    mode: 'replay',
+    client,
+    fetch: replayFetch,
+    interactions: file.interactions,
+    async save() {},
+    assertConsumed() {
+      if (position !== file.interactions.length) {
+        throw new Error(
+          `Cassette "${file.name}" has ${file.interactions.length - position} unused interaction(s)`
+        );
+      }
+    },
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Plugin Integration Tests
+ *
+ * Tests that every tool is registered and speaks the JSON result envelope
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, stat } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { PluginInput } from '@opencode-ai/plugin';
+import type { ToolContext } from '@opencode-ai/plugin/tool';
+import plugin from '../../src/plugin.js';
+import { resetProjectConfig } from '../../src/config/project-config.js';
+import { MockProvider } from '../../src/providers/mock.js';
+import { buildCodeGenerationPrompt } from '../../src/tools/design/mockup-to-code.js';
+import { buildSequencePrompt } from '../../src/tools/docs/sequence-diagram.js';
+
+const EXPECTED_TOOLS = [
+  'analyze_mockup',
+  'analyze_screenshot',
+  'build_asset_gallery',
+  'compare_screenshots',
+  'diff_asset_versions',
+  'edit_image',
+  'extend_video',
+  'generate_app_icon',
+  'generate_app_screenshots',
+  'generate_architecture_diagram',
+  'generate_device_mockup',
+  'generate_image',
+  'generate_launch_images',
+  'generate_readme_banner',
+  'generate_sequence_diagram',
+  'generate_social_preview',
+  'generate_storyboard_video',
+  'generate_video',
+  'image_to_video',
+  'list_asset_versions',
+  'mockup_to_code',
+  'resize_for_devices',
+  'restore_asset_version',
+  'restore_image',
+  'resume_video_job',
+  'sketch_to_code',
+  'usage_report',
+  'verify_assets',
+];
+
+const FIXTURE = join(__dirname, '..', 'fixtures', 'red-square.png');
+
+describe('Plugin', () => {
+  let dir: string;
+  const context = {} as ToolContext;
+
+  const loadTools = async () => {
+    const hooks = await plugin({ directory: dir, worktree: dir } as PluginInput);
+    return hooks.tool!;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-plugin-'));
+    process.env.OUTPUT_DIR = join(dir, 'out');
+    process.env.NANOBANANA_STATE_DIR = join(dir, 'state');
+  });
+
+  afterEach(async () => {
+    resetProjectConfig();
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_STATE_DIR;
+    delete process.env.NANOBANANA_PROVIDER;
+    vi.restoreAllMocks();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should register every tool', async () => {
+    const tools = await loadTools();
+
+    expect(Object.keys(tools).sort()).toEqual(EXPECTED_TOOLS);
+    for (const [name, definition] of Object.entries(tools)) {
+      expect(definition.description, name).toBeTruthy();
+      expect(definition.args, name).toBeDefined();
+      expect(typeof definition.execute, name).toBe('function');
+    }
+  });
+
+  it('should run app-asset tools and return the JSON envelope', async () => {
+    process.env.NANOBANANA_PROVIDER = 'mock';
+    const tools = await loadTools();
+
+    const result = JSON.parse(
+      await tools.resize_for_devices!.execute(
+        { imagePath: FIXTURE, platform: 'ios', screenshotType: 'phone', cropMode: 'fill' },
+        context
+      )
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.data.outputDir).toBe(join(dir, 'out', 'device-screenshots'));
+    expect(result.files.length).toBeGreaterThan(0);
+    expect(result.files[0]).toMatchObject({ mimeType: 'image/png', width: 1320, height: 2868 });
+    expect((await stat(result.files[0].path)).size).toBe(result.files[0].bytes);
+    expect(result.usage).toEqual({ attempts: 0, calls: 0, costUsd: 0 });
+  });
+
+  it('should report a missing API key in the envelope', async () => {
+    const apiKey = process.env.GEMINI_API_KEY;
+    delete process.env.GEMINI_API_KEY;
+    try {
+      const tools = await loadTools();
+
+      const result = JSON.parse(await tools.generate_app_icon!.execute({ prompt: 'a banana' }, context));
+
+      expect(result.success).toBe(false);
+      expect(result.error.message).toContain('GEMINI_API_KEY');
+    } finally {
+      if (apiKey !== undefined) process.env.GEMINI_API_KEY = apiKey;
+    }
+  });
+
+  it('should build prompts with the tool modules', async () => {
+    process.env.NANOBANANA_PROVIDER = 'mock';
+    const analyzeImage = vi.spyOn(MockProvider.prototype, 'analyzeImage');
+    const generateImage = vi.spyOn(MockProvider.prototype, 'generateImage');
+    const tools = await loadTools();
+
+    const code = JSON.parse(
+      await tools.mockup_to_code!.execute({ imagePath: FIXTURE, framework: 'react' }, context)
+    );
+    const diagram = JSON.parse(
+      await tools.generate_sequence_diagram!.execute({ description: 'User logs in' }, context)
+    );
+
+    expect(code).toMatchObject({ success: true, data: { framework: 'react', componentName: 'DesignComponent' } });
+    expect(analyzeImage.mock.calls[0]![1]).toBe(buildCodeGenerationPrompt('react', undefined, 'DesignComponent'));
+    expect(diagram.success).toBe(true);
+    expect(generateImage.mock.calls[0]![0]).toBe(buildSequencePrompt('User logs in'));
+  });
+});
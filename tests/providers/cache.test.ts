@@ -0,0 +1,157 @@
+/**
+ * Result Cache Tests
+ *
+ * Tests for the content-addressed CachedProvider decorator
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, stat, utimes } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { CachedProvider, isCacheEnabled } from '../../src/providers/cache.js';
+import { MockProvider } from '../../src/providers/mock.js';
+import { getProvider } from '../../src/providers/registry.js';
+
+describe('CachedProvider', () => {
+  let stateDir: string;
+  let dir: string;
+  let inner: MockProvider;
+
+  beforeEach(async () => {
+    stateDir = await mkdtemp(join(tmpdir(), 'nanobanana-cache-'));
+    process.env.NANOBANANA_STATE_DIR = stateDir;
+    dir = join(stateDir, 'cache');
+    inner = new MockProvider();
+  });
+
+  afterEach(async () => {
+    delete process.env.NANOBANANA_CACHE;
+    delete process.env.NANOBANANA_STATE_DIR;
+    await rm(stateDir, { recursive: true, force: true });
+  });
+
+  it('should serve a repeated image prompt from disk', async () => {
+    const spy = vi.spyOn(inner, 'generateImageSingle');
+    const provider = new CachedProvider(inner, { dir });
+
+    const first = await provider.generateImageSingle('a red fox', { aspectRatio: '16:9' });
+    const second = await provider.generateImageSingle('a red fox', { aspectRatio: '16:9' });
+
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(second.buffer.equals(first.buffer)).toBe(true);
+    expect(second.mimeType).toBe('image/png');
+  });
+
+  it('should key on options and prompt', async () => {
+    const spy = vi.spyOn(inner, 'generateImage');
+    const provider = new CachedProvider(inner, { dir });
+
+    await provider.generateImage('a red fox', { aspectRatio: '1:1' });
+    await provider.generateImage('a red fox', { aspectRatio: '16:9' });
+    await provider.generateImage('a blue fox', { aspectRatio: '1:1' });
+    await provider.generateImage('a red fox', { aspectRatio: '1:1', retry: { maxAttempts: 1 } });
+
+    expect(spy).toHaveBeenCalledTimes(3);
+  });
+
+  it('should key analysis on the input image bytes', async () => {
+    const spy = vi.spyOn(inner, 'analyzeImage');
+    const provider = new CachedProvider(inner, { dir });
+    const [imageA] = await inner.generateImage('image a');
+    const [imageB] = await inner.generateImage('image b');
+
+    const first = await provider.analyzeImage(imageA!, 'What is this?');
+    const again = await provider.analyzeImage(Buffer.from(imageA!), 'What is this?');
+    await provider.analyzeImage(imageB!, 'What is this?');
+
+    expect(again).toBe(first);
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should cache edits', async () => {
+    const spy = vi.spyOn(inner, 'editImage');
+    const provider = new CachedProvider(inner, { dir });
+    const [source] = await inner.generateImage('source');
+
+    const first = await provider.editImage(source!, 'add a hat');
+    const second = await provider.editImage(source!, 'add a hat');
+
+    expect(second.equals(first)).toBe(true);
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should bypass the cache with noCache', async () => {
+    const spy = vi.spyOn(inner, 'analyzeMultipleImages');
+    const provider = new CachedProvider(inner, { dir });
+    const images = await inner.generateImage('pair', { count: 2 });
+
+    await provider.analyzeMultipleImages(images, 'Compare');
+    await provider.analyzeMultipleImages(images, 'Compare', { noCache: true });
+
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should expire entries after the TTL', async () => {
+    const spy = vi.spyOn(inner, 'generateImage');
+    const provider = new CachedProvider(inner, { dir, ttlMs: 0 });
+
+    await provider.generateImage('a red fox');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await provider.generateImage('a red fox');
+
+    expect(spy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should evict least recently used entries over the size limit', async () => {
+    const provider = new CachedProvider(inner, { dir, maxBytes: 1 });
+
+    await provider.generateImage('first');
+    await provider.generateImage('second');
+
+    const files = (await readdir(dir)).filter((file) => file.endsWith('.json'));
+    expect(files.length).toBeLessThanOrEqual(1);
+  });
+
+  it('should keep recently read entries when evicting', async () => {
+    const spy = vi.spyOn(inner, 'generateImage');
+    const generous = new CachedProvider(inner, { dir });
+    await generous.generateImage('keep me');
+    await generous.generateImage('evict me');
+
+    // Age both entries, then read one so it becomes the most recently used
+    const old = new Date(Date.now() - 60_000);
+    const files = await readdir(dir);
+    const sizes = await Promise.all(
+      files.map(async (file) => {
+        await utimes(join(dir, file), old, old);
+        return (await stat(join(dir, file))).size;
+      })
+    );
+    await generous.generateImage('keep me');
+
+    // Room for two and a half entries, so the third write evicts exactly one
+    const tight = new CachedProvider(inner, { dir, maxBytes: Math.max(...sizes) * 2.5 });
+    await tight.generateImage('third');
+    spy.mockClear();
+
+    await tight.generateImage('keep me');
+    expect(spy).not.toHaveBeenCalled();
+
+    await tight.generateImage('evict me');
+    expect(spy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass video calls straight through', async () => {
+    const provider = new CachedProvider(inner, { dir });
+    expect(provider.name).toBe('mock');
+    expect(provider.modelFor('video')).toBe('mock');
+  });
+
+  it('should only wrap providers when NANOBANANA_CACHE is enabled', () => {
+    expect(isCacheEnabled()).toBe(false);
+    expect(getProvider({ provider: 'mock' })).toBeInstanceOf(MockProvider);
+
+    process.env.NANOBANANA_CACHE = '1';
+    expect(getProvider({ provider: 'mock' })).toBeInstanceOf(CachedProvider);
+  });
+});
@@ -0,0 +1,72 @@
+/**
+ * GeminiProvider Cassette Tests
+ *
+ * Regression tests replayed from recorded API interactions.
+ * Re-record with: CASSETTE_MODE=record GEMINI_API_KEY=... npx vitest run tests/providers/gemini-cassette.test.ts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { GeminiProvider } from '../../src/providers/gemini.js';
+import { useCassette, getCassetteMode, CASSETTE_DIR, type FetchRecording } from '../helpers/cassette.js';
+
+const FIXTURE_IMAGE = join(CASSETTE_DIR, '..', 'red-square.png');
+
+async function createProvider(name: string) {
+  const cassette = await useCassette(name);
+  const provider = new GeminiProvider(process.env.GEMINI_API_KEY || 'cassette-api-key', {
+    client: cassette.client,
+    fetch: cassette.fetch,
+    pollIntervalMs: cassette.mode === 'replay' ? 0 : undefined,
+    journalPath: null,
+  });
+  return { cassette, provider };
+}
+
+describe('GeminiProvider (cassettes)', () => {
+  it('should replay image generation', async () => {
+    const { cassette, provider } = await createProvider('gemini-generate-image');
+
+    const [image] = await provider.generateImage('a tiny red square');
+    await cassette.save();
+    cassette.assertConsumed();
+
+    expect(image).toBeDefined();
+    expect(image!.subarray(1, 4).toString('ascii')).toBe('PNG');
+  });
+
+  it('should replay image analysis', async () => {
+    const { cassette, provider } = await createProvider('gemini-analyze-image');
+
+    const image = await readFile(FIXTURE_IMAGE);
+    const analysis = await provider.analyzeImage(image, 'What color is this image?');
+    await cassette.save();
+    cassette.assertConsumed();
+
+    expect(analysis.toLowerCase()).toContain('red');
+  });
+
+  it('should replay video generation, polling and download byte-for-byte', async () => {
+    const { cassette, provider } = await createProvider('gemini-generate-video');
+
+    const result = await provider.generateVideo('waves rolling onto a beach at sunset', {
+      duration: 4,
+    });
+    await cassette.save();
+    cassette.assertConsumed();
+
+    const download = cassette.interactions.find((i) => i.method === 'fetch');
+    const recorded = Buffer.from((download?.response as FetchRecording).bodyBase64, 'base64');
+    expect(result.buffer.equals(recorded)).toBe(true);
+    expect(result.url).toContain(':download');
+  });
+
+  it.skipIf(getCassetteMode() === 'record')('should fail loudly when the request drifts from the recording', async () => {
+    const { provider } = await createProvider('gemini-generate-image');
+
+    await expect(provider.generateImage('a tiny blue square')).rejects.toThrow(
+      'Cassette "gemini-generate-image" mismatch'
+    );
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * GeminiProvider Polling Tests
+ *
+ * Tests for video operation deadlines and cancellation
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { GeminiProvider, type GeminiClient } from '../../src/providers/gemini.js';
+import { OperationTimeoutError, OperationAbortedError, ServiceUnavailableError } from '../../src/providers/errors.js';
+
+const OPERATION_NAME = 'models/veo-3.0-generate-001/operations/abc123';
+
+function createClient(options: { doneAfter?: number } = {}) {
+  let polls = 0;
+  const client = {
+    models: {
+      generateContent: vi.fn(),
+      generateVideos: vi.fn(async () => ({ name: OPERATION_NAME, done: false })),
+    },
+    operations: {
+      getVideosOperation: vi.fn(async () => {
+        polls++;
+        if (options.doneAfter !== undefined && polls >= options.doneAfter) {
+          return {
+            name: OPERATION_NAME,
+            done: true,
+            response: { generatedVideos: [{ video: { uri: 'https://example.com/video.mp4' } }] },
+          };
+        }
+        return { name: OPERATION_NAME, done: false };
+      }),
+    },
+  };
+  return client;
+}
+
+function createProvider(client: ReturnType<typeof createClient>, pollIntervalMs = 5) {
+  const fetchMock = vi.fn(async () => new Response(Buffer.from('video-bytes')));
+  const provider = new GeminiProvider('test-key', {
+    client: client as unknown as GeminiClient,
+    fetch: fetchMock as unknown as typeof fetch,
+    pollIntervalMs,
+    journalPath: null,
+  });
+  return { provider, fetchMock };
+}
+
+describe('GeminiProvider video polling', () => {
+  it('should resolve once the operation completes', async () => {
+    const client = createClient({ doneAfter: 2 });
+    const { provider } = createProvider(client);
+
+    const result = await provider.generateVideo('a sunset', { maxWaitMs: 1000 });
+
+    expect(result.buffer.toString()).toBe('video-bytes');
+    expect(client.operations.getVideosOperation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should time out with an error naming the operation', async () => {
+    const client = createClient();
+    const { provider } = createProvider(client);
+
+    const error = await provider.generateVideo('a sunset', { maxWaitMs: 30 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(OperationTimeoutError);
+    expect(error.operationName).toBe(OPERATION_NAME);
+    expect(error.message).toContain(OPERATION_NAME);
+    expect(error.code).toBe('TIMEOUT');
+  });
+
+  it('should stop polling when the signal aborts', async () => {
+    const client = createClient();
+    const { provider } = createProvider(client, 1000);
+    const controller = new AbortController();
+
+    const pending = provider.animateImage(Buffer.from([0x89, 0x50, 0x4e, 0x47]), 'wave', {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 20);
+
+    const error = await pending.catch((e) => e);
+    expect(error).toBeInstanceOf(OperationAbortedError);
+    expect(error.operationName).toBe(OPERATION_NAME);
+    expect(client.operations.getVideosOperation).not.toHaveBeenCalled();
+  });
+
+  it('should not submit when the signal is already aborted', async () => {
+    const client = createClient({ doneAfter: 1 });
+    const { provider } = createProvider(client);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      provider.extendVideo(Buffer.from('mp4'), 'continue', { signal: controller.signal })
+    ).rejects.toBeInstanceOf(OperationAbortedError);
+    expect(client.models.generateVideos).not.toHaveBeenCalled();
+  });
+
+  it('should not resubmit a video job after a server error', async () => {
+    const client = createClient({ doneAfter: 1 });
+    client.models.generateVideos.mockRejectedValueOnce(Object.assign(new Error('Internal error'), { status: 500 }));
+    const { provider } = createProvider(client);
+
+    await expect(
+      provider.generateVideo('a sunset', { retry: { initialDelayMs: 0, jitter: 0 } })
+    ).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(client.models.generateVideos).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resubmit a video job that was rate limited', async () => {
+    const client = createClient({ doneAfter: 1 });
+    client.models.generateVideos.mockRejectedValueOnce(Object.assign(new Error('Too many requests'), { status: 429 }));
+    const { provider } = createProvider(client);
+
+    const result = await provider.generateVideo('a sunset', { retry: { initialDelayMs: 0, jitter: 0 } });
+
+    expect(result.buffer.toString()).toBe('video-bytes');
+    expect(client.models.generateVideos).toHaveBeenCalledTimes(2);
+  });
+
+  it('should pass the signal to the SDK and the download', async () => {
+    const client = createClient({ doneAfter: 1 });
+    const { provider, fetchMock } = createProvider(client);
+    const controller = new AbortController();
+
+    await provider.generateVideoWithReferences(
+      'a robot',
+      [{ buffer: Buffer.from([0xff, 0xd8]), description: 'robot' }],
+      { signal: controller.signal }
+    );
+
+    const [params] = client.models.generateVideos.mock.calls[0] as unknown as [{ config: { abortSignal?: AbortSignal } }];
+    expect(params.config.abortSignal).toBe(controller.signal);
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.signal).toBe(controller.signal);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * MockProvider Tests
+ *
+ * Tests for the deterministic offline provider
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import sharp from 'sharp';
+import { execSync } from 'child_process';
+import { MockProvider } from '../../src/providers/mock.js';
+import { getProvider, getProviderRegistration } from '../../src/providers/registry.js';
+
+function hasFfmpeg(): boolean {
+  try {
+    execSync('ffmpeg -version', { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('MockProvider', () => {
+  const provider = new MockProvider();
+
+  describe('generateImage', () => {
+    it('should return identical PNGs for identical prompts', async () => {
+      const [first] = await provider.generateImage('a red fox in snow');
+      const [second] = await provider.generateImage('a red fox in snow');
+
+      expect(first).toBeDefined();
+      expect(first!.equals(second!)).toBe(true);
+    });
+
+    it('should return different PNGs for different prompts', async () => {
+      const [first] = await provider.generateImage('a red fox');
+      const [second] = await provider.generateImage('a blue whale');
+
+      expect(first!.equals(second!)).toBe(false);
+    });
+
+    it('should honor aspect ratio and count', async () => {
+      const images = await provider.generateImage('banner', { aspectRatio: '16:9', count: 3 });
+
+      expect(images).toHaveLength(3);
+      const metadata = await sharp(images[0]!).metadata();
+      expect(metadata.format).toBe('png');
+      expect(metadata.width! / metadata.height!).toBeCloseTo(16 / 9, 1);
+    });
+
+    it('should reject invalid counts', async () => {
+      await expect(provider.generateImage('x', { count: 9 })).rejects.toThrow(
+        'Count must be between 1 and 8'
+      );
+    });
+  });
+
+  describe('editImage', () => {
+    it('should keep the source dimensions', async () => {
+      const [source] = await provider.generateImage('source', { aspectRatio: '4:3' });
+      const edited = await provider.editImage(source!, 'make it brighter');
+
+      const before = await sharp(source!).metadata();
+      const after = await sharp(edited).metadata();
+      expect(after.width).toBe(before.width);
+      expect(after.height).toBe(before.height);
+      expect(edited.equals(source!)).toBe(false);
+    });
+  });
+
+  describe('analyzeImage', () => {
+    it('should return canned text keyed by prompt hash', async () => {
+      const image = Buffer.from('image-bytes');
+      const first = await provider.analyzeImage(image, 'What is this?');
+      const second = await provider.analyzeImage(image, 'What is this?');
+
+      expect(first).toBe(second);
+      expect(first).toContain('Mock Analysis');
+      expect(first).toContain('Question: What is this?');
+    });
+  });
+
+  describe.skipIf(!hasFfmpeg())('generateVideo', () => {
+    it('should render a small MP4', async () => {
+      const result = await provider.generateVideo('a short clip', { duration: 4 });
+
+      expect(result.buffer.length).toBeGreaterThan(0);
+      expect(result.buffer.subarray(4, 8).toString('ascii')).toBe('ftyp');
+      expect(result.url).toMatch(/^mock:\/\/video\//);
+    });
+  });
+});
+
+describe('Provider registry', () => {
+  const original = process.env.NANOBANANA_PROVIDER;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.NANOBANANA_PROVIDER;
+    } else {
+      process.env.NANOBANANA_PROVIDER = original;
+    }
+  });
+
+  it('should select the mock provider from NANOBANANA_PROVIDER', () => {
+    process.env.NANOBANANA_PROVIDER = 'mock';
+
+    expect(getProvider().name).toBe('mock');
+    expect(getProviderRegistration().requiresApiKey).toBe(false);
+  });
+
+  it('should reject unknown providers', () => {
+    process.env.NANOBANANA_PROVIDER = 'nope';
+
+    expect(() => getProvider()).toThrow('Unknown provider "nope"');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Model Selection Tests
+ *
+ * Tests for per-capability and per-tool model configuration
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  resolveModels,
+  parseModelConfig,
+  validateModels,
+  GEMINI_DEFAULT_MODELS,
+  GEMINI_MODEL_CATALOG,
+} from '../../src/providers/models.js';
+import { getProvider } from '../../src/providers/registry.js';
+import { InvalidRequestError } from '../../src/providers/errors.js';
+import { GeminiProvider, type GeminiClient } from '../../src/providers/gemini.js';
+
+describe('Model selection', () => {
+  let dir: string;
+  let configPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-models-'));
+    configPath = join(dir, 'nanobanana.config.json');
+    process.env.NANOBANANA_CONFIG = configPath;
+    process.env.NANOBANANA_STATE_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.NANOBANANA_CONFIG;
+    delete process.env.NANOBANANA_STATE_DIR;
+    delete process.env.NANOBANANA_VISION_MODEL;
+    delete process.env.NANOBANANA_VIDEO_MODEL;
+    delete process.env.NANOBANANA_PROVIDER;
+    delete process.env.GEMINI_API_KEY;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('resolveModels', () => {
+    it('should return no overrides without config', () => {
+      expect(resolveModels()).toEqual({});
+    });
+
+    it('should let env override config and tool config override env', () => {
+      process.env.NANOBANANA_VISION_MODEL = 'gemini-2.5-flash';
+      const config = {
+        vision: 'gemini-2.0-flash',
+        video: 'veo-3.1-generate-preview',
+        tools: { mockup_to_code: { vision: 'gemini-2.5-pro' } },
+      };
+
+      expect(resolveModels({ config })).toEqual({
+        vision: 'gemini-2.5-flash',
+        video: 'veo-3.1-generate-preview',
+      });
+      expect(resolveModels({ config, tool: 'mockup_to_code' }).vision).toBe('gemini-2.5-pro');
+      expect(
+        resolveModels({ config, tool: 'mockup_to_code', models: { vision: 'gemini-2.0-flash' } }).vision
+      ).toBe('gemini-2.0-flash');
+    });
+  });
+
+  describe('parseModelConfig', () => {
+    it('should reject unknown capabilities', () => {
+      expect(() => parseModelConfig({ audio: 'lyria' })).toThrow('Unknown capability "audio" at models');
+      expect(() => parseModelConfig({ tools: { mockup_to_code: { speech: 'x' } } })).toThrow(
+        'models.tools.mockup_to_code'
+      );
+    });
+
+    it('should reject non-string models', () => {
+      expect(() => parseModelConfig({ vision: 3 })).toThrow(InvalidRequestError);
+    });
+  });
+
+  describe('validateModels', () => {
+    it('should accept models from the catalog', () => {
+      expect(() =>
+        validateModels('gemini', { vision: 'gemini-2.5-pro', video: 'veo-3.1-fast-generate-preview' }, GEMINI_MODEL_CATALOG)
+      ).not.toThrow();
+    });
+
+    it('should reject a model used for the wrong capability', () => {
+      expect(() => validateModels('gemini', { vision: 'veo-3.0-generate-001' }, GEMINI_MODEL_CATALOG)).toThrow(
+        'Model "veo-3.0-generate-001" is not supported for vision by the gemini provider'
+      );
+      expect(() => validateModels('gemini', { referenceVideo: 'veo-3.0-generate-001' }, GEMINI_MODEL_CATALOG)).toThrow(
+        InvalidRequestError
+      );
+    });
+  });
+
+  describe('getProvider', () => {
+    beforeEach(() => {
+      process.env.GEMINI_API_KEY = 'test-key';
+    });
+
+    it('should use provider defaults without config', () => {
+      const provider = getProvider({ provider: 'gemini' });
+
+      expect(provider.modelFor('vision')).toBe(GEMINI_DEFAULT_MODELS.vision);
+      expect(provider.modelFor('referenceVideo')).toBe('veo-3.1-generate-preview');
+    });
+
+    it('should apply per-tool models', async () => {
+      await writeFile(configPath, JSON.stringify({ models: { tools: { mockup_to_code: { vision: 'gemini-2.5-pro' } } } }));
+
+      expect(getProvider({ provider: 'gemini', tool: 'mockup_to_code' }).modelFor('vision')).toBe('gemini-2.5-pro');
+      expect(getProvider({ provider: 'gemini', tool: 'analyze_mockup' }).modelFor('vision')).toBe('gemini-2.0-flash');
+    });
+
+    it('should reject unsupported models before creating the provider', () => {
+      process.env.NANOBANANA_VIDEO_MODEL = 'gemini-2.0-flash';
+
+      expect(() => getProvider({ provider: 'gemini' })).toThrow(InvalidRequestError);
+    });
+
+    it('should not validate providers without a catalog', () => {
+      process.env.NANOBANANA_VIDEO_MODEL = 'gemini-2.0-flash';
+
+      expect(getProvider({ provider: 'mock' }).modelFor('video')).toBe('mock');
+    });
+  });
+
+  it('should send the configured model to Gemini', async () => {
+    const generateContent = vi.fn(async () => ({
+      candidates: [{ content: { parts: [{ text: 'A login form' }] } }],
+    }));
+    const client = {
+      models: { generateContent, generateVideos: vi.fn() },
+      operations: { getVideosOperation: vi.fn() },
+    };
+    const provider = new GeminiProvider('test-key', {
+      client: client as unknown as GeminiClient,
+      journalPath: null,
+      models: { vision: 'gemini-2.5-pro' },
+    });
+
+    await provider.analyzeImage(Buffer.from('png'), 'What is this?');
+
+    expect(generateContent).toHaveBeenCalledWith(expect.objectContaining({ model: 'gemini-2.5-pro' }));
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Operation Journal Tests
+ *
+ * Tests for persisting pending video operations and resuming them
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  recordPendingOperation,
+  removePendingOperation,
+  listPendingOperations,
+  getJournalPath,
+  type PendingOperation,
+} from '../../src/providers/operation-journal.js';
+import { GeminiProvider, type GeminiClient } from '../../src/providers/gemini.js';
+import { InvalidRequestError, OperationTimeoutError } from '../../src/providers/errors.js';
+
+const OPERATION_NAME = 'models/veo-3.0-generate-001/operations/resume123';
+
+function entry(name: string): PendingOperation {
+  return {
+    name,
+    provider: 'gemini',
+    model: 'veo-3.0-generate-001',
+    kind: 'generateVideo',
+    prompt: 'a sunset',
+    submittedAt: new Date().toISOString(),
+  };
+}
+
+function completedOperation() {
+  return {
+    name: OPERATION_NAME,
+    done: true,
+    response: { generatedVideos: [{ video: { uri: 'https://example.com/resumed.mp4' } }] },
+  };
+}
+
+describe('Operation journal', () => {
+  let dir: string;
+  let journalPath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-journal-'));
+    journalPath = join(dir, 'operations.json');
+  });
+
+  afterEach(async () => {
+    delete process.env.NANOBANANA_STATE_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return an empty list when no journal exists', async () => {
+    expect(await listPendingOperations(journalPath)).toEqual([]);
+  });
+
+  it('should record and remove operations', async () => {
+    await recordPendingOperation(entry('operations/a'), journalPath);
+    await recordPendingOperation(entry('operations/b'), journalPath);
+    await removePendingOperation('operations/a', journalPath);
+
+    const pending = await listPendingOperations(journalPath);
+    expect(pending.map((op) => op.name)).toEqual(['operations/b']);
+  });
+
+  it('should not duplicate an operation recorded twice', async () => {
+    await Promise.all([
+      recordPendingOperation(entry('operations/a'), journalPath),
+      recordPendingOperation(entry('operations/a'), journalPath),
+    ]);
+
+    expect(await listPendingOperations(journalPath)).toHaveLength(1);
+  });
+
+  it('should honor NANOBANANA_STATE_DIR', () => {
+    process.env.NANOBANANA_STATE_DIR = dir;
+    expect(getJournalPath()).toBe(journalPath);
+  });
+
+  describe('GeminiProvider', () => {
+    function createProvider(client: unknown) {
+      const fetchMock = vi.fn(async () => new Response(Buffer.from('resumed-bytes')));
+      return new GeminiProvider('test-key', {
+        client: client as GeminiClient,
+        fetch: fetchMock as unknown as typeof fetch,
+        pollIntervalMs: 5,
+        journalPath,
+      });
+    }
+
+    it('should keep a timed-out operation in the journal', async () => {
+      const pending = { name: OPERATION_NAME, done: false };
+      const provider = createProvider({
+        models: { generateContent: vi.fn(), generateVideos: vi.fn(async () => pending) },
+        operations: { getVideosOperation: vi.fn(async () => pending) },
+      });
+
+      await expect(provider.generateVideo('a sunset', { maxWaitMs: 20 })).rejects.toBeInstanceOf(
+        OperationTimeoutError
+      );
+
+      const journaled = await listPendingOperations(journalPath);
+      expect(journaled).toHaveLength(1);
+      expect(journaled[0]).toMatchObject({ name: OPERATION_NAME, kind: 'generateVideo', prompt: 'a sunset' });
+    });
+
+    it('should resume a journaled operation and clear it', async () => {
+      await recordPendingOperation(entry(OPERATION_NAME), journalPath);
+      const getVideosOperation = vi.fn(async () => completedOperation());
+      const provider = createProvider({
+        models: { generateContent: vi.fn(), generateVideos: vi.fn() },
+        operations: { getVideosOperation },
+      });
+
+      const result = await provider.resumeVideoOperation(OPERATION_NAME);
+
+      expect(result.buffer.toString()).toBe('resumed-bytes');
+      expect(result.url).toBe('https://example.com/resumed.mp4');
+      expect(getVideosOperation).toHaveBeenCalledWith(
+        expect.objectContaining({ operation: expect.objectContaining({ name: OPERATION_NAME }) })
+      );
+      expect(await listPendingOperations(journalPath)).toEqual([]);
+    });
+
+    it('should reject malformed operation names', async () => {
+      const provider = createProvider({
+        models: { generateContent: vi.fn(), generateVideos: vi.fn() },
+        operations: { getVideosOperation: vi.fn() },
+      });
+
+      await expect(provider.resumeVideoOperation('not-an-operation')).rejects.toBeInstanceOf(
+        InvalidRequestError
+      );
+    });
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Retry Policy Tests
+ *
+ * Tests for error classification, backoff and GeminiProvider retries
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { withRetry, computeRetryDelay, resolveRetryPolicy, createAttemptTracker, DEFAULT_RETRY_POLICY } from '../../src/providers/retry.js';
+import {
+  classifyError,
+  isProviderFailure,
+  isRequestRejected,
+  parseRetryAfter,
+  RateLimitError,
+  QuotaExceededError,
+  SafetyBlockError,
+  InvalidRequestError,
+  ServiceUnavailableError,
+} from '../../src/providers/errors.js';
+import { GeminiProvider, type GeminiClient } from '../../src/providers/gemini.js';
+
+const FAST_RETRY = { initialDelayMs: 0, jitter: 0 };
+
+function apiError(status: number, message: string): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+function imageResponse() {
+  return {
+    candidates: [
+      {
+        content: {
+          parts: [{ inlineData: { data: Buffer.from('png').toString('base64'), mimeType: 'image/png' } }],
+        },
+      },
+    ],
+  };
+}
+
+function createClient(generateContent: (...args: unknown[]) => Promise<unknown>): GeminiClient {
+  return {
+    models: {
+      generateContent: vi.fn(generateContent),
+      generateVideos: vi.fn(),
+    },
+    operations: {
+      getVideosOperation: vi.fn(),
+    },
+  } as unknown as GeminiClient;
+}
+
+describe('classifyError', () => {
+  it('should classify 429 as a retryable rate limit', () => {
+    const error = classifyError(apiError(429, 'Too many requests'));
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryable).toBe(true);
+    expect(error.code).toBe('RATE_LIMITED');
+  });
+
+  it('should classify an exhausted daily quota as non-retryable', () => {
+    const error = classifyError(apiError(429, 'Quota exceeded for metric: requests per day'));
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should classify 503 and network failures as service unavailable', () => {
+    expect(classifyError(apiError(503, 'Service Unavailable'))).toBeInstanceOf(ServiceUnavailableError);
+    expect(classifyError(new Error('fetch failed: ECONNRESET'))).toBeInstanceOf(ServiceUnavailableError);
+    const refused = Object.assign(new TypeError('fetch failed'), {
+      cause: Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }),
+    });
+    expect(classifyError(refused)).toBeInstanceOf(ServiceUnavailableError);
+  });
+
+  it('should classify 400 as an invalid request', () => {
+    const error = classifyError(apiError(400, 'INVALID_ARGUMENT'));
+    expect(error).toBeInstanceOf(InvalidRequestError);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('should pick up the retryDelay embedded in the error body', () => {
+    const error = classifyError(apiError(429, '{"retryDelay": "34s"}'));
+    expect(error.retryAfterMs).toBe(34000);
+  });
+
+  it('should pass provider errors through unchanged', () => {
+    const original = new SafetyBlockError('blocked');
+    expect(classifyError(original)).toBe(original);
+  });
+});
+
+describe('isProviderFailure', () => {
+  it('should accept SDK errors and network failures', () => {
+    expect(isProviderFailure(apiError(500, 'Internal error'))).toBe(true);
+    expect(isProviderFailure(new Error('RESOURCE_EXHAUSTED: try again later'))).toBe(true);
+    expect(isProviderFailure(Object.assign(new Error('read'), { code: 'ECONNRESET' }))).toBe(true);
+  });
+
+  it('should reject local errors that mention the network', () => {
+    const fsError = Object.assign(new Error("ENOENT: no such file or directory, open 'network-diagram.png'"), {
+      code: 'ENOENT',
+    });
+
+    expect(isProviderFailure(fsError)).toBe(false);
+    expect(isProviderFailure(new Error('Input file is missing: /tmp/network.png'))).toBe(false);
+  });
+});
+
+describe('isRequestRejected', () => {
+  it('should accept rate limiting and connections that were never made', () => {
+    expect(isRequestRejected(classifyError(apiError(429, 'Too many requests')))).toBe(true);
+    const refused = Object.assign(new TypeError('fetch failed'), {
+      cause: Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }),
+    });
+    expect(isRequestRejected(classifyError(refused))).toBe(true);
+  });
+
+  it('should reject failures that may follow an accepted request', () => {
+    expect(isRequestRejected(classifyError(apiError(503, 'Service Unavailable')))).toBe(false);
+    expect(isRequestRejected(classifyError(new Error('fetch failed: ECONNRESET')))).toBe(false);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds', () => {
+    expect(parseRetryAfter('5')).toBe(5000);
+  });
+
+  it('should parse an HTTP date', () => {
+    const date = new Date(Date.now() + 10000).toUTCString();
+    const delay = parseRetryAfter(date)!;
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+  });
+
+  it('should ignore missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('computeRetryDelay', () => {
+  const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+  it('should back off exponentially', () => {
+    expect(computeRetryDelay(1, policy)).toBe(2000);
+    expect(computeRetryDelay(2, policy)).toBe(4000);
+    expect(computeRetryDelay(3, policy)).toBe(8000);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeRetryDelay(20, policy)).toBe(policy.maxDelayMs);
+  });
+
+  it('should prefer the server-provided delay', () => {
+    const error = new RateLimitError('slow down', { retryAfterMs: 1234 });
+    expect(computeRetryDelay(1, policy, error)).toBe(1234);
+  });
+
+  it('should keep jitter within bounds', () => {
+    const jittered = { ...DEFAULT_RETRY_POLICY, jitter: 0.2 };
+    for (let i = 0; i < 20; i++) {
+      const delay = computeRetryDelay(1, jittered);
+      expect(delay).toBeGreaterThanOrEqual(1600);
+      expect(delay).toBeLessThanOrEqual(2400);
+    }
+  });
+});
+
+describe('resolveRetryPolicy', () => {
+  afterEach(() => {
+    delete process.env.NANOBANANA_RETRY_ATTEMPTS;
+  });
+
+  it('should read maxAttempts from NANOBANANA_RETRY_ATTEMPTS', () => {
+    process.env.NANOBANANA_RETRY_ATTEMPTS = '7';
+    expect(resolveRetryPolicy().maxAttempts).toBe(7);
+  });
+
+  it('should let per-call options win over the environment', () => {
+    process.env.NANOBANANA_RETRY_ATTEMPTS = '7';
+    expect(resolveRetryPolicy({ maxAttempts: 2 }).maxAttempts).toBe(2);
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry retryable errors until success', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(apiError(503, 'Service Unavailable'))
+      .mockRejectedValueOnce(apiError(429, 'Too many requests'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+
+    await expect(withRetry(operation, { ...FAST_RETRY, onRetry })).resolves.toBe('ok');
+    expect(operation).toHaveBeenCalledTimes(3);
+    expect(onRetry).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const operation = vi.fn().mockRejectedValue(apiError(400, 'Bad request'));
+
+    await expect(withRetry(operation, FAST_RETRY)).rejects.toBeInstanceOf(InvalidRequestError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow local errors without classifying or retrying them', async () => {
+    const fsError = Object.assign(new Error("EACCES: permission denied, open 'network.png'"), { code: 'EACCES' });
+    const operation = vi.fn().mockRejectedValue(fsError);
+
+    await expect(withRetry(operation, FAST_RETRY)).rejects.toBe(fsError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry errors accepted by retryIf', async () => {
+    const operation = vi.fn().mockRejectedValue(apiError(503, 'Service Unavailable'));
+
+    await expect(
+      withRetry(operation, { ...FAST_RETRY, retryIf: (error) => error.status === 429 })
+    ).rejects.toBeInstanceOf(ServiceUnavailableError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up after maxAttempts', async () => {
+    const operation = vi.fn().mockRejectedValue(apiError(429, 'Too many requests'));
+
+    await expect(withRetry(operation, { ...FAST_RETRY, maxAttempts: 3 })).rejects.toBeInstanceOf(RateLimitError);
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should count attempts across calls with an attempt tracker', async () => {
+    const tracker = createAttemptTracker(FAST_RETRY);
+    const flaky = vi.fn().mockRejectedValueOnce(apiError(503, 'Unavailable')).mockResolvedValue('ok');
+
+    await withRetry(flaky, tracker.retry);
+    await withRetry(async () => 'ok', tracker.retry);
+
+    expect(tracker.attempts).toBe(3);
+  });
+});
+
+describe('GeminiProvider retries', () => {
+  it('should retry a rate-limited generateContent call', async () => {
+    const client = createClient(
+      vi.fn()
+        .mockRejectedValueOnce(apiError(429, 'Resource has been exhausted'))
+        .mockResolvedValue(imageResponse())
+    );
+    const provider = new GeminiProvider('test-key', { client });
+    const tracker = createAttemptTracker(FAST_RETRY);
+
+    const result = await provider.generateImageSingle('a cat', { retry: tracker.retry });
+
+    expect(result.buffer.toString()).toBe('png');
+    expect(tracker.attempts).toBe(2);
+    expect(client.models.generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should surface safety blocks without retrying', async () => {
+    const client = createClient(async () => ({
+      promptFeedback: { blockReason: 'SAFETY' },
+    }));
+    const provider = new GeminiProvider('test-key', { client });
+
+    await expect(provider.generateImageSingle('something unsafe', { retry: FAST_RETRY })).rejects.toBeInstanceOf(
+      SafetyBlockError
+    );
+    expect(client.models.generateContent).toHaveBeenCalledTimes(1);
+  });
+});
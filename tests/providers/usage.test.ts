@@ -0,0 +1,144 @@
+/**
+ * Usage Accounting Tests
+ *
+ * Tests for pricing, the usage ledgers and budget caps
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { estimateCost } from '../../src/providers/pricing.js';
+import {
+  recordUsage,
+  readProjectUsage,
+  getSessionUsage,
+  summarizeUsage,
+  getLedgerPath,
+  assertWithinBudget,
+  SESSION_ID,
+} from '../../src/providers/usage.js';
+import { BudgetExceededError } from '../../src/providers/errors.js';
+import { MockProvider } from '../../src/providers/mock.js';
+import { GeminiProvider, type GeminiClient } from '../../src/providers/gemini.js';
+import { getUsageReport } from '../../src/tools/usage/usage-report.js';
+
+describe('estimateCost', () => {
+  it('should price images per image', () => {
+    expect(estimateCost('gemini-2.5-flash-image', { images: 2 })).toBe(0.078);
+  });
+
+  it('should price video per second', () => {
+    expect(estimateCost('veo-3.0-generate-001', { videoSeconds: 8 })).toBe(3.2);
+  });
+
+  it('should price text tokens per million', () => {
+    expect(estimateCost('gemini-2.0-flash', { inputTokens: 1_000_000, outputTokens: 500_000 })).toBe(0.3);
+  });
+
+  it('should treat unknown models as free', () => {
+    expect(estimateCost('some-future-model', { images: 10 })).toBe(0);
+  });
+});
+
+describe('Usage ledger', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-usage-'));
+    process.env.NANOBANANA_STATE_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.NANOBANANA_STATE_DIR;
+    delete process.env.NANOBANANA_BUDGET_USD;
+    delete process.env.NANOBANANA_SESSION_BUDGET_USD;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should append records to the project ledger and the session', async () => {
+    const record = await recordUsage({
+      provider: 'gemini',
+      model: 'gemini-2.5-flash-image',
+      operation: 'generateImage',
+      images: 1,
+      inputTokens: 12,
+    });
+
+    expect(record.costUsd).toBe(0.039);
+    expect(record.sessionId).toBe(SESSION_ID);
+    expect(getSessionUsage()).toContainEqual(record);
+    expect(await readProjectUsage()).toEqual([record]);
+    expect(getLedgerPath()).toBe(join(dir, 'usage.jsonl'));
+  });
+
+  it('should summarize totals per model', () => {
+    const base = { timestamp: '', sessionId: 's', provider: 'gemini', operation: 'x', images: 0, videoSeconds: 0, inputTokens: 0, outputTokens: 0 };
+    const summary = summarizeUsage([
+      { ...base, model: 'gemini-2.5-flash-image', images: 1, costUsd: 0.039 },
+      { ...base, model: 'gemini-2.5-flash-image', images: 1, costUsd: 0.039 },
+      { ...base, model: 'veo-3.0-generate-001', videoSeconds: 8, costUsd: 3.2 },
+    ]);
+
+    expect(summary.calls).toBe(3);
+    expect(summary.costUsd).toBe(3.278);
+    expect(summary.byModel['gemini-2.5-flash-image']).toMatchObject({ calls: 2, images: 2, costUsd: 0.078 });
+    expect(summary.byModel['veo-3.0-generate-001']).toMatchObject({ calls: 1, videoSeconds: 8 });
+  });
+
+  it('should block generation once the project budget is spent', async () => {
+    await writeFile(
+      join(dir, 'usage.jsonl'),
+      JSON.stringify({ model: 'veo-3.0-generate-001', images: 0, videoSeconds: 8, inputTokens: 0, outputTokens: 0, costUsd: 3.2 }) + '\n'
+    );
+    process.env.NANOBANANA_BUDGET_USD = '3';
+
+    await expect(assertWithinBudget()).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(new MockProvider().generateImage('a cat')).rejects.toThrow('Project budget of $3.00 reached');
+  });
+
+  it('should block generation once the session budget is spent', async () => {
+    process.env.NANOBANANA_SESSION_BUDGET_USD = '0';
+
+    await expect(new MockProvider().generateImage('a cat')).rejects.toMatchObject({ code: 'BUDGET_EXCEEDED' });
+  });
+
+  it('should record tokens and images reported by Gemini', async () => {
+    const client = {
+      models: {
+        generateContent: vi.fn(async () => ({
+          candidates: [{ content: { parts: [{ inlineData: { data: 'cG5n', mimeType: 'image/png' } }] } }],
+          usageMetadata: { promptTokenCount: 7, candidatesTokenCount: 1290 },
+        })),
+        generateVideos: vi.fn(),
+      },
+      operations: { getVideosOperation: vi.fn() },
+    };
+    const provider = new GeminiProvider('test-key', { client: client as unknown as GeminiClient, journalPath: null });
+
+    await provider.generateImageSingle('a cat');
+
+    const [record] = await readProjectUsage();
+    expect(record).toMatchObject({
+      provider: 'gemini',
+      model: 'gemini-2.5-flash-image',
+      operation: 'generateImageSingle',
+      images: 1,
+      inputTokens: 7,
+      outputTokens: 1290,
+      costUsd: 0.039,
+    });
+  });
+
+  it('should report session and project usage with budgets', async () => {
+    process.env.NANOBANANA_BUDGET_USD = '10';
+    await new MockProvider().generateImage('a dog', { count: 2 });
+
+    const report = await getUsageReport();
+
+    expect(report.sessionId).toBe(SESSION_ID);
+    expect(report.project).toMatchObject({ calls: 2, images: 2, costUsd: 0 });
+    expect(report.session!.byModel.mock!.images).toBeGreaterThanOrEqual(2);
+    expect(report.budgets).toEqual([{ scope: 'project', limitUsd: 10, spentUsd: 0, remainingUsd: 10 }]);
+  });
+});
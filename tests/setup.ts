@@ -0,0 +1,28 @@
+/**
+ * Test Setup
+ *
+ * Gives every test its own NANOBANANA_STATE_DIR so usage ledgers, operation
+ * journals and caches never land in the checkout's .nanobanana directory,
+ * where they would count against NANOBANANA_BUDGET_USD and show up in
+ * resume_video_job.
+ */
+
+import { beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+let stateDir: string | undefined;
+
+beforeEach(async () => {
+  stateDir = await mkdtemp(join(tmpdir(), 'nanobanana-state-'));
+  process.env.NANOBANANA_STATE_DIR = stateDir;
+});
+
+afterEach(async () => {
+  delete process.env.NANOBANANA_STATE_DIR;
+  if (stateDir) {
+    await rm(stateDir, { recursive: true, force: true });
+    stateDir = undefined;
+  }
+});
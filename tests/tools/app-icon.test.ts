@@ -0,0 +1,43 @@
+/**
+ * App Icon Tests
+ *
+ * Tests for the platform icon sets written by generate_app_icon
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ToolContext } from '@opencode-ai/plugin/tool';
+import { generateAppIcon } from '../../src/tools/app-assets/app-icon.js';
+import { readProvenance } from '../../src/utils/provenance.js';
+
+describe('App icon', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-app-icon-'));
+    process.env.OUTPUT_DIR = dir;
+    process.env.NANOBANANA_PROVIDER = 'mock';
+  });
+
+  afterEach(async () => {
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_PROVIDER;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should keep provenance sidecars out of the platform bundles', async () => {
+    const result = JSON.parse(
+      await generateAppIcon.execute({ prompt: 'a rocket', platforms: ['ios', 'android'] }, {} as ToolContext)
+    );
+    expect(result.success).toBe(true);
+
+    const bundles = [join(dir, 'app-icons', 'ios', 'AppIcon.appiconset'), join(dir, 'app-icons', 'android', 'mipmap-xxxhdpi')];
+    for (const bundle of bundles) {
+      const files = await readdir(bundle);
+      expect(files.filter((file) => !/\.(png|json|xml)$/.test(file) || file.endsWith('.provenance.json'))).toEqual([]);
+    }
+    expect(await readProvenance(join(bundles[1]!, 'ic_launcher.png'))).toMatchObject({ tool: 'generate_app_icon' });
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Asset Gallery Tests
+ *
+ * Tests for the static HTML gallery of generated assets
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import sharp from 'sharp';
+import { buildAssetGallery } from '../../src/tools/assets/asset-gallery.js';
+import { saveImage, writeAsset } from '../../src/utils/file-handler.js';
+import { checkFfmpegInstalled } from '../../src/utils/ffmpeg.js';
+import { initProjectConfig, resetProjectConfig } from '../../src/config/project-config.js';
+
+const FIXTURE = join(__dirname, '..', 'fixtures', 'red-square.png');
+
+describe('Asset gallery', () => {
+  let dir: string;
+  let png: Buffer;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-gallery-'));
+    process.env.OUTPUT_DIR = dir;
+    process.env.NANOBANANA_WORKSPACE_ROOT = dir;
+    png = await readFile(FIXTURE);
+  });
+
+  afterEach(async () => {
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_WORKSPACE_ROOT;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should group assets by tool with thumbnails and prompts', async () => {
+    await saveImage(png, dir, 'banner', 0, { tool: 'generate_readme_banner', prompt: 'Acme <launch> banner' });
+    await saveImage(png, join(dir, 'icons'), 'icon', 0, { tool: 'generate_app_icon', prompt: 'a rocket' });
+    await writeFile(join(dir, 'by-hand.png'), png);
+
+    const gallery = await buildAssetGallery();
+    const html = await readFile(gallery.htmlPath, 'utf-8');
+
+    expect(gallery.htmlPath).toBe(join(dir, 'gallery', 'index.html'));
+    expect(gallery.assets.map((asset) => asset.tool).sort()).toEqual([
+      'generate_app_icon',
+      'generate_readme_banner',
+      'other',
+    ]);
+    expect(gallery.assets.find((asset) => asset.tool === 'generate_app_icon')).toMatchObject({
+      kind: 'image',
+      prompt: 'a rocket',
+      width: 2,
+      height: 2,
+      bytes: expect.any(Number),
+    });
+
+    // Sections appear in tool order, prompts are escaped and links are relative
+    expect(html.indexOf('<h2>generate_app_icon')).toBeLessThan(html.indexOf('<h2>generate_readme_banner'));
+    expect(html).toContain('Acme &#60;launch&#62; banner');
+    expect(html).toContain('href="../icons/icon.png"');
+    expect(html).toContain('2×2');
+
+    for (const asset of gallery.assets) {
+      const { width } = await sharp(asset.thumbnail!).metadata();
+      expect(width).toBe(2);
+    }
+  });
+
+  it('should skip history snapshots and its own thumbnails', async () => {
+    await writeAsset(join(dir, 'banner.png'), png, { tool: 'generate_readme_banner' });
+    await writeAsset(join(dir, 'banner.png'), png, { tool: 'generate_readme_banner' });
+
+    await buildAssetGallery();
+    const rebuilt = await buildAssetGallery();
+
+    expect(rebuilt.assets.map((asset) => asset.file)).toEqual([join(dir, 'banner.png')]);
+  });
+
+  it('should skip its own thumbnails when the page is written into the scanned directory', async () => {
+    await saveImage(png, dir, 'banner', 0, { tool: 'generate_readme_banner' });
+    const outputPath = join(dir, 'index.html');
+
+    await buildAssetGallery({ outputPath });
+    const rebuilt = await buildAssetGallery({ outputPath });
+
+    expect(rebuilt.assets.map((asset) => asset.file)).toEqual([join(dir, 'banner.png')]);
+    expect(existsSync(join(dir, 'thumbs'))).toBe(true);
+  });
+
+  it('should apply the overwrite policy to a chosen page path', async () => {
+    await saveImage(png, dir, 'banner', 0, { tool: 'generate_readme_banner' });
+    await writeFile(join(dir, 'nanobanana.config.json'), JSON.stringify({ overwrite: 'never' }));
+    await initProjectConfig(dir);
+    const outputPath = join(dir, 'review.html');
+    await writeFile(outputPath, 'keep me');
+
+    try {
+      await expect(buildAssetGallery({ outputPath })).rejects.toMatchObject({ code: 'FILE_EXISTS' });
+      expect(await readFile(outputPath, 'utf-8')).toBe('keep me');
+      await buildAssetGallery();
+      await expect(buildAssetGallery()).resolves.toMatchObject({ htmlPath: join(dir, 'gallery', 'index.html') });
+    } finally {
+      resetProjectConfig();
+    }
+  });
+
+  it('should check the thumbnails directory before creating it', async () => {
+    const outside = await mkdtemp(join(tmpdir(), 'nanobanana-gallery-outside-'));
+    try {
+      await mkdir(join(dir, 'gallery'));
+      await symlink(join(outside, 'thumbs'), join(dir, 'gallery', 'thumbs'));
+
+      await expect(buildAssetGallery()).rejects.toMatchObject({ code: 'OUTSIDE_WORKSPACE' });
+      expect(existsSync(join(outside, 'thumbs'))).toBe(false);
+    } finally {
+      await rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('should list videos even when FFmpeg is unavailable', async () => {
+    await writeFile(join(dir, 'clip.mp4'), 'not really a video');
+
+    const gallery = await buildAssetGallery();
+    const [video] = gallery.assets;
+
+    expect(video).toMatchObject({ kind: 'video', tool: 'other' });
+    if (!(await checkFfmpegInstalled())) {
+      expect(video!.thumbnail).toBeUndefined();
+      expect(gallery.warnings).toEqual([expect.stringContaining('FFmpeg is not installed')]);
+    }
+    expect(existsSync(gallery.htmlPath)).toBe(true);
+  });
+});
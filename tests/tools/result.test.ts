@@ -0,0 +1,112 @@
+/**
+ * Tool Result Tests
+ *
+ * Tests for the shared result envelope built by runTool()
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { copyFile, mkdtemp, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { runTool, describeFile, type ToolResult } from '../../src/tools/result.js';
+import { MockProvider } from '../../src/providers/mock.js';
+import { RateLimitError } from '../../src/providers/errors.js';
+
+const FIXTURE = join(__dirname, '..', 'fixtures', 'red-square.png');
+
+describe('Tool results', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-result-'));
+    process.env.NANOBANANA_STATE_DIR = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.NANOBANANA_STATE_DIR;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('describeFile', () => {
+    it('should report MIME type, size and image dimensions', async () => {
+      const path = join(dir, 'icon.png');
+      await copyFile(FIXTURE, path);
+
+      const file = await describeFile(path);
+
+      expect(file).toMatchObject({ path, mimeType: 'image/png', width: 2, height: 2 });
+      expect(file.bytes).toBeGreaterThan(0);
+    });
+
+    it('should omit dimensions for other files', async () => {
+      const path = join(dir, 'Contents.json');
+      await writeFile(path, '{}');
+
+      expect(await describeFile(path)).toEqual({ path, mimeType: 'application/json', bytes: 2 });
+    });
+  });
+
+  describe('runTool', () => {
+    it('should build a successful result with files, warnings and data', async () => {
+      const path = join(dir, 'out.png');
+      await copyFile(FIXTURE, path);
+
+      const result: ToolResult = JSON.parse(
+        await runTool(async ({ warn }) => {
+          warn('Used fallback crop');
+          return { summary: 'Done', files: [path], data: { style: 'tech' } };
+        })
+      );
+
+      expect(result).toEqual({
+        success: true,
+        summary: 'Done',
+        files: [expect.objectContaining({ path, mimeType: 'image/png' })],
+        warnings: ['Used fallback crop'],
+        usage: { attempts: 0, calls: 0, costUsd: 0 },
+        data: { style: 'tech' },
+      });
+    });
+
+    it('should attribute provider usage to the tool call', async () => {
+      const provider = new MockProvider();
+
+      const result: ToolResult = JSON.parse(
+        await runTool(async ({ retry }) => {
+          await provider.generateImage('a banana', { retry });
+          return { summary: 'Generated' };
+        })
+      );
+
+      expect(result.usage.calls).toBe(1);
+      expect(result.usage.attempts).toBe(1);
+    });
+
+    it('should keep a successful result when a written file cannot be read', async () => {
+      const path = join(dir, 'out.png');
+      await copyFile(FIXTURE, path);
+      const missing = join(dir, 'moved.png');
+
+      const result: ToolResult = JSON.parse(
+        await runTool(async () => ({ summary: 'Done', files: [path, missing] }))
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.files).toEqual([expect.objectContaining({ path })]);
+      expect(result.warnings).toEqual([expect.stringContaining(`Could not read written file ${missing}`)]);
+    });
+
+    it('should report provider errors with their code', async () => {
+      const result: ToolResult = JSON.parse(
+        await runTool(async () => {
+          throw new RateLimitError('Too many requests');
+        })
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.summary).toBe('Too many requests');
+      expect(result.error).toEqual({ message: 'Too many requests', code: 'RATE_LIMITED', retryable: true });
+      expect(result.files).toEqual([]);
+    });
+  });
+});
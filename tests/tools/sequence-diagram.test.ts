@@ -0,0 +1,54 @@
+/**
+ * Sequence Diagram Tests
+ *
+ * Tests for saving Mermaid sequence diagrams
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ToolContext } from '@opencode-ai/plugin/tool';
+import { generateSequenceDiagramTool } from '../../src/tools/docs/sequence-diagram.js';
+import { readManifest } from '../../src/utils/manifest.js';
+import { getManifestPath } from '../../src/utils/file-handler.js';
+
+describe('Sequence diagram', () => {
+  let dir: string;
+  const context = {} as ToolContext;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-sequence-'));
+    process.env.OUTPUT_DIR = dir;
+    process.env.NANOBANANA_WORKSPACE_ROOT = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_WORKSPACE_ROOT;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should save Mermaid output as a tracked asset, creating its directory', async () => {
+    const outputPath = join(dir, 'docs', 'login.mmd');
+    const result = JSON.parse(
+      await generateSequenceDiagramTool.execute({ description: 'User logs in', format: 'mermaid', outputPath }, context)
+    );
+
+    expect(result.success).toBe(true);
+    expect(await readFile(outputPath, 'utf-8')).toBe(result.data.mermaid);
+    const manifest = await readManifest(getManifestPath());
+    expect(manifest.assets['docs/login']).toMatchObject({ tool: 'generate_sequence_diagram', prompt: 'User logs in' });
+  });
+
+  it('should refuse Mermaid output outside the workspace', async () => {
+    const result = JSON.parse(
+      await generateSequenceDiagramTool.execute(
+        { description: 'User logs in', format: 'mermaid', outputPath: '/nanobanana-outside/login.mmd' },
+        context
+      )
+    );
+
+    expect(result).toMatchObject({ success: false, error: { code: 'OUTSIDE_WORKSPACE' } });
+  });
+});
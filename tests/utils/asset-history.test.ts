@@ -0,0 +1,145 @@
+/**
+ * Asset History Tests
+ *
+ * Tests for asset versions, rollback and side-by-side diffs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import sharp from 'sharp';
+import type { ToolContext } from '@opencode-ai/plugin/tool';
+import {
+  saveImage,
+  writeAsset,
+  getHistoryDir,
+  getManifestPath,
+  restoreAssetVersion,
+} from '../../src/utils/file-handler.js';
+import { listVersions, getVersion, getAssetHistoryDir } from '../../src/utils/asset-history.js';
+import { readManifest } from '../../src/utils/manifest.js';
+import { initProjectConfig, resetProjectConfig } from '../../src/config/project-config.js';
+import { readProvenance, sha256 } from '../../src/utils/provenance.js';
+import { diffAssetVersionsTool } from '../../src/tools/assets/diff-asset-versions.js';
+
+async function solid(color: string, width = 8, height = 8): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: color } }).png().toBuffer();
+}
+
+describe('Asset history', () => {
+  let dir: string;
+  const context = {} as ToolContext;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-history-'));
+    process.env.OUTPUT_DIR = dir;
+    process.env.NANOBANANA_WORKSPACE_ROOT = dir;
+  });
+
+  afterEach(async () => {
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_WORKSPACE_ROOT;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should version repeated generations of the same asset', async () => {
+    const first = await saveImage(await solid('#ff0000'), dir, 'app-icon', 0, { tool: 'generate_image', prompt: 'red' });
+    const second = await saveImage(await solid('#0000ff'), dir, 'app-icon', 0, { tool: 'generate_image', prompt: 'blue' });
+
+    expect(second).toBe(first);
+    expect(existsSync(join(dir, 'app-icon_1.png'))).toBe(false);
+    expect(await listVersions(getHistoryDir(), 'app-icon')).toEqual([
+      expect.objectContaining({ version: 1, prompt: 'red' }),
+      expect.objectContaining({ version: 2, prompt: 'blue' }),
+    ]);
+  });
+
+  it('should overwrite an asset saved to the same path and keep every version', async () => {
+    await writeAsset(join(dir, 'app-icon.png'), await solid('#ff0000'), { tool: 'generate_image', prompt: 'red' });
+    const path = await writeAsset(join(dir, 'app-icon.png'), await solid('#0000ff'), { tool: 'edit_image', prompt: 'blue' });
+
+    expect(path).toBe(join(dir, 'app-icon.png'));
+    expect(existsSync(join(dir, 'app-icon_1.png'))).toBe(false);
+
+    const versions = await listVersions(getHistoryDir(), 'app-icon');
+    expect(versions).toEqual([
+      expect.objectContaining({ version: 1, file: 'v1.png', tool: 'generate_image', prompt: 'red' }),
+      expect.objectContaining({ version: 2, file: 'v2.png', tool: 'edit_image', prompt: 'blue' }),
+    ]);
+
+    const first = await getVersion(getHistoryDir(), 'app-icon', 1);
+    expect(sha256(await readFile(first.path))).toBe(first.sha256);
+    expect(await readProvenance(first.path)).toMatchObject({ prompt: 'red' });
+  });
+
+  it('should roll an asset back as a new version', async () => {
+    await writeAsset(join(dir, 'app-icon.png'), await solid('#ff0000'), { tool: 'generate_image', prompt: 'red' });
+    const path = await writeAsset(join(dir, 'app-icon.png'), await solid('#0000ff'), { tool: 'edit_image', prompt: 'blue' });
+
+    const restored = await restoreAssetVersion('app-icon', 1);
+
+    expect(restored.path).toBe(path);
+    expect(restored.version).toMatchObject({ version: 3, restoredFrom: 1, prompt: 'red' });
+    const { data } = await sharp(path).raw().toBuffer({ resolveWithObject: true });
+    expect([...data.subarray(0, 3)]).toEqual([255, 0, 0]);
+    expect(await readProvenance(path)).toMatchObject({ tool: 'generate_image', prompt: 'red' });
+
+    const manifest = await readManifest(getManifestPath());
+    expect(manifest.assets['app-icon']).toMatchObject({ version: 3, sha256: sha256(await readFile(path)) });
+  });
+
+  it('should reject unknown versions', async () => {
+    await saveImage(await solid('#ff0000'), dir, 'app-icon', 0);
+
+    await expect(restoreAssetVersion('app-icon', 7)).rejects.toThrow('Available versions: 1');
+    await expect(restoreAssetVersion('nope', 1)).rejects.toThrow('Unknown asset ID: nope');
+  });
+
+  it('should reject asset IDs that leave the history store', async () => {
+    expect(getAssetHistoryDir(getHistoryDir(), 'icons/app-icon')).toBe(join(getHistoryDir(), 'icons', 'app-icon'));
+    expect(() => getAssetHistoryDir(getHistoryDir(), '../../x')).toThrow('Invalid asset ID: ../../x');
+    expect(() => getAssetHistoryDir(getHistoryDir(), 'icons/..')).toThrow('Invalid asset ID');
+    await expect(listVersions(getHistoryDir(), '../x')).rejects.toThrow('Invalid asset ID');
+  });
+
+  it('should render two versions side by side', async () => {
+    await writeAsset(join(dir, 'banner.png'), await solid('#ff0000', 8, 8), { tool: 'generate_readme_banner' });
+    await writeAsset(join(dir, 'banner.png'), await solid('#0000ff', 16, 8), { tool: 'generate_readme_banner' });
+
+    const result = JSON.parse(await diffAssetVersionsTool.execute({ id: 'banner' }, context));
+
+    expect(result.success).toBe(true);
+    expect(result.files[0].path).toBe(join(dir, 'diffs', 'banner-v1-v2.png'));
+    expect(result.data).toMatchObject({
+      identical: false,
+      from: { version: 1, width: 8, height: 8 },
+      to: { version: 2, width: 16, height: 8 },
+    });
+
+    // 8px and 16px wide images at height 8, with 16px gaps and a 40px label bar
+    expect(result.files[0]).toMatchObject({ width: 8 + 16 + 16 * 3, height: 8 + 40 + 16 * 2 });
+  });
+
+  it('should apply the overwrite policy to a chosen diff path', async () => {
+    await writeAsset(join(dir, 'banner.png'), await solid('#ff0000'), { tool: 'generate_readme_banner' });
+    await writeAsset(join(dir, 'banner.png'), await solid('#0000ff'), { tool: 'generate_readme_banner' });
+    await writeFile(join(dir, 'nanobanana.config.json'), JSON.stringify({ overwrite: 'never' }));
+    await initProjectConfig(dir);
+    const outputPath = join(dir, 'notes.png');
+    await writeFile(outputPath, 'keep me');
+
+    try {
+      const refused = JSON.parse(await diffAssetVersionsTool.execute({ id: 'banner', outputPath }, context));
+      const rebuilt = JSON.parse(await diffAssetVersionsTool.execute({ id: 'banner' }, context));
+      const again = JSON.parse(await diffAssetVersionsTool.execute({ id: 'banner' }, context));
+
+      expect(refused).toMatchObject({ success: false, error: { code: 'FILE_EXISTS' } });
+      expect(await readFile(outputPath, 'utf-8')).toBe('keep me');
+      expect([rebuilt.success, again.success]).toEqual([true, true]);
+    } finally {
+      resetProjectConfig();
+    }
+  });
+});
@@ -6,13 +6,14 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import * as ffmpeg from '../../src/utils/ffmpeg.js';
-import { exec } from 'child_process';
+import { spawn } from 'child_process';
+import { EventEmitter } from 'events';
 import { existsSync } from 'fs';
 import * as fs from 'fs/promises';
 
 // Mock child_process
 vi.mock('child_process', () => ({
-  exec: vi.fn(),
+  spawn: vi.fn(),
 }));
 
 // Mock fs
@@ -27,30 +28,195 @@ vi.mock('fs/promises', () => ({
   copyFile: vi.fn(),
 }));
 
+interface FakeRun {
+  stdout?: string;
+  stderr?: string;
+  code?: number;
+  error?: Error;
+}
+
+/**
+ * Make spawn() return fake processes that emit the given output and exit
+ */
+function mockSpawn(handler: (command: string, args: string[]) => FakeRun = () => ({})) {
+  vi.mocked(spawn).mockImplementation(((command: string, args: string[]) => {
+    const { stdout = '', stderr = '', code = 0, error } = handler(command, args);
+    const child = Object.assign(new EventEmitter(), {
+      stdout: new EventEmitter(),
+      stderr: new EventEmitter(),
+    });
+    process.nextTick(() => {
+      if (error) {
+        child.emit('error', error);
+        return;
+      }
+      if (stdout) child.stdout.emit('data', Buffer.from(stdout));
+      if (stderr) child.stderr.emit('data', Buffer.from(stderr));
+      child.emit('close', code, null);
+    });
+    return child;
+  }) as any);
+}
+
+/** FFprobe JSON for a clip */
+function probeOutput(info: Partial<ffmpeg.MediaInfo> = {}): string {
+  const { duration = 5, width = 320, height = 180, frameRate = '24/1', hasAudio = true } = info;
+  return JSON.stringify({
+    streams: [
+      { codec_type: 'video', width, height, r_frame_rate: frameRate },
+      ...(hasAudio ? [{ codec_type: 'audio' }] : []),
+    ],
+    format: { duration: String(duration) },
+  });
+}
+
+/** A 5s 320x180 clip with sound, as the default ffprobe mock reports it */
+const CLIP: ffmpeg.MediaInfo = { duration: 5, width: 320, height: 180, frameRate: '24/1', hasAudio: true };
+
+/** Command and arguments of the nth spawn() call */
+function spawned(index = 0): [string, string[]] {
+  const call = vi.mocked(spawn).mock.calls[index]!;
+  return [call[0], call[1] as string[]];
+}
+
+/** -filter_complex value of the nth spawn() call */
+function filterOf(index: number): string | undefined {
+  const [, args] = spawned(index);
+  return args[args.indexOf('-filter_complex') + 1];
+}
+
 describe('FFmpeg Utils', () => {
   beforeEach(() => {
     vi.clearAllMocks();
-    // Default: files exist
+    // Default: files exist, ffprobe reports 5s, ffmpeg succeeds
     vi.mocked(existsSync).mockReturnValue(true);
+    mockSpawn((command, args) =>
+      command === 'ffprobe' ? { stdout: args.includes('json') ? probeOutput() : '5.0\n' } : {}
+    );
+  });
+
+  describe('runFfmpeg', () => {
+    it('should pass arguments without a shell', async () => {
+      await ffmpeg.runFfmpeg(['-i', "it's $(rm -rf ~).mp4"]);
+
+      expect(spawn).toHaveBeenCalledWith(
+        'ffmpeg',
+        ['-hide_banner', '-nostdin', '-i', "it's $(rm -rf ~).mp4"],
+        expect.objectContaining({ stdio: ['ignore', 'pipe', 'pipe'] })
+      );
+    });
+
+    it('should include the exit code and end of stderr in errors', async () => {
+      mockSpawn(() => ({
+        stderr: 'Input #0\n/input.mp4: Invalid data found when processing input\n',
+        code: 1,
+      }));
+
+      const error = await ffmpeg.runFfmpeg(['-i', '/input.mp4']).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ffmpeg.FfmpegError);
+      expect((error as ffmpeg.FfmpegError).exitCode).toBe(1);
+      expect((error as ffmpeg.FfmpegError).message).toBe(
+        'ffmpeg exited with code 1: Input #0\n/input.mp4: Invalid data found when processing input'
+      );
+    });
+
+    it('should keep only the end of long stderr output', async () => {
+      mockSpawn(() => ({ stderr: 'frame=1\n'.repeat(20000) + 'Conversion failed!', code: 1 }));
+
+      const error = (await ffmpeg.runFfmpeg([]).catch((e: unknown) => e)) as ffmpeg.FfmpegError;
+
+      expect(error.stderr.length).toBeLessThanOrEqual(16 * 1024);
+      expect(error.stderr.endsWith('Conversion failed!')).toBe(true);
+    });
+
+    it('should report a process that fails to start', async () => {
+      mockSpawn(() => ({ error: new Error('spawn ffprobe ENOENT') }));
+
+      await expect(ffmpeg.runFfprobe(['-version'])).rejects.toThrow(
+        'Failed to run ffprobe: spawn ffprobe ENOENT'
+      );
+    });
+  });
+
+  describe('progress', () => {
+    const block = (fields: string) => fields.split(' ').join('\n') + '\n';
+
+    it('should parse progress blocks split across chunks', () => {
+      const reports: ffmpeg.FfmpegProgress[] = [];
+      const feed = ffmpeg.createProgressParser((report) => reports.push(report), 10);
+
+      feed('frame=60\nfps=24.00\nout_time_us=25');
+      feed('00000\nspeed=1.25x\nprogress=continue\n');
+      feed(block('fps=24.00 out_time_us=10000000 speed=1.3x progress=end'));
+
+      expect(reports).toEqual([
+        { outTime: 2.5, fps: 24, speed: 1.25, percent: 25, etaSeconds: 6, done: false },
+        { outTime: 10, fps: 24, speed: 1.3, percent: 100, etaSeconds: 0, done: true },
+      ]);
+    });
+
+    it('should leave out percent and ETA when they are unknown', () => {
+      const reports: ffmpeg.FfmpegProgress[] = [];
+      const feed = ffmpeg.createProgressParser((report) => reports.push(report));
+
+      feed(block('fps=0.00 out_time_us=N/A speed=N/A progress=continue'));
+
+      expect(reports).toEqual([{ outTime: 0, fps: 0, done: false }]);
+    });
+
+    it('should ask ffmpeg for progress on stdout and report it', async () => {
+      mockSpawn(() => ({ stdout: block('out_time_us=3000000 speed=2x progress=continue') }));
+      const reports: ffmpeg.FfmpegProgress[] = [];
+
+      const result = await ffmpeg.runFfmpeg(['-i', 'file:/input.mp4'], {
+        duration: 12,
+        onProgress: (report) => reports.push(report),
+      });
+
+      expect(spawned()[1].slice(0, 5)).toEqual(['-hide_banner', '-nostdin', '-progress', 'pipe:1', '-nostats']);
+      expect(reports).toEqual([{ outTime: 3, speed: 2, percent: 25, etaSeconds: 4.5, done: false }]);
+      expect(result.stdout).toBe('');
+    });
+
+    it('should report progress of concatenation against the output duration', async () => {
+      mockSpawn((command) =>
+        command === 'ffprobe' ? { stdout: probeOutput() } : { stdout: block('out_time_us=4500000 progress=continue') }
+      );
+      const reports: ffmpeg.FfmpegProgress[] = [];
+
+      await ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4'], '/output.mp4', {
+        transitionDuration: 1,
+        onProgress: (report) => reports.push(report),
+      });
+
+      // Two 5s clips overlapping by 1s make 9s of output
+      expect(reports[0]?.percent).toBe(50);
+    });
+
+    it('should probe the video duration for audio mixing progress', async () => {
+      const reports: ffmpeg.FfmpegProgress[] = [];
+
+      await ffmpeg.addAudioTrack('/video.mp4', '/audio.mp3', '/output.mp4', 1, {
+        onProgress: (report) => reports.push(report),
+      });
+
+      expect(spawned(0)[0]).toBe('ffprobe');
+      expect(spawned(1)[1]).toContain('pipe:1');
+    });
   });
 
   describe('checkFfmpegInstalled', () => {
     it('should return true when ffmpeg is installed', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(null, { stdout: 'ffmpeg version 4.4.0', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ stdout: 'ffmpeg version 4.4.0' }));
 
       const result = await ffmpeg.checkFfmpegInstalled();
       expect(result).toBe(true);
-      expect(exec).toHaveBeenCalledWith('ffmpeg -version', expect.any(Function));
+      expect(spawned()).toEqual(['ffmpeg', ['-hide_banner', '-nostdin', '-version']]);
     });
 
     it('should return false when ffmpeg is not installed', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(new Error('Command not found'), { stdout: '', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ error: new Error('spawn ffmpeg ENOENT') }));
 
       const result = await ffmpeg.checkFfmpegInstalled();
       expect(result).toBe(false);
@@ -59,17 +225,13 @@ describe('FFmpeg Utils', () => {
 
   describe('getVideoDuration', () => {
     it('should return video duration in seconds', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(null, { stdout: '10.5\n', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ stdout: '10.5\n' }));
 
       const duration = await ffmpeg.getVideoDuration('/path/to/video.mp4');
       expect(duration).toBe(10.5);
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('ffprobe'),
-        expect.any(Function)
-      );
+      const [command, args] = spawned();
+      expect(command).toBe('ffprobe');
+      expect(args.at(-1)).toBe('file:/path/to/video.mp4');
     });
 
     it('should throw error when video file does not exist', async () => {
@@ -81,10 +243,7 @@ describe('FFmpeg Utils', () => {
     });
 
     it('should throw error when ffprobe fails', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(new Error('ffprobe error'), { stdout: '', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ stderr: 'ffprobe error', code: 1 }));
 
       await expect(ffmpeg.getVideoDuration('/path/to/video.mp4')).rejects.toThrow(
         'Failed to get video duration'
@@ -92,10 +251,7 @@ describe('FFmpeg Utils', () => {
     });
 
     it('should throw error when duration cannot be parsed', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(null, { stdout: 'invalid\n', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ stdout: 'invalid\n' }));
 
       await expect(ffmpeg.getVideoDuration('/path/to/video.mp4')).rejects.toThrow(
         'Failed to parse video duration'
@@ -105,17 +261,19 @@ describe('FFmpeg Utils', () => {
 
   describe('trimVideo', () => {
     it('should trim video from startTime for duration', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(null, { stdout: '', stderr: '' });
-        return {} as any;
-      });
-
       await ffmpeg.trimVideo('/input.mp4', 5, 10, '/output.mp4');
 
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('-ss 5 -t 10'),
-        expect.any(Function)
-      );
+      const [command, args] = spawned();
+      expect(command).toBe('ffmpeg');
+      expect(args.join(' ')).toContain('-ss 5 -t 10');
+    });
+
+    it('should pass paths with shell and option syntax as single file arguments', async () => {
+      await ffmpeg.trimVideo("/clips/it's $(touch pwned).mp4", 0, 5, '-y.mp4');
+
+      const [, args] = spawned();
+      expect(args).toContain("file:/clips/it's $(touch pwned).mp4");
+      expect(args.at(-1)).toBe('file:-y.mp4');
     });
 
     it('should throw error when video file does not exist', async () => {
@@ -139,10 +297,7 @@ describe('FFmpeg Utils', () => {
     });
 
     it('should throw error when ffmpeg fails', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(new Error('ffmpeg error'), { stdout: '', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ stderr: 'ffmpeg error', code: 1 }));
 
       await expect(ffmpeg.trimVideo('/input.mp4', 0, 5, '/output.mp4')).rejects.toThrow(
         'Failed to trim video'
@@ -152,30 +307,27 @@ describe('FFmpeg Utils', () => {
 
   describe('addAudioTrack', () => {
     it('should add audio track to video', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(null, { stdout: '', stderr: '' });
-        return {} as any;
-      });
-
       await ffmpeg.addAudioTrack('/video.mp4', '/audio.mp3', '/output.mp4');
 
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('amix'),
-        expect.any(Function)
-      );
+      expect(filterOf(1)).toBe('[1:a]volume=1[a1];[0:a][a1]amix=inputs=2:duration=first[aout]');
     });
 
     it('should apply custom volume to audio track', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(null, { stdout: '', stderr: '' });
-        return {} as any;
-      });
-
       await ffmpeg.addAudioTrack('/video.mp4', '/audio.mp3', '/output.mp4', 0.5);
 
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('volume=0.5'),
-        expect.any(Function)
+      expect(spawned(1)[1]).toContainEqual(expect.stringContaining('volume=0.5'));
+    });
+
+    it('should mix the track with silence when the video has no audio', async () => {
+      mockSpawn((command) => (command === 'ffprobe' ? { stdout: probeOutput({ duration: 6, hasAudio: false }) } : {}));
+
+      await ffmpeg.addAudioTrack('/silent.mp4', '/audio.mp3', '/output.mp4', 0.3);
+
+      const filter = filterOf(1)!;
+      expect(filter).not.toContain('[0:a]');
+      expect(filter).toBe(
+        '[1:a]volume=0.3[a1];anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=6[a0];' +
+          '[a0][a1]amix=inputs=2:duration=first[aout]'
       );
     });
 
@@ -202,10 +354,7 @@ describe('FFmpeg Utils', () => {
     });
 
     it('should throw error when ffmpeg fails', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(new Error('ffmpeg error'), { stdout: '', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ stderr: 'ffmpeg error', code: 1 }));
 
       await expect(
         ffmpeg.addAudioTrack('/video.mp4', '/audio.mp3', '/output.mp4')
@@ -213,12 +362,147 @@ describe('FFmpeg Utils', () => {
     });
   });
 
+  describe('buildFadeFilter', () => {
+    it('should fade out at the end of a clip and in at the start of the next, with audio', () => {
+      expect(ffmpeg.buildFadeFilter([5, 8], 1).split(';')).toEqual([
+        '[0:v]fade=t=out:st=4.5:d=0.5[v0]',
+        '[0:a]afade=t=out:st=4.5:d=0.5[a0]',
+        '[1:v]fade=t=in:st=0:d=0.5[v1]',
+        '[1:a]afade=t=in:st=0:d=0.5[a1]',
+        '[v0][a0][v1][a1]concat=n=2:v=1:a=1[outv][outa]',
+      ]);
+    });
+
+    it('should fade middle clips in and out and use each input once', () => {
+      const filter = ffmpeg.buildFadeFilter([4, 6.005, 3], 0.5);
+
+      expect(filter.split(';')).toContain(
+        '[1:v]fade=t=in:st=0:d=0.25,fade=t=out:st=5.755:d=0.25[v1]'
+      );
+      expect(filter.split(';')).toContain(
+        '[1:a]afade=t=in:st=0:d=0.25,afade=t=out:st=5.755:d=0.25[a1]'
+      );
+      for (const label of ['[0:v]', '[1:v]', '[2:v]', '[0:a]', '[1:a]', '[2:a]', '[v1]', '[a1]']) {
+        expect(filter.split(label)).toHaveLength(label.includes(':') ? 2 : 3);
+      }
+      expect(filter.endsWith('[v0][a0][v1][a1][v2][a2]concat=n=3:v=1:a=1[outv][outa]')).toBe(true);
+    });
+
+    it('should shorten fades on clips too short to hold them', () => {
+      expect(ffmpeg.buildFadeFilter([1, 0.6, 1], 2).split(';')[2]).toBe(
+        '[1:v]fade=t=in:st=0:d=0.3,fade=t=out:st=0.3:d=0.3[v1]'
+      );
+    });
+  });
+
+  describe('probeVideo', () => {
+    it('should report streams and detect missing audio', async () => {
+      mockSpawn(() => ({ stdout: probeOutput({ width: 1280, height: 720, frameRate: '30000/1001', hasAudio: false }) }));
+
+      expect(await ffmpeg.probeVideo('/silent.mp4')).toEqual({
+        duration: 5,
+        width: 1280,
+        height: 720,
+        frameRate: '30000/1001',
+        hasAudio: false,
+      });
+      expect(spawned()[1].at(-1)).toBe('file:/silent.mp4');
+    });
+
+    it('should fall back to 24 fps when the frame rate is unknown', async () => {
+      mockSpawn(() => ({ stdout: probeOutput({ frameRate: '0/0' }) }));
+
+      expect((await ffmpeg.probeVideo('/clip.mp4')).frameRate).toBe('24/1');
+    });
+
+    it('should throw error when there is no video stream', async () => {
+      mockSpawn(() => ({ stdout: JSON.stringify({ streams: [{ codec_type: 'audio' }], format: { duration: '3' } }) }));
+
+      await expect(ffmpeg.probeVideo('/audio.m4a')).rejects.toThrow('Failed to probe video: No video stream found');
+    });
+  });
+
+  describe('buildInputFilters', () => {
+    it('should normalize every input to the first one and synthesize silence', () => {
+      const { filters, labels } = ffmpeg.buildInputFilters([
+        { duration: 8, width: 1280, height: 720, frameRate: '24/1', hasAudio: true },
+        { duration: 4.5, width: 720, height: 1280, frameRate: '30000/1001', hasAudio: false },
+      ]);
+
+      expect(filters).toEqual([
+        '[0:v]scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=24/1,format=yuv420p[in0v]',
+        '[0:a]aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo[in0a]',
+        '[1:v]scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=24/1,format=yuv420p[in1v]',
+        'anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=4.5,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo[in1a]',
+      ]);
+      expect(labels).toEqual([
+        { video: '[in0v]', audio: '[in0a]' },
+        { video: '[in1v]', audio: '[in1a]' },
+      ]);
+    });
+
+    it('should never read audio from an input that has none', async () => {
+      mockSpawn((command, args) =>
+        command === 'ffprobe' ? { stdout: probeOutput({ hasAudio: !args.includes('file:/silent.mp4') }) } : {}
+      );
+
+      await ffmpeg.concatenateVideos(['/video1.mp4', '/silent.mp4', '/video3.mp4'], '/output.mp4', {
+        transition: 'dissolve',
+      });
+
+      const filter = filterOf(3)!;
+      expect(filter).not.toContain('[1:a]');
+      expect(filter).toContain('[0:a]');
+      expect(filter).toContain('anullsrc=channel_layout=stereo:sample_rate=48000,atrim=duration=5');
+      expect(filter).toContain('[in0a][in1a]acrossfade=d=0.5[a1]');
+    });
+  });
+
+  describe('buildTransitionFilter', () => {
+    it('should chain xfade effects with offsets from the output so far', () => {
+      const { filter, duration } = ffmpeg.buildTransitionFilter([5, 4, 6], [
+        { transition: 'wipeleft', duration: 1 },
+        { transition: 'crossfade', duration: 0.5 },
+      ]);
+
+      expect(filter.split(';')).toEqual([
+        '[0:v][1:v]xfade=transition=wipeleft:duration=1:offset=4[v1]',
+        '[0:a][1:a]acrossfade=d=1[a1]',
+        '[v1][2:v]xfade=transition=fade:duration=0.5:offset=7.5[outv]',
+        '[a1][2:a]acrossfade=d=0.5[outa]',
+      ]);
+      expect(duration).toBe(13.5);
+    });
+
+    it('should mix cuts, dips to black and xfade effects', () => {
+      const { filter, duration } = ffmpeg.buildTransitionFilter([5, 4, 6, 3], [
+        { transition: 'cut', duration: 0.5 },
+        { transition: 'fade', duration: 1 },
+        { transition: 'pixelize', duration: 2 },
+      ]);
+
+      expect(filter.split(';')).toEqual([
+        '[0:v][0:a][1:v][1:a]concat=n=2:v=1:a=1[v1][a1]',
+        '[v1]fade=t=out:st=8.5:d=0.5[fo2v]',
+        '[a1]afade=t=out:st=8.5:d=0.5[fo2a]',
+        '[2:v]fade=t=in:st=0:d=0.5[fi2v]',
+        '[2:a]afade=t=in:st=0:d=0.5[fi2a]',
+        '[fo2v][fo2a][fi2v][fi2a]concat=n=2:v=1:a=1[v2][a2]',
+        '[v2][3:v]xfade=transition=pixelize:duration=2:offset=13[outv]',
+        '[a2][3:a]acrossfade=d=2[outa]',
+      ]);
+      expect(duration).toBe(16);
+    });
+
+    it('should shorten transitions longer than a clip', () => {
+      const { filter } = ffmpeg.buildTransitionFilter([5, 0.8], [{ transition: 'dissolve', duration: 2 }]);
+
+      expect(filter).toContain('xfade=transition=dissolve:duration=0.8:offset=4.2');
+    });
+  });
+
   describe('concatenateVideos', () => {
     beforeEach(() => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(null, { stdout: '', stderr: '' });
-        return {} as any;
-      });
       vi.mocked(fs.writeFile).mockResolvedValue(undefined);
       vi.mocked(fs.unlink).mockResolvedValue(undefined);
       vi.mocked(fs.copyFile).mockResolvedValue(undefined);
@@ -233,14 +517,45 @@ describe('FFmpeg Utils', () => {
 
       expect(fs.writeFile).toHaveBeenCalledWith(
         expect.stringContaining('.concat.txt'),
-        expect.stringContaining("file '/video1.mp4'")
+        "file 'file:/video1.mp4'\nfile 'file:/video2.mp4'"
+      );
+      expect(spawned(2)[1].join(' ')).toContain('-f concat');
+      expect(spawned(2)[1]).toContain('copy');
+    });
+
+    it('should normalize clips of different formats instead of stream copying them', async () => {
+      mockSpawn((command, args) =>
+        command === 'ffprobe'
+          ? { stdout: args.includes('file:/portrait.mp4') ? probeOutput({ width: 180, height: 320, hasAudio: false }) : probeOutput() }
+          : {}
+      );
+
+      await ffmpeg.concatenateVideos(['/video1.mp4', '/portrait.mp4'], '/output.mp4', { transition: 'cut' });
+
+      expect(fs.writeFile).not.toHaveBeenCalled();
+      const { filters, labels } = ffmpeg.buildInputFilters([CLIP, { ...CLIP, width: 180, height: 320, hasAudio: false }]);
+      expect(filterOf(2)).toBe(
+        [...filters, ffmpeg.buildTransitionFilter([5, 5], [{ transition: 'cut', duration: 0.5 }], labels).filter].join(';')
       );
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('-f concat'),
-        expect.any(Function)
+      expect(spawned(2)[1].join(' ')).toContain('-map [outv] -map [outa]');
+    });
+
+    it('should escape quotes in the concat list', async () => {
+      await ffmpeg.concatenateVideos(["/clips/it's.mp4"], '/output.mp4', { transition: 'cut' });
+
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        expect.stringContaining('.concat.txt'),
+        "file 'file:/clips/it'\\''s.mp4'"
       );
     });
 
+    it('should reject paths with line breaks for the concat list', async () => {
+      await expect(
+        ffmpeg.concatenateVideos(['/clips/a\nfile /etc/passwd.mp4'], '/output.mp4', { transition: 'cut' })
+      ).rejects.toThrow('Video path contains a line break');
+      expect(spawn).not.toHaveBeenCalled();
+    });
+
     it('should concatenate videos with crossfade transition', async () => {
       await ffmpeg.concatenateVideos(
         ['/video1.mp4', '/video2.mp4'],
@@ -248,10 +563,7 @@ describe('FFmpeg Utils', () => {
         { transition: 'crossfade', transitionDuration: 1.0 }
       );
 
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('xfade'),
-        expect.any(Function)
-      );
+      expect(spawned(2)[1]).toContainEqual(expect.stringContaining('xfade'));
     });
 
     it('should concatenate videos with fade transition', async () => {
@@ -261,19 +573,18 @@ describe('FFmpeg Utils', () => {
         { transition: 'fade', transitionDuration: 0.5 }
       );
 
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('fade'),
-        expect.any(Function)
-      );
+      // Both clips are probed so the fade-out can be timed from their ends
+      expect(spawned(0)[0]).toBe('ffprobe');
+      expect(spawned(1)[0]).toBe('ffprobe');
+      const { filters, labels } = ffmpeg.buildInputFilters([CLIP, CLIP]);
+      expect(filterOf(2)).toBe([...filters, ffmpeg.buildFadeFilter([5, 5], 0.5, labels)].join(';'));
+      expect(spawned(2)[1].join(' ')).toContain('-map [outv] -map [outa]');
     });
 
     it('should use default crossfade transition', async () => {
       await ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4'], '/output.mp4');
 
-      expect(exec).toHaveBeenCalledWith(
-        expect.stringContaining('xfade'),
-        expect.any(Function)
-      );
+      expect(spawned(2)[1]).toContainEqual(expect.stringContaining('xfade'));
     });
 
     it('should throw error for empty video list', async () => {
@@ -290,6 +601,51 @@ describe('FFmpeg Utils', () => {
       ).rejects.toThrow('Video file not found');
     });
 
+    it('should apply any xfade transition', async () => {
+      await ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4'], '/output.mp4', {
+        transition: 'circleopen',
+        transitionDuration: 1,
+      });
+
+      const { labels } = ffmpeg.buildInputFilters([CLIP, CLIP]);
+      expect(filterOf(2)).toContain(
+        ffmpeg.buildTransitionFilter([5, 5], [{ transition: 'circleopen', duration: 1 }], labels).filter
+      );
+    });
+
+    it('should apply per-boundary overrides to the default transition', async () => {
+      await ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4', '/video3.mp4'], '/output.mp4', {
+        transition: 'cut',
+        boundaries: [undefined, { transition: 'slideup', duration: 0.75 }],
+      });
+
+      const { labels } = ffmpeg.buildInputFilters([CLIP, CLIP, CLIP]);
+      expect(filterOf(3)).toContain(
+        ffmpeg.buildTransitionFilter(
+          [5, 5, 5],
+          [
+            { transition: 'cut', duration: 0.5 },
+            { transition: 'slideup', duration: 0.75 },
+          ],
+          labels
+        ).filter
+      );
+    });
+
+    it('should reject unknown or extra boundary transitions', async () => {
+      await expect(
+        ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4'], '/output.mp4', {
+          boundaries: [{ transition: 'spin' as any }],
+        })
+      ).rejects.toThrow('Unknown transition type: spin');
+      await expect(
+        ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4'], '/output.mp4', {
+          boundaries: [{}, {}],
+        })
+      ).rejects.toThrow('Got 2 boundary transition(s) for 2 video(s)');
+      expect(spawn).not.toHaveBeenCalled();
+    });
+
     it('should throw error for unknown transition type', async () => {
       await expect(
         ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4'], '/output.mp4', {
@@ -315,10 +671,7 @@ describe('FFmpeg Utils', () => {
     });
 
     it('should throw error when ffmpeg fails', async () => {
-      vi.mocked(exec).mockImplementation((cmd: any, callback: any) => {
-        callback(new Error('ffmpeg error'), { stdout: '', stderr: '' });
-        return {} as any;
-      });
+      mockSpawn(() => ({ stderr: 'ffmpeg error', code: 1 }));
 
       await expect(
         ffmpeg.concatenateVideos(['/video1.mp4', '/video2.mp4'], '/output.mp4')
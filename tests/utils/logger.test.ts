@@ -0,0 +1,89 @@
+/**
+ * Logger Tests
+ *
+ * Tests for leveled JSON logging with per-job correlation IDs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createLogger, getLogLevel } from '../../src/utils/logger.js';
+
+describe('Logger', () => {
+  let dir: string;
+  let logFile: string;
+
+  const readRecords = async () =>
+    (await readFile(logFile, 'utf-8').catch(() => ''))
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => JSON.parse(line) as Record<string, unknown>);
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-logger-'));
+    logFile = join(dir, 'nanobanana.log');
+    process.env.NANOBANANA_LOG_FILE = logFile;
+  });
+
+  afterEach(async () => {
+    delete process.env.NANOBANANA_LOG_FILE;
+    delete process.env.NANOBANANA_LOG_LEVEL;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should default to warn and ignore unknown levels', () => {
+    expect(getLogLevel()).toBe('warn');
+    process.env.NANOBANANA_LOG_LEVEL = 'verbose';
+    expect(getLogLevel()).toBe('warn');
+    process.env.NANOBANANA_LOG_LEVEL = 'DEBUG';
+    expect(getLogLevel()).toBe('debug');
+  });
+
+  it('should write records at or above the configured level as JSON lines', async () => {
+    process.env.NANOBANANA_LOG_LEVEL = 'info';
+    const log = createLogger('generate_video', {}, 'job-1');
+
+    log.debug('Saving video');
+    log.info('Generating video', { prompt: 'A sunset' });
+    log.error('Video generation failed', { error: new Error('Quota exceeded') });
+
+    const records = await readRecords();
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      level: 'info',
+      job: 'generate_video',
+      jobId: 'job-1',
+      msg: 'Generating video',
+      prompt: 'A sunset',
+    });
+    expect(typeof records[0]!.time).toBe('string');
+    expect(records[1]).toMatchObject({
+      level: 'error',
+      error: { name: 'Error', message: 'Quota exceeded' },
+    });
+  });
+
+  it('should write nothing when silent', async () => {
+    process.env.NANOBANANA_LOG_LEVEL = 'silent';
+    createLogger('generate_video').error('Video generation failed');
+
+    expect(await readRecords()).toEqual([]);
+  });
+
+  it('should share the job ID with child loggers', async () => {
+    process.env.NANOBANANA_LOG_LEVEL = 'debug';
+    const log = createLogger('generate_storyboard_video', { sessionID: 'ses_1' });
+    const scene = log.child({ scene: 2 });
+
+    log.info('Generating 3 scene(s)');
+    scene.info('Generating scene 2/3');
+
+    const records = await readRecords();
+    expect(log.jobId).toMatch(/^[0-9a-f]{8}$/);
+    expect(scene.jobId).toBe(log.jobId);
+    expect(records.map((record) => record.jobId)).toEqual([log.jobId, log.jobId]);
+    expect(records[1]).toMatchObject({ sessionID: 'ses_1', scene: 2 });
+    expect(records[0]).not.toHaveProperty('scene');
+  });
+});
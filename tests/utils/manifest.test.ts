@@ -0,0 +1,106 @@
+/**
+ * Asset Manifest Tests
+ *
+ * Tests for manifest updates on save and verification against disk
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import type { ToolContext } from '@opencode-ai/plugin/tool';
+import { saveImage, writeAsset, getManifestPath, restoreAssetVersion } from '../../src/utils/file-handler.js';
+import { readManifest, verifyManifest } from '../../src/utils/manifest.js';
+import { sha256 } from '../../src/utils/provenance.js';
+import { listAssetVersionsTool } from '../../src/tools/assets/list-asset-versions.js';
+
+const FIXTURE = join(__dirname, '..', 'fixtures', 'red-square.png');
+
+describe('Asset manifest', () => {
+  let dir: string;
+  let png: Buffer;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-manifest-'));
+    process.env.OUTPUT_DIR = dir;
+    process.env.NANOBANANA_WORKSPACE_ROOT = dir;
+    png = await readFile(FIXTURE);
+  });
+
+  afterEach(async () => {
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_WORKSPACE_ROOT;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should record saved assets under their logical ID', async () => {
+    const sourcePath = join(dir, 'source.png');
+    await writeFile(sourcePath, png);
+
+    const savedPath = await saveImage(png, join(dir, 'icons'), 'app-icon', 0, {
+      tool: 'edit_image',
+      prompt: 'make it red',
+      inputs: [sourcePath],
+    });
+
+    const manifest = await readManifest(getManifestPath());
+    expect(getManifestPath()).toBe(join(dir, 'manifest.json'));
+    expect(manifest.assets['icons/app-icon']).toEqual({
+      path: 'icons/app-icon.png',
+      sha256: sha256(await readFile(savedPath)),
+      tool: 'edit_image',
+      prompt: 'make it red',
+      inputs: [{ path: sourcePath, sha256: sha256(png) }],
+      updatedAt: expect.any(String),
+      version: 1,
+    });
+  });
+
+  it('should keep one entry per asset when it is regenerated', async () => {
+    await writeAsset(join(dir, 'banner.png'), png, { tool: 'generate_readme_banner' });
+    const second = await writeAsset(join(dir, 'banner.png'), png, { tool: 'generate_readme_banner' });
+
+    const manifest = await readManifest(getManifestPath());
+    expect(Object.keys(manifest.assets)).toEqual(['banner']);
+    expect(manifest.assets.banner).toMatchObject({ path: 'banner.png', version: 2 });
+    expect(second).toBe(join(dir, 'banner.png'));
+  });
+
+  it('should report missing, modified and stale assets', async () => {
+    const sourcePath = join(dir, 'source.png');
+    await writeFile(sourcePath, png);
+
+    await saveImage(png, dir, 'kept', 0, { tool: 'generate_image' });
+    const missing = await saveImage(png, dir, 'missing', 0, { tool: 'generate_image' });
+    const modified = await saveImage(png, dir, 'modified', 0, { tool: 'generate_image' });
+    await saveImage(png, dir, 'stale', 0, { tool: 'edit_image', inputs: [sourcePath] });
+
+    await unlink(missing);
+    await writeFile(modified, 'edited by hand');
+    await writeFile(sourcePath, 'new source');
+
+    const report = await verifyManifest(getManifestPath());
+
+    expect(report.counts).toEqual({ ok: 1, missing: 1, modified: 1, stale: 1 });
+    expect(report.assets).toEqual([
+      { id: 'kept', path: 'kept.png', status: 'ok' },
+      { id: 'missing', path: 'missing.png', status: 'missing' },
+      { id: 'modified', path: 'modified.png', status: 'modified' },
+      { id: 'stale', path: 'stale.png', status: 'stale', changedInputs: [sourcePath] },
+    ]);
+  });
+
+  it('should reject unknown asset IDs', async () => {
+    await expect(verifyManifest(getManifestPath(), ['nope'])).rejects.toThrow('Unknown asset ID(s): nope');
+  });
+
+  it('should not mistake inherited object properties for asset IDs', async () => {
+    await saveImage(png, dir, 'banner');
+    const context = {} as ToolContext;
+
+    await expect(verifyManifest(getManifestPath(), ['constructor'])).rejects.toThrow('Unknown asset ID(s): constructor');
+    await expect(restoreAssetVersion('toString', 1)).rejects.toThrow('Unknown asset ID: toString');
+    const listed = JSON.parse(await listAssetVersionsTool.execute({ id: 'hasOwnProperty' }, context));
+    expect(listed).toMatchObject({ success: false, error: { message: expect.stringContaining('Unknown asset ID') } });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Path Safety Tests
+ *
+ * Tests for the workspace boundary and overwrite policy of saved assets
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdir, mkdtemp, readFile, rm, symlink, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { saveImage, writeAsset, checkOutputPath } from '../../src/utils/file-handler.js';
+import { listVersions } from '../../src/utils/asset-history.js';
+import { readManifest } from '../../src/utils/manifest.js';
+import { assertWritablePath, resolveRealPath, PathSafetyError } from '../../src/utils/path-safety.js';
+import { createTempWorkspace } from '../../src/utils/temp-workspace.js';
+import { initProjectConfig, resetProjectConfig } from '../../src/config/project-config.js';
+import { toToolError } from '../../src/tools/result.js';
+import { resizeForDevicesTool } from '../../src/tools/app-assets/resize-devices.js';
+import type { ToolContext } from '@opencode-ai/plugin/tool';
+
+const FIXTURE = join(__dirname, '..', 'fixtures', 'red-square.png');
+
+describe('Path safety', () => {
+  let dir: string;
+  let workspace: string;
+  let outside: string;
+  let png: Buffer;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-paths-'));
+    workspace = join(dir, 'workspace');
+    outside = join(dir, 'outside');
+    await mkdir(workspace);
+    await mkdir(outside);
+    process.env.OUTPUT_DIR = join(workspace, 'assets');
+    process.env.NANOBANANA_WORKSPACE_ROOT = workspace;
+    png = await readFile(FIXTURE);
+  });
+
+  afterEach(async () => {
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_WORKSPACE_ROOT;
+    resetProjectConfig();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('workspace boundary', () => {
+    it('should allow paths inside the roots', async () => {
+      await expect(assertWritablePath(join(workspace, 'a', 'b.png'), [workspace], 'version')).resolves.toBeUndefined();
+    });
+
+    it('should refuse paths that escape the roots', async () => {
+      const error = await assertWritablePath(join(workspace, '..', 'outside', 'x.png'), [workspace], 'version').catch(
+        (e) => e
+      );
+
+      expect(error).toBeInstanceOf(PathSafetyError);
+      expect(error.code).toBe('OUTSIDE_WORKSPACE');
+      expect(toToolError(error)).toMatchObject({ code: 'OUTSIDE_WORKSPACE', retryable: false });
+    });
+
+    it('should follow symlinks out of the workspace', async () => {
+      await symlink(outside, join(workspace, 'escape'));
+      await symlink(join(outside, 'missing.png'), join(workspace, 'dangling.png'));
+
+      expect(await resolveRealPath(join(workspace, 'escape', 'new', 'x.png'))).toBe(
+        join(await resolveRealPath(outside), 'new', 'x.png')
+      );
+      await expect(assertWritablePath(join(workspace, 'escape', 'x.png'), [workspace], 'version')).rejects.toThrow(
+        'outside the workspace'
+      );
+      await expect(assertWritablePath(join(workspace, 'dangling.png'), [workspace], 'version')).rejects.toThrow(
+        PathSafetyError
+      );
+    });
+
+    it('should refuse to save outside the workspace and output directory', async () => {
+      await expect(checkOutputPath('/nanobanana-outside/x.png')).rejects.toMatchObject({
+        code: 'OUTSIDE_WORKSPACE',
+      });
+      await expect(saveImage(png, join(workspace, 'icons'), 'icon')).resolves.toBe(
+        join(workspace, 'icons', 'icon.png')
+      );
+    });
+
+    it('should allow only the calling job\'s temp workspace in the temp directory', async () => {
+      await expect(checkOutputPath(join(tmpdir(), 'x.png'))).rejects.toMatchObject({ code: 'OUTSIDE_WORKSPACE' });
+
+      const own = await createTempWorkspace('paths');
+      const other = await createTempWorkspace('paths');
+      try {
+        await expect(checkOutputPath(own.file('stitched.mp4'), 'version', own)).resolves.toBeUndefined();
+        await expect(checkOutputPath(other.file('stitched.mp4'), 'version', own)).rejects.toMatchObject({
+          code: 'OUTSIDE_WORKSPACE',
+        });
+        await expect(checkOutputPath(own.file('stitched.mp4'))).rejects.toMatchObject({ code: 'OUTSIDE_WORKSPACE' });
+      } finally {
+        await own.dispose();
+        await other.dispose();
+      }
+    });
+
+    it('should refuse an output directory outside the workspace before creating it', async () => {
+      const outputDir = join(outside, 'device-screenshots');
+      const result = JSON.parse(
+        await resizeForDevicesTool.execute({ imagePath: FIXTURE, platform: 'ios', outputDir }, {} as ToolContext)
+      );
+
+      expect(result).toMatchObject({ success: false, error: { code: 'OUTSIDE_WORKSPACE' } });
+      expect(existsSync(outputDir)).toBe(false);
+    });
+
+    it('should trust OUTPUT_DIR outside the workspace', async () => {
+      process.env.OUTPUT_DIR = outside;
+
+      await expect(checkOutputPath(join(outside, 'x.png'))).resolves.toBeUndefined();
+    });
+
+    it('should ignore config output directories outside the workspace unless opted in', async () => {
+      const config = { outputDirs: { generate_image: '../outside' } };
+      await writeFile(join(workspace, 'nanobanana.config.json'), JSON.stringify(config));
+      await initProjectConfig(workspace);
+      await expect(checkOutputPath(join(outside, 'x.png'))).rejects.toMatchObject({ code: 'OUTSIDE_WORKSPACE' });
+
+      await writeFile(
+        join(workspace, 'nanobanana.config.json'),
+        JSON.stringify({ ...config, allowExternalOutputDirs: true })
+      );
+      await initProjectConfig(workspace);
+      await expect(checkOutputPath(join(outside, 'x.png'))).resolves.toBeUndefined();
+    });
+  });
+
+  describe('overwrite policy', () => {
+    it('should refuse to overwrite with "never"', async () => {
+      const target = join(workspace, 'assets', 'logo.png');
+      await writeAsset(target, png, undefined, 'never');
+
+      await expect(writeAsset(target, png, undefined, 'never')).rejects.toMatchObject({ code: 'FILE_EXISTS' });
+      expect(await listVersions(join(workspace, 'assets', '.history'), 'logo')).toHaveLength(1);
+    });
+
+    it('should keep history with "version" and skip it with "replace"', async () => {
+      const versioned = join(workspace, 'assets', 'versioned.png');
+      const replaced = join(workspace, 'assets', 'replaced.png');
+      for (let i = 0; i < 2; i++) {
+        await writeAsset(versioned, png, undefined, 'version');
+        await writeAsset(replaced, png, undefined, 'replace');
+      }
+
+      const historyDir = join(workspace, 'assets', '.history');
+      expect(await listVersions(historyDir, 'versioned')).toHaveLength(2);
+      expect(existsSync(join(historyDir, 'replaced'))).toBe(false);
+
+      const manifest = await readManifest(join(workspace, 'assets', 'manifest.json'));
+      expect(manifest.assets.replaced).toMatchObject({ path: 'replaced.png' });
+      expect(manifest.assets.replaced!.version).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Provenance Tests
+ *
+ * Tests for provenance sidecars and PNG text chunks
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm, unlink, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import sharp from 'sharp';
+import {
+  readPngText,
+  writePngText,
+  readProvenance,
+  getSidecarPath,
+  sha256,
+  PLUGIN_VERSION,
+  PROVENANCE_KEYWORD,
+  type AssetProvenance,
+} from '../../src/utils/provenance.js';
+import { saveImage, saveVideo } from '../../src/utils/file-handler.js';
+
+const FIXTURE = join(__dirname, '..', 'fixtures', 'red-square.png');
+
+describe('Provenance', () => {
+  let dir: string;
+  let png: Buffer;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-provenance-'));
+    process.env.OUTPUT_DIR = dir;
+    process.env.NANOBANANA_WORKSPACE_ROOT = dir;
+    png = await readFile(FIXTURE);
+  });
+
+  afterEach(async () => {
+    delete process.env.OUTPUT_DIR;
+    delete process.env.NANOBANANA_WORKSPACE_ROOT;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  describe('PNG text chunks', () => {
+    it('should round-trip Latin-1 and UTF-8 text', async () => {
+      const tagged = writePngText(png, { Software: 'nanobanana', Description: 'Bananen 🍌 im Regen' });
+
+      expect(readPngText(tagged)).toEqual({ Software: 'nanobanana', Description: 'Bananen 🍌 im Regen' });
+      expect(tagged.includes(Buffer.from('iTXt'))).toBe(true);
+
+      // Still a valid image
+      const { width, height } = await sharp(tagged).metadata();
+      expect({ width, height }).toEqual({ width: 2, height: 2 });
+    });
+
+    it('should replace existing entries with the same keyword', () => {
+      const once = writePngText(png, { Description: 'first' });
+      const twice = writePngText(once, { Description: 'second' });
+
+      expect(readPngText(twice)).toEqual({ Description: 'second' });
+    });
+
+    it('should reject data that is not a PNG', () => {
+      expect(() => readPngText(Buffer.from('not a png'))).toThrow('not a PNG image');
+    });
+  });
+
+  describe('saveImage', () => {
+    it('should write a sidecar and embed the record in the PNG', async () => {
+      const sourcePath = join(dir, 'source.png');
+      await writeFile(sourcePath, png);
+
+      const savedPath = await saveImage(png, dir, 'a red square', 0, {
+        tool: 'edit_image',
+        prompt: 'make it red',
+        provider: 'mock',
+        model: 'mock-image',
+        options: { aspectRatio: '1:1' },
+        inputs: [sourcePath],
+      });
+
+      const saved = await readFile(savedPath);
+      const sidecar: AssetProvenance = JSON.parse(await readFile(getSidecarPath(savedPath), 'utf-8'));
+      expect(sidecar).toEqual({
+        tool: 'edit_image',
+        prompt: 'make it red',
+        provider: 'mock',
+        model: 'mock-image',
+        options: { aspectRatio: '1:1' },
+        inputs: [{ path: sourcePath, sha256: sha256(png) }],
+        sha256: sha256(saved),
+        createdAt: expect.any(String),
+        pluginVersion: PLUGIN_VERSION,
+      });
+
+      const text = readPngText(saved);
+      expect(text.Description).toBe('make it red');
+      expect(text.Software).toBe(`opencode-nanobanana ${PLUGIN_VERSION}`);
+      expect(JSON.parse(text[PROVENANCE_KEYWORD]!)).toMatchObject({ tool: 'edit_image', prompt: 'make it red' });
+    });
+
+    it('should leave the image untouched without provenance', async () => {
+      const savedPath = await saveImage(png, dir, 'plain', 0);
+
+      expect(await readFile(savedPath)).toEqual(png);
+      expect(existsSync(getSidecarPath(savedPath))).toBe(false);
+    });
+  });
+
+  describe('saveVideo', () => {
+    it('should write a sidecar next to the video', async () => {
+      const video = Buffer.from('fake-video-data');
+      const savedPath = await saveVideo(video, dir, 'a banana', { tool: 'generate_video', prompt: 'a banana' });
+
+      expect(await readFile(savedPath)).toEqual(video);
+      expect(await readProvenance(savedPath)).toMatchObject({
+        tool: 'generate_video',
+        prompt: 'a banana',
+        inputs: [],
+        sha256: sha256(video),
+      });
+    });
+  });
+
+  describe('readProvenance', () => {
+    it('should fall back to the record embedded in a PNG', async () => {
+      const savedPath = await saveImage(png, dir, 'copied', 0, { tool: 'generate_image', prompt: 'copied' });
+      await unlink(getSidecarPath(savedPath));
+
+      expect(await readProvenance(savedPath)).toMatchObject({ tool: 'generate_image', prompt: 'copied' });
+    });
+
+    it('should return undefined when nothing was recorded', async () => {
+      const savedPath = await saveImage(png, dir, 'unknown', 0);
+
+      expect(await readProvenance(savedPath)).toBeUndefined();
+    });
+  });
+});
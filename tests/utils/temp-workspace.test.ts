@@ -0,0 +1,67 @@
+/**
+ * Temp Workspace Tests
+ *
+ * Tests for per-job temp directories used by video pipelines
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { dirname } from 'path';
+import { tmpdir } from 'os';
+import { createTempWorkspace, withTempWorkspace } from '../../src/utils/temp-workspace.js';
+
+describe('Temp workspace', () => {
+  afterEach(() => {
+    delete process.env.NANOBANANA_DEBUG;
+  });
+
+  it('should track intermediates in a per-job directory and remove it', async () => {
+    const workspace = await createTempWorkspace('test');
+    const scene = workspace.file('scene-0.mp4');
+    await writeFile(scene, 'scene');
+
+    expect(dirname(workspace.dir)).toBe(tmpdir());
+    expect(workspace.dir).toContain('nanobanana-test-');
+    expect(dirname(scene)).toBe(workspace.dir);
+    expect(workspace.files).toEqual([scene]);
+
+    await workspace.dispose();
+    await workspace.dispose();
+    expect(existsSync(workspace.dir)).toBe(false);
+  });
+
+  it('should keep names inside the workspace', async () => {
+    const workspace = await createTempWorkspace('test');
+
+    expect(dirname(workspace.file('../escape.mp4'))).toBe(workspace.dir);
+    await workspace.dispose();
+  });
+
+  it('should clean up when the job fails', async () => {
+    let dir = '';
+    await expect(
+      withTempWorkspace('test', async (workspace) => {
+        dir = workspace.dir;
+        await writeFile(workspace.file('stitched.mp4'), 'partial');
+        throw new Error('Stitching failed');
+      })
+    ).rejects.toThrow('Stitching failed');
+
+    expect(existsSync(dir)).toBe(false);
+  });
+
+  it('should keep intermediates in debug mode', async () => {
+    process.env.NANOBANANA_DEBUG = '1';
+    const dir = await withTempWorkspace('test', async (workspace) => {
+      await writeFile(workspace.file('scene-0.mp4'), 'scene');
+      return workspace.dir;
+    });
+
+    try {
+      expect(existsSync(dir)).toBe(true);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
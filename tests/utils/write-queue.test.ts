@@ -0,0 +1,63 @@
+/**
+ * Write Queue Tests
+ *
+ * Tests for serialized state writes and temp-then-rename file replacement
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, readdir, rm } from 'fs/promises';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { createWriteQueue, writeFileAtomic } from '../../src/utils/write-queue.js';
+
+describe('Write queue', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'nanobanana-write-queue-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should run writes one at a time in the order they were queued', async () => {
+    const queue = createWriteQueue();
+    const events: string[] = [];
+    const write = (name: string, delayMs: number) =>
+      queue.run(async () => {
+        events.push(`start ${name}`);
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+        events.push(`end ${name}`);
+        return name;
+      });
+
+    const results = await Promise.all([write('a', 20), write('b', 0)]);
+
+    expect(results).toEqual(['a', 'b']);
+    expect(events).toEqual(['start a', 'end a', 'start b', 'end b']);
+  });
+
+  it('should keep running writes after one fails', async () => {
+    const queue = createWriteQueue();
+
+    const failed = queue.run(async () => {
+      throw new Error('disk full');
+    });
+    const next = queue.run(async () => 'written');
+
+    await expect(failed).rejects.toThrow('disk full');
+    await expect(next).resolves.toBe('written');
+    await expect(queue.idle()).resolves.toBeUndefined();
+  });
+
+  it('should replace a file and create its directory without leaving a temp file', async () => {
+    const path = join(dir, 'state', 'log.json');
+
+    await writeFileAtomic(path, '{"version":1}');
+    await writeFileAtomic(path, '{"version":2}');
+
+    expect(await readFile(path, 'utf-8')).toBe('{"version":2}');
+    expect(await readdir(join(dir, 'state'))).toEqual(['log.json']);
+  });
+});
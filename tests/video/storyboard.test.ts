@@ -5,31 +5,49 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { generateStoryboardVideo } from '../../src/tools/video/storyboard-video.js';
+import {
+  generateStoryboardVideo,
+  describeStoryboardProgress,
+  type StoryboardProgressEvent,
+} from '../../src/tools/video/storyboard-video.js';
 import * as ffmpeg from '../../src/utils/ffmpeg.js';
+import * as fileHandler from '../../src/utils/file-handler.js';
 import { GeminiProvider } from '../../src/providers/gemini.js';
+import { OperationAbortedError } from '../../src/providers/errors.js';
 import * as fs from 'fs/promises';
 import { existsSync } from 'fs';
 
 // Mock dependencies
-vi.mock('../../src/utils/ffmpeg.js', () => ({
+vi.mock('../../src/utils/ffmpeg.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/ffmpeg.js')>()),
   checkFfmpegInstalled: vi.fn(),
   concatenateVideos: vi.fn(),
   addAudioTrack: vi.fn(),
 }));
 
-vi.mock('fs', () => ({
+vi.mock('../../src/utils/file-handler.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/utils/file-handler.js')>()),
+  checkOutputPath: vi.fn(),
+  recordProvenance: vi.fn(),
+}));
+
+vi.mock('fs', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('fs')>()),
   existsSync: vi.fn(),
 }));
 
 vi.mock('fs/promises', () => ({
   writeFile: vi.fn(),
-  unlink: vi.fn(),
   readFile: vi.fn(),
+  mkdtemp: vi.fn(),
+  mkdir: vi.fn(),
+  rm: vi.fn(),
 }));
 
 vi.mock('../../src/providers/gemini.js', () => {
   const mockProvider = {
+    name: 'gemini',
+    modelFor: vi.fn(() => 'veo-3.0-generate-001'),
     generateVideo: vi.fn(),
     generateVideoWithReferences: vi.fn(),
   };
@@ -51,7 +69,8 @@ describe('Storyboard Video Integration Tests', () => {
     (ffmpeg.addAudioTrack as any).mockResolvedValue();
     (existsSync as any).mockReturnValue(true);
     (fs.writeFile as any).mockResolvedValue();
-    (fs.unlink as any).mockResolvedValue();
+    (fs.mkdtemp as any).mockImplementation(async (prefix: string) => `${prefix}test`);
+    (fs.rm as any).mockResolvedValue();
     (fs.readFile as any).mockResolvedValue(Buffer.from('fake-image-data'));
 
     // Get mocked provider instance
@@ -86,14 +105,20 @@ describe('Storyboard Video Integration Tests', () => {
       // Verify scenes were written to temp files
       expect(fs.writeFile).toHaveBeenCalledTimes(3);
 
+      // Verify provenance was recorded for the stitched video
+      expect(fileHandler.recordProvenance).toHaveBeenCalledWith(
+        result.videoPath,
+        expect.objectContaining({ tool: 'generate_storyboard_video', prompt: options.scenes.join('\n') })
+      );
+
       // Verify result structure
       expect(result).toMatchObject({
         videoPath: expect.any(String),
         totalTime: expect.any(Number),
         sceneTimes: expect.arrayContaining([
-          { scene: 1, time: expect.any(Number) },
-          { scene: 2, time: expect.any(Number) },
-          { scene: 3, time: expect.any(Number) },
+          { scene: 1, time: expect.any(Number), attempts: expect.any(Number) },
+          { scene: 2, time: expect.any(Number), attempts: expect.any(Number) },
+          { scene: 3, time: expect.any(Number), attempts: expect.any(Number) },
         ]),
         successCount: 3,
         failureCount: 0,
@@ -155,20 +180,24 @@ describe('Storyboard Video Integration Tests', () => {
 
       await generateStoryboardVideo(options);
 
+      // The output path is checked before FFmpeg writes to it
+      expect(fileHandler.checkOutputPath).toHaveBeenCalledWith('/output/test-video.mp4');
       expect(ffmpeg.concatenateVideos).toHaveBeenCalledWith(
         expect.arrayContaining([
-          expect.stringContaining('scene-0-'),
-          expect.stringContaining('scene-1-'),
+          expect.stringContaining('scene-0.mp4'),
+          expect.stringContaining('scene-1.mp4'),
         ]),
         '/output/test-video.mp4',
         {
           transition: 'crossfade',
           transitionDuration: 1.0,
+          workDir: expect.any(String),
+          onProgress: expect.any(Function),
         }
       );
     });
 
-    it('should clean up temporary scene files after stitching', async () => {
+    it('should clean up the temp workspace after stitching', async () => {
       const options = {
         apiKey: 'test-api-key',
         scenes: ['Scene 1', 'Scene 2'],
@@ -176,8 +205,21 @@ describe('Storyboard Video Integration Tests', () => {
 
       await generateStoryboardVideo(options);
 
-      // Verify unlink was called for each scene file
-      expect(fs.unlink).toHaveBeenCalledTimes(2);
+      // Scenes are written to one per-job directory, which is removed afterwards
+      expect(fs.writeFile).toHaveBeenCalledWith(
+        expect.stringMatching(/nanobanana-storyboard-test[\\/]scene-1\.mp4$/),
+        expect.any(Buffer)
+      );
+      expect(ffmpeg.concatenateVideos).toHaveBeenCalledWith(expect.any(Array), expect.any(String), {
+        transition: 'crossfade',
+        transitionDuration: 0.5,
+        workDir: expect.stringContaining('nanobanana-storyboard-test'),
+        onProgress: expect.any(Function),
+      });
+      expect(fs.rm).toHaveBeenCalledWith(expect.stringContaining('nanobanana-storyboard-test'), {
+        recursive: true,
+        force: true,
+      });
     });
 
     it('should handle background music mixing', async () => {
@@ -194,16 +236,17 @@ describe('Storyboard Video Integration Tests', () => {
       // Verify stitching happened to temp file first
       expect(ffmpeg.concatenateVideos).toHaveBeenCalledWith(
         expect.any(Array),
-        expect.stringContaining('stitched-'),
+        expect.stringContaining('stitched.mp4'),
         expect.any(Object)
       );
 
       // Verify audio was added to final output
       expect(ffmpeg.addAudioTrack).toHaveBeenCalledWith(
-        expect.stringContaining('stitched-'),
+        expect.stringContaining('stitched.mp4'),
         '/path/to/music.mp3',
         '/output/final.mp4',
-        0.5
+        0.5,
+        { onProgress: expect.any(Function) }
       );
     });
   });
@@ -244,6 +287,53 @@ describe('Storyboard Video Integration Tests', () => {
       );
     });
 
+    it('should pass per-scene transition overrides as boundaries', async () => {
+      // Scene 2 fails, so its override goes with it
+      mockProvider.generateVideo
+        .mockResolvedValueOnce({ buffer: Buffer.from('video1') })
+        .mockRejectedValueOnce(new Error('Generation failed'))
+        .mockResolvedValueOnce({ buffer: Buffer.from('video3') })
+        .mockResolvedValueOnce({ buffer: Buffer.from('video4') });
+
+      await generateStoryboardVideo({
+        apiKey: 'test-api-key',
+        scenes: ['Scene 1', 'Scene 2', 'Scene 3', 'Scene 4'],
+        transition: 'dissolve',
+        transitions: [
+          { scene: 2, transition: 'cut' },
+          { scene: 4, transition: 'wipeleft', duration: 1.5 },
+        ],
+      });
+
+      expect(ffmpeg.concatenateVideos).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.any(String),
+        expect.objectContaining({
+          transition: 'dissolve',
+          boundaries: [undefined, { transition: 'wipeleft', duration: 1.5 }],
+        })
+      );
+    });
+
+    it('should reject bad transition overrides before generating scenes', async () => {
+      await expect(
+        generateStoryboardVideo({
+          apiKey: 'test-api-key',
+          scenes: ['Scene 1', 'Scene 2'],
+          transitions: [{ scene: 1, transition: 'wipeleft' }],
+        })
+      ).rejects.toThrow('Transition scene must be between 2 and 2, got: 1');
+      await expect(
+        generateStoryboardVideo({
+          apiKey: 'test-api-key',
+          scenes: ['Scene 1', 'Scene 2'],
+          transitions: [{ scene: 2, transition: 'spin' as any }],
+        })
+      ).rejects.toThrow('Unknown transition type: spin');
+
+      expect(mockProvider.generateVideo).not.toHaveBeenCalled();
+    });
+
     it('should use fade transition when specified', async () => {
       const options = {
         apiKey: 'test-api-key',
@@ -368,8 +458,8 @@ describe('Storyboard Video Integration Tests', () => {
       // Should still concatenate the successful scenes
       expect(ffmpeg.concatenateVideos).toHaveBeenCalledWith(
         expect.arrayContaining([
-          expect.stringContaining('scene-0-'),
-          expect.stringContaining('scene-2-'),
+          expect.stringContaining('scene-0.mp4'),
+          expect.stringContaining('scene-2.mp4'),
         ]),
         expect.any(String),
         expect.any(Object)
@@ -430,7 +520,29 @@ describe('Storyboard Video Integration Tests', () => {
       );
 
       // Verify cleanup still happened
-      expect(fs.unlink).toHaveBeenCalledTimes(2);
+      expect(fs.rm).toHaveBeenCalledWith(expect.stringContaining('nanobanana-storyboard-test'), {
+        recursive: true,
+        force: true,
+      });
+    });
+
+    it('should clean up the temp workspace when cancelled', async () => {
+      mockProvider.generateVideo
+        .mockResolvedValueOnce({ buffer: Buffer.from('scene1') })
+        .mockRejectedValueOnce(new OperationAbortedError('operations/123'));
+
+      const options = {
+        apiKey: 'test-api-key',
+        scenes: ['Scene 1', 'Scene 2', 'Scene 3'],
+      };
+
+      await expect(generateStoryboardVideo(options)).rejects.toThrow('Cancelled');
+
+      expect(ffmpeg.concatenateVideos).not.toHaveBeenCalled();
+      expect(fs.rm).toHaveBeenCalledWith(expect.stringContaining('nanobanana-storyboard-test'), {
+        recursive: true,
+        force: true,
+      });
     });
   });
 
@@ -465,5 +577,57 @@ describe('Storyboard Video Integration Tests', () => {
       expect(result.totalTime).toBeGreaterThanOrEqual(0);
       expect(result.totalTime).toBeTypeOf('number');
     });
+
+    it('should report structured progress events', async () => {
+      mockProvider.generateVideo
+        .mockResolvedValueOnce({ buffer: Buffer.from('video1') })
+        .mockRejectedValueOnce(new Error('Generation failed'));
+      const events: StoryboardProgressEvent[] = [];
+
+      const result = await generateStoryboardVideo({
+        apiKey: 'test-api-key',
+        scenes: ['Scene 1', 'Scene 2'],
+        transition: 'cut',
+        onProgress: (event) => events.push(event),
+      });
+
+      expect(events.map((event) => event.type)).toEqual([
+        'started',
+        'scene_started',
+        'scene_completed',
+        'scene_started',
+        'scene_failed',
+        'stitching',
+        'completed',
+      ]);
+      expect(events[4]).toMatchObject({ scene: 2, total: 2, error: 'Generation failed' });
+      expect(events[6]).toMatchObject({ videoPath: result.videoPath, successCount: 1, failureCount: 1 });
+      expect(result.jobId).toEqual(expect.any(String));
+      expect(describeStoryboardProgress(events[4]!)).toBe('Scene 2/2 failed: Generation failed');
+      expect(describeStoryboardProgress(events[5]!)).toBe('Stitching 1 scene(s) with cut transitions');
+    });
+
+    it('should report FFmpeg render progress while stitching', async () => {
+      (ffmpeg.concatenateVideos as any).mockImplementation(
+        async (_paths: string[], _output: string, options: ffmpeg.ConcatenateOptions) => {
+          options.onProgress?.({ outTime: 6, percent: 50, fps: 48, speed: 2, etaSeconds: 3, done: false });
+          options.onProgress?.({ outTime: 12, percent: 100, etaSeconds: 0, done: true });
+        }
+      );
+      const events: StoryboardProgressEvent[] = [];
+
+      await generateStoryboardVideo({
+        apiKey: 'test-api-key',
+        scenes: ['Scene 1', 'Scene 2'],
+        onProgress: (event) => events.push(event),
+      });
+
+      const rendering = events.filter((event) => event.type === 'rendering');
+      expect(rendering).toEqual([
+        { type: 'rendering', step: 'stitching', percent: 50, fps: 48, etaSeconds: 3 },
+        { type: 'rendering', step: 'stitching', percent: 100, fps: undefined, etaSeconds: 0 },
+      ]);
+      expect(describeStoryboardProgress(rendering[0]!)).toBe('Stitching 50% (about 3s left)');
+    });
   });
 });